@@ -1,11 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { User } from '../models/User';
+import { User, IUser } from '../models/User';
 
 export interface AuthenticatedRequest extends Request {
   user?: any;
 }
 
+// Resolve a JWT to its user; throws if the token is invalid or expired
+export const verifyToken = async (token: string): Promise<IUser | null> => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret') as any;
+  return User.findById(decoded.userId);
+};
+
 export const auth = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const token = req.header('Authorization')?.replace('Bearer ', '');
@@ -15,8 +21,7 @@ export const auth = async (req: AuthenticatedRequest, res: Response, next: NextF
       return;
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret') as any;
-    const user = await User.findById(decoded.userId);
+    const user = await verifyToken(token);
     
     if (!user) {
       res.status(401).json({ message: 'Token is not valid' });
@@ -28,4 +33,13 @@ export const auth = async (req: AuthenticatedRequest, res: Response, next: NextF
   } catch (error) {
     res.status(401).json({ message: 'Token is not valid' });
   }
-};
\ No newline at end of file
+};
+
+// After `auth`: server-wide settings such as the asset catalog are for admins only
+export const requireAdmin = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  if (req.user?.role !== 'admin') {
+    res.status(403).json({ message: 'Admin access required' });
+    return;
+  }
+  next();
+};
@@ -0,0 +1,91 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type AssetType = 'stock' | 'index' | 'crypto' | 'forex';
+
+export interface IAsset extends Document {
+  symbol: string;
+  name: string;
+  assetClass: 'us_equity' | 'crypto' | 'forex';
+  type: AssetType; // Display group; ETFs are us_equity assets shown as indices
+  exchange?: string;
+  status: 'active' | 'inactive';
+  tradable: boolean;
+  fractionable: boolean;
+  marginable: boolean;
+  shortable: boolean;
+  categories: string[]; // Curated groupings such as 'Tech Giants'; never touched by the provider sync
+  featured: boolean; // Streamed by default and shown in summaries
+  syncedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const assetSchema = new Schema<IAsset>({
+  symbol: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  assetClass: {
+    type: String,
+    enum: ['us_equity', 'crypto', 'forex'],
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['stock', 'index', 'crypto', 'forex'],
+    required: true
+  },
+  exchange: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['active', 'inactive'],
+    default: 'active'
+  },
+  tradable: {
+    type: Boolean,
+    default: false
+  },
+  fractionable: {
+    type: Boolean,
+    default: false
+  },
+  marginable: {
+    type: Boolean,
+    default: false
+  },
+  shortable: {
+    type: Boolean,
+    default: false
+  },
+  categories: [{
+    type: String,
+    trim: true
+  }],
+  featured: {
+    type: Boolean,
+    default: false
+  },
+  syncedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for efficient queries
+assetSchema.index({ assetClass: 1, status: 1 });
+assetSchema.index({ categories: 1 });
+assetSchema.index({ featured: 1 });
+
+export const Asset = mongoose.model<IAsset>('Asset', assetSchema);
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IBar extends Document {
+  meta: {
+    symbol: string;
+    timeframe: string;
+  };
+  timestamp: Date; // Start of the bar's interval
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+const barSchema = new Schema<IBar>({
+  meta: {
+    symbol: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true
+    },
+    timeframe: {
+      type: String,
+      required: true
+    }
+  },
+  timestamp: {
+    type: Date,
+    required: true
+  },
+  open: { type: Number, required: true },
+  high: { type: Number, required: true },
+  low: { type: Number, required: true },
+  close: { type: Number, required: true },
+  volume: { type: Number, default: 0 }
+}, {
+  // Stored as a MongoDB time-series collection bucketed per symbol/timeframe
+  timeseries: {
+    timeField: 'timestamp',
+    metaField: 'meta',
+    granularity: 'minutes'
+  },
+  versionKey: false
+});
+
+barSchema.index({ 'meta.symbol': 1, 'meta.timeframe': 1, timestamp: 1 });
+
+export const Bar = mongoose.model<IBar>('Bar', barSchema);
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICoveredRange {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+// Time ranges of a symbol/timeframe already fetched from the provider, with or without bars in them
+export interface IBarCoverage extends Document {
+  symbol: string;
+  timeframe: string;
+  ranges: ICoveredRange[];
+  lastBackfillAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const coveredRangeSchema = new Schema<ICoveredRange>({
+  start: {
+    type: Date,
+    required: true
+  },
+  end: {
+    type: Date,
+    required: true
+  }
+}, { _id: false });
+
+const barCoverageSchema = new Schema<IBarCoverage>({
+  symbol: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true
+  },
+  timeframe: {
+    type: String,
+    required: true
+  },
+  ranges: [coveredRangeSchema],
+  lastBackfillAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+barCoverageSchema.index({ symbol: 1, timeframe: 1 }, { unique: true });
+
+export const BarCoverage = mongoose.model<IBarCoverage>('BarCoverage', barCoverageSchema);
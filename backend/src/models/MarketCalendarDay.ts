@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One weekday of the US equity calendar as last synced from the provider; times are New York HH:MM
+export interface IMarketCalendarDay extends Document {
+  date: string; // YYYY-MM-DD
+  isOpen: boolean;
+  holiday?: string; // Name of the closure when the market doesn't trade
+  open?: string;
+  close?: string;
+  sessionOpen?: string; // Start of pre-market
+  sessionClose?: string; // End of after-hours
+  earlyClose: boolean;
+  syncedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const marketCalendarDaySchema = new Schema<IMarketCalendarDay>({
+  date: {
+    type: String,
+    required: true,
+    unique: true,
+    match: /^\d{4}-\d{2}-\d{2}$/
+  },
+  isOpen: {
+    type: Boolean,
+    required: true
+  },
+  holiday: {
+    type: String
+  },
+  open: {
+    type: String
+  },
+  close: {
+    type: String
+  },
+  sessionOpen: {
+    type: String
+  },
+  sessionClose: {
+    type: String
+  },
+  earlyClose: {
+    type: Boolean,
+    default: false
+  },
+  syncedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+export const MarketCalendarDay = mongoose.model<IMarketCalendarDay>('MarketCalendarDay', marketCalendarDaySchema);
@@ -1,5 +1,7 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo' | 'specific';
+
 export interface IPortfolio extends Document {
   userId: mongoose.Types.ObjectId;
   name: string;
@@ -8,6 +10,9 @@ export interface IPortfolio extends Document {
   totalCost: number;
   totalPnL: number;
   totalPnLPercent: number;
+  cashBalance: number;
+  costBasisMethod: CostBasisMethod;
+  realizedPnL: number;
   assets: IPortfolioAsset[];
   createdAt: Date;
   updatedAt: Date;
@@ -23,9 +28,25 @@ export interface IPortfolioAsset {
   marketValue: number;
   unrealizedPnL: number;
   unrealizedPnLPercent: number;
+  lots: IPortfolioLot[];
   lastUpdated: Date;
 }
 
+// An open tax lot: the part of one acquisition that has not been sold yet
+export interface IPortfolioLot {
+  transactionId: mongoose.Types.ObjectId;
+  quantity: number;
+  costPerUnit: number; // Includes the acquisition fee
+  acquiredAt: Date;
+}
+
+const portfolioLotSchema = new Schema<IPortfolioLot>({
+  transactionId: { type: mongoose.Schema.Types.ObjectId, ref: 'Transaction', required: true },
+  quantity: { type: Number, required: true, min: 0 },
+  costPerUnit: { type: Number, required: true, min: 0 },
+  acquiredAt: { type: Date, required: true }
+}, { _id: false });
+
 const portfolioAssetSchema = new Schema<IPortfolioAsset>({
   symbol: { type: String, required: true },
   name: { type: String, required: true },
@@ -36,6 +57,7 @@ const portfolioAssetSchema = new Schema<IPortfolioAsset>({
   marketValue: { type: Number, required: true, min: 0 },
   unrealizedPnL: { type: Number, required: true },
   unrealizedPnLPercent: { type: Number, required: true },
+  lots: [portfolioLotSchema],
   lastUpdated: { type: Date, default: Date.now }
 });
 
@@ -76,6 +98,19 @@ const portfolioSchema = new Schema<IPortfolio>({
     required: true,
     default: 0
   },
+  cashBalance: {
+    type: Number,
+    default: 0
+  },
+  costBasisMethod: {
+    type: String,
+    enum: ['fifo', 'lifo', 'hifo', 'specific'],
+    default: 'fifo'
+  },
+  realizedPnL: {
+    type: Number,
+    default: 0
+  },
   assets: [portfolioAssetSchema]
 }, {
   timestamps: true
@@ -12,6 +12,7 @@ export interface IPriceAlert extends Document {
   isActive: boolean;
   isTriggered: boolean;
   triggeredAt?: Date;
+  triggeredPrice?: number;
   notificationMethod: 'browser' | 'email' | 'both';
   message?: string;
   createdAt: Date;
@@ -74,6 +75,10 @@ const priceAlertSchema = new Schema<IPriceAlert>({
   triggeredAt: {
     type: Date
   },
+  triggeredPrice: {
+    type: Number,
+    min: 0
+  },
   notificationMethod: {
     type: String,
     enum: ['browser', 'email', 'both'],
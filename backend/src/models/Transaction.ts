@@ -0,0 +1,145 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type TransactionType = 'buy' | 'sell' | 'deposit' | 'withdraw' | 'fee' | 'transfer';
+
+// Specific identification: which acquisitions a sell or transfer out draws from
+export interface ILotSelection {
+  transactionId: mongoose.Types.ObjectId;
+  quantity: number;
+}
+
+export interface ITransaction extends Document {
+  portfolioId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  type: TransactionType;
+  symbol?: string;
+  name?: string;
+  assetType?: 'stock' | 'crypto';
+  quantity?: number;
+  price?: number;
+  fee: number;
+  amount?: number;
+  transferDirection?: 'in' | 'out';
+  lotSelections?: ILotSelection[];
+  executedAt: Date;
+  notes?: string;
+  source: 'manual' | 'migration';
+  voidedAt?: Date;
+  voidReason?: string;
+  replacesTransactionId?: mongoose.Types.ObjectId;
+  replacedByTransactionId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const isAssetTransaction = function(this: ITransaction) {
+  return this.type === 'buy' || this.type === 'sell' || this.type === 'transfer';
+};
+
+const transactionSchema = new Schema<ITransaction>({
+  portfolioId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Portfolio',
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['buy', 'sell', 'deposit', 'withdraw', 'fee', 'transfer'],
+    required: true
+  },
+  symbol: {
+    type: String,
+    uppercase: true,
+    trim: true,
+    required: isAssetTransaction
+  },
+  name: {
+    type: String,
+    trim: true
+  },
+  assetType: {
+    type: String,
+    enum: ['stock', 'crypto']
+  },
+  quantity: {
+    type: Number,
+    min: 0,
+    required: isAssetTransaction
+  },
+  price: {
+    type: Number,
+    min: 0,
+    required: function(this: ITransaction) {
+      // Transfers in carry their cost basis; transfers out leave at cost
+      return this.type === 'buy' || this.type === 'sell' ||
+        (this.type === 'transfer' && this.transferDirection === 'in');
+    }
+  },
+  fee: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  amount: {
+    type: Number,
+    min: 0,
+    required: function(this: ITransaction) {
+      return this.type === 'deposit' || this.type === 'withdraw' ||
+        (this.type === 'fee' && !this.quantity);
+    }
+  },
+  transferDirection: {
+    type: String,
+    enum: ['in', 'out'],
+    required: function(this: ITransaction) {
+      return this.type === 'transfer';
+    }
+  },
+  lotSelections: [{
+    _id: false,
+    transactionId: { type: mongoose.Schema.Types.ObjectId, ref: 'Transaction', required: true },
+    quantity: { type: Number, required: true, min: 0 }
+  }],
+  executedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  source: {
+    type: String,
+    enum: ['manual', 'migration'],
+    default: 'manual'
+  },
+  voidedAt: {
+    type: Date
+  },
+  voidReason: {
+    type: String,
+    trim: true
+  },
+  replacesTransactionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Transaction'
+  },
+  replacedByTransactionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Transaction'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for efficient queries
+transactionSchema.index({ portfolioId: 1, executedAt: 1 });
+transactionSchema.index({ userId: 1 });
+
+export const Transaction = mongoose.model<ITransaction>('Transaction', transactionSchema);
@@ -6,6 +6,7 @@ export interface IUser extends Document {
   firstName: string;
   lastName: string;
   isVerified: boolean;
+  role: 'user' | 'admin'; // Admins curate the shared asset catalog; only ever set directly in the database
   createdAt: Date;
   updatedAt: Date;
 }
@@ -36,6 +37,11 @@ const userSchema = new Schema<IUser>({
   isVerified: {
     type: Boolean,
     default: false
+  },
+  role: {
+    type: String,
+    enum: ['user', 'admin'],
+    default: 'user'
   }
 }, {
   timestamps: true
@@ -51,5 +51,7 @@ const watchlistSchema = new Schema<IWatchlist>({
 // Index for efficient queries
 watchlistSchema.index({ userId: 1 });
 watchlistSchema.index({ 'symbols.symbol': 1 });
+// A user has at most one default watchlist
+watchlistSchema.index({ userId: 1, isDefault: 1 }, { unique: true, partialFilterExpression: { isDefault: true } });
 
 export const Watchlist = mongoose.model<IWatchlist>('Watchlist', watchlistSchema);
\ No newline at end of file
@@ -1,9 +1,18 @@
 import express from 'express';
 import { PriceAlert } from '../models/PriceAlert';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { PriceAlertService } from '../services/PriceAlertService';
+import { MarketDataService } from '../services/MarketDataService';
 
 const router = express.Router();
 
+// Keep the live evaluator in step with alert changes made through this router
+const getPriceAlertService = (req: AuthenticatedRequest): PriceAlertService | undefined =>
+  req.app.get('priceAlertService');
+
+const getMarketDataService = (req: AuthenticatedRequest): MarketDataService | undefined =>
+  req.app.get('marketDataService');
+
 // Get all alerts for user
 router.get('/', async (req: AuthenticatedRequest, res) => {
   try {
@@ -85,6 +94,7 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
     });
 
     await alert.save();
+    getPriceAlertService(req)?.track(alert);
     res.status(201).json({ message: 'Alert created', alert });
   } catch (error) {
     console.error('Create alert error:', error);
@@ -111,6 +121,7 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ message: 'Alert not found' });
     }
 
+    getPriceAlertService(req)?.track(alert);
     res.json({ message: 'Alert updated', alert });
   } catch (error) {
     console.error('Update alert error:', error);
@@ -130,6 +141,7 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ message: 'Alert not found' });
     }
 
+    getPriceAlertService(req)?.untrack(String(alert._id));
     res.json({ message: 'Alert deleted' });
   } catch (error) {
     console.error('Delete alert error:', error);
@@ -155,9 +167,18 @@ router.patch('/:id/toggle', async (req: AuthenticatedRequest, res) => {
     if (alert.isActive) {
       alert.isTriggered = false;
       alert.triggeredAt = undefined;
+      alert.triggeredPrice = undefined;
+
+      // A change_percent alert measures from currentPrice; re-armed, it measures
+      // from now rather than from the price it was created at
+      const latest = await getMarketDataService(req)?.getMarketData(alert.symbol).catch(() => null);
+      if (latest && !latest.simulated && latest.price > 0) {
+        alert.currentPrice = latest.price;
+      }
     }
 
     await alert.save();
+    getPriceAlertService(req)?.track(alert);
     res.json({ message: 'Alert status updated', alert });
   } catch (error) {
     console.error('Toggle alert error:', error);
@@ -182,6 +203,7 @@ router.patch('/:id/trigger', async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ message: 'Alert not found' });
     }
 
+    getPriceAlertService(req)?.untrack(String(alert._id));
     res.json({ message: 'Alert triggered', alert });
   } catch (error) {
     console.error('Trigger alert error:', error);
@@ -1,10 +1,13 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { User } from '../models/User';
 import { auth, AuthenticatedRequest } from '../middleware/auth';
+import { WatchlistService } from '../services/WatchlistService';
 
 const router = express.Router();
+const watchlistService = new WatchlistService();
 
 // Register
 router.post('/register', async (req, res) => {
@@ -40,6 +43,10 @@ router.post('/register', async (req, res) => {
 
     await user.save();
 
+    // Not fatal: the list is created on first access if this fails
+    await watchlistService.ensureDefault(user._id as mongoose.Types.ObjectId)
+      .catch(error => console.warn('⚠️ Could not create default watchlist:', error.message));
+
     // Generate JWT
     const token = jwt.sign(
       { userId: user._id },
@@ -1,16 +1,40 @@
 import express from 'express';
-import { MarketDataService } from '../services/MarketDataService';
-import { CacheService } from '../services/CacheService';
+import { MarketDataService, ChangeBaseline, changeBaselines } from '../services/MarketDataService';
+import { TechnicalIndicatorService } from '../services/TechnicalIndicatorService';
+import { BarAdjustment, BarFeed, barAdjustments, barFeeds } from '../services/providers/MarketDataProvider';
+import { parseTimeframe, timeframes } from '../services/timeframes';
+import { AssetCatalogService } from '../services/AssetCatalogService';
+import { SymbolSearchService } from '../services/SymbolSearchService';
+import { MarketCalendarService } from '../services/MarketCalendarService';
+import { toNewYork } from '../services/marketTime';
+import { AssetType } from '../models/Asset';
+import { auth, requireAdmin } from '../middleware/auth';
 
 const router = express.Router();
-const cacheService = new CacheService();
-const marketDataService = new MarketDataService(cacheService);
+
+// Optional ?baseline= (or body.baseline): undefined when absent, null when not a known baseline
+const parseBaseline = (value: unknown): ChangeBaseline | undefined | null => {
+  if (value === undefined || value === '') return undefined;
+  return changeBaselines.includes(value as ChangeBaseline) ? value as ChangeBaseline : null;
+};
+const invalidBaselineMessage = `Invalid baseline. Valid options: ${changeBaselines.join(', ')}`;
+const invalidTimeframeMessage = `Invalid timeframe. Valid options: ${timeframes.join(', ')}`;
 
 // Get market data for a symbol
 router.get('/quote/:symbol', async (req, res) => {
   try {
+    const marketDataService: MarketDataService | undefined = req.app.get('marketDataService');
+    if (!marketDataService) {
+      return res.status(503).json({ message: 'Market data is not available' });
+    }
+
     const { symbol } = req.params;
-    const marketData = await marketDataService.getMarketData(symbol);
+    const baseline = parseBaseline(req.query.baseline);
+    if (baseline === null) {
+      return res.status(400).json({ message: invalidBaselineMessage });
+    }
+
+    const marketData = await marketDataService.getMarketData(symbol, baseline);
     
     if (!marketData) {
       return res.status(404).json({ message: 'Market data not found' });
@@ -23,15 +47,113 @@ router.get('/quote/:symbol', async (req, res) => {
   }
 });
 
+const assetTypes: AssetType[] = ['stock', 'index', 'crypto', 'forex'];
+
+// List the asset catalog: ?class=us_equity|crypto|forex&type=&category=&q=&curated=true&tradable=&limit=&offset=
+router.get('/assets', async (req, res) => {
+  try {
+    const catalog: AssetCatalogService | undefined = req.app.get('assetCatalogService');
+    if (!catalog) {
+      return res.status(503).json({ message: 'Asset catalog is not available' });
+    }
+
+    const { class: assetClass, type, category, q, curated, tradable, limit, offset } = req.query;
+    const { assets, total } = catalog.getAssets({
+      assetClass: assetClass as string | undefined,
+      type: type as string | undefined,
+      category: category as string | undefined,
+      q: q as string | undefined,
+      curated: curated === 'true',
+      tradable: tradable === undefined ? undefined : tradable === 'true',
+      limit: limit ? parseInt(limit as string) : undefined,
+      offset: offset ? parseInt(offset as string) : undefined
+    });
+
+    res.json({ assets, total, lastSyncAt: catalog.getLastSyncAt() });
+  } catch (error) {
+    console.error('Get assets error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Curated categories with their symbols, in display order
+router.get('/assets/categories', async (req, res) => {
+  try {
+    const catalog: AssetCatalogService | undefined = req.app.get('assetCatalogService');
+    if (!catalog) {
+      return res.status(503).json({ message: 'Asset catalog is not available' });
+    }
+
+    res.json({ categories: catalog.getCategories(), featured: catalog.getFeaturedSymbols() });
+  } catch (error) {
+    console.error('Get asset categories error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+router.get('/assets/:symbol', async (req, res) => {
+  try {
+    const catalog: AssetCatalogService | undefined = req.app.get('assetCatalogService');
+    const asset = catalog?.getAsset(req.params.symbol);
+    if (!asset) {
+      return res.status(404).json({ message: `Asset ${req.params.symbol} not found` });
+    }
+
+    res.json({ asset });
+  } catch (error) {
+    console.error('Get asset error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Curate an asset: its categories, whether it is featured, and its display type
+router.patch('/assets/:symbol', auth, requireAdmin, async (req, res) => {
+  try {
+    const catalog: AssetCatalogService | undefined = req.app.get('assetCatalogService');
+    if (!catalog) {
+      return res.status(503).json({ message: 'Asset catalog is not available' });
+    }
+
+    const { categories, featured, type } = req.body;
+    if (categories !== undefined && (!Array.isArray(categories) || !categories.every((c: unknown) => typeof c === 'string'))) {
+      return res.status(400).json({ message: 'categories must be an array of strings' });
+    }
+    if (featured !== undefined && typeof featured !== 'boolean') {
+      return res.status(400).json({ message: 'featured must be a boolean' });
+    }
+    if (type !== undefined && !assetTypes.includes(type)) {
+      return res.status(400).json({ message: `Invalid type. Valid options: ${assetTypes.join(', ')}` });
+    }
+
+    const asset = await catalog.updateAsset(req.params.symbol, { categories, featured, type });
+    if (!asset) {
+      return res.status(404).json({ message: `Asset ${req.params.symbol} not found` });
+    }
+
+    res.json({ asset });
+  } catch (error) {
+    console.error('Update asset error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // Get candlestick data
 router.get('/chart/:symbol', async (req, res) => {
   try {
+    const marketDataService: MarketDataService | undefined = req.app.get('marketDataService');
+    if (!marketDataService) {
+      return res.status(503).json({ message: 'Market data is not available' });
+    }
+
     const { symbol } = req.params;
     const { timeframe = '1day', limit = 100 } = req.query;
+    if (!parseTimeframe(timeframe)) {
+      return res.status(400).json({ message: invalidTimeframeMessage });
+    }
     
     const candlestickData = await marketDataService.getCandlestickData(
       symbol,
-      timeframe as any,
+      timeframe as string,
       parseInt(limit as string)
     );
 
@@ -46,17 +168,29 @@ router.get('/chart/:symbol', async (req, res) => {
   }
 });
 
-// Search symbols
+// Search the asset catalog: ?q=&class=us_equity|crypto|forex&type=&limit=
 router.get('/search', async (req, res) => {
   try {
-    const { q } = req.query;
+    const { q, class: assetClass, type, limit } = req.query;
     
     if (!q || typeof q !== 'string') {
       return res.status(400).json({ message: 'Search query is required' });
     }
 
-    const results = await marketDataService.searchSymbols(q);
-    res.json({ results });
+    const search: SymbolSearchService | undefined = req.app.get('symbolSearchService');
+    if (!search) {
+      return res.status(503).json({ message: 'Symbol search is not available' });
+    }
+
+    const started = process.hrtime.bigint();
+    const results = search.search(q, {
+      assetClass: assetClass as string | undefined,
+      type: type as string | undefined,
+      limit: limit ? parseInt(limit as string) : undefined
+    });
+    const tookMs = Number(process.hrtime.bigint() - started) / 1e6;
+
+    res.json({ results, tookMs: Math.round(tookMs * 100) / 100 });
   } catch (error) {
     console.error('Search symbols error:', error);
     res.status(500).json({ message: 'Server error' });
@@ -66,15 +200,24 @@ router.get('/search', async (req, res) => {
 // Get multiple quotes
 router.post('/quotes', async (req, res) => {
   try {
+    const marketDataService: MarketDataService | undefined = req.app.get('marketDataService');
+    if (!marketDataService) {
+      return res.status(503).json({ message: 'Market data is not available' });
+    }
+
     const { symbols } = req.body;
+    const baseline = parseBaseline(req.body.baseline);
     
     if (!Array.isArray(symbols)) {
       return res.status(400).json({ message: 'Symbols array is required' });
     }
+    if (baseline === null) {
+      return res.status(400).json({ message: invalidBaselineMessage });
+    }
 
     const quotes = await Promise.all(
       symbols.map(async (symbol) => {
-        const data = await marketDataService.getMarketData(symbol);
+        const data = await marketDataService.getMarketData(symbol, baseline);
         return { symbol, data };
       })
     );
@@ -89,11 +232,22 @@ router.post('/quotes', async (req, res) => {
 // Get market summary
 router.get('/summary', async (req, res) => {
   try {
-    // Get real market data for popular symbols
-    const popularSymbols = ['AAPL', 'GOOGL', 'MSFT', 'TSLA', 'AMZN', 'META', 'NVDA', 'AMD'];
+    const marketDataService: MarketDataService | undefined = req.app.get('marketDataService');
+    if (!marketDataService) {
+      return res.status(503).json({ message: 'Market data is not available' });
+    }
+
+    const baseline = parseBaseline(req.query.baseline);
+    if (baseline === null) {
+      return res.status(400).json({ message: invalidBaselineMessage });
+    }
+
+    // Get real market data for the catalog's featured stocks
+    const catalog: AssetCatalogService | undefined = req.app.get('assetCatalogService');
+    const popularSymbols = catalog?.getFeaturedSymbols('stock') || [];
     const marketSummary = await Promise.all(
       popularSymbols.map(async (symbol) => {
-        const data = await marketDataService.getMarketData(symbol);
+        const data = await marketDataService.getMarketData(symbol, baseline);
         return { symbol, data };
       })
     );
@@ -113,40 +267,106 @@ router.get('/summary', async (req, res) => {
 // Get market status
 router.get('/status', (req, res) => {
   try {
-    const now = new Date();
-    const easternTime = new Date(now.toLocaleString("en-US", {timeZone: "America/New_York"}));
-    const hour = easternTime.getHours();
-    const day = easternTime.getDay();
-    
-    // Market is open 9:30 AM to 4:00 PM ET, Monday to Friday
-    const isMarketOpen = (day >= 1 && day <= 5) && (hour >= 9.5 && hour < 16);
-    
-    const nextOpen = new Date();
-    const nextClose = new Date();
-    
-    // Calculate next market open/close times (simplified)
-    if (isMarketOpen) {
-      nextClose.setHours(16, 0, 0, 0); // 4:00 PM ET
-    } else {
-      if (day === 0) { // Sunday
-        nextOpen.setDate(nextOpen.getDate() + 1); // Monday
-      } else if (day === 6) { // Saturday
-        nextOpen.setDate(nextOpen.getDate() + 2); // Monday
-      } else if (hour >= 16) { // After hours on weekday
-        nextOpen.setDate(nextOpen.getDate() + 1);
-      }
-      nextOpen.setHours(9, 30, 0, 0); // 9:30 AM ET
+    const calendar: MarketCalendarService | undefined = req.app.get('marketCalendarService');
+    if (!calendar) {
+      return res.status(503).json({ message: 'Market calendar is not available' });
     }
 
+    res.json(calendar.getStatus());
+  } catch (error) {
+    console.error('Get market status error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Trading days between ?start=&end= (YYYY-MM-DD, New York dates; at most a year), with the year's holidays
+router.get('/calendar', (req, res) => {
+  try {
+    const calendar: MarketCalendarService | undefined = req.app.get('marketCalendarService');
+    if (!calendar) {
+      return res.status(503).json({ message: 'Market calendar is not available' });
+    }
+
+    const today = toNewYork(Date.now()).date;
+    const start = typeof req.query.start === 'string' ? req.query.start : today;
+    const end = typeof req.query.end === 'string' ? req.query.end : start;
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if (!datePattern.test(start) || !datePattern.test(end)) {
+      return res.status(400).json({ message: 'start and end must be YYYY-MM-DD dates' });
+    }
+    if (end < start || Date.parse(end) - Date.parse(start) > 366 * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ message: 'end must be on or after start and at most a year later' });
+    }
+
+    const years = Array.from(new Set([parseInt(start.slice(0, 4)), parseInt(end.slice(0, 4))]));
     res.json({
-      isOpen: isMarketOpen,
-      nextOpen: isMarketOpen ? null : nextOpen.toISOString(),
-      nextClose: isMarketOpen ? nextClose.toISOString() : null,
-      timezone: 'America/New_York',
-      currentTime: easternTime.toISOString()
+      start,
+      end,
+      days: calendar.getCalendar(start, end),
+      closures: years.flatMap(year => calendar.getClosures(year))
+        .filter(closure => closure.date >= start && closure.date <= end)
     });
   } catch (error) {
-    console.error('Get market status error:', error);
+    console.error('Get market calendar error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get the state of the streaming connections (connecting, connected, reconnecting...)
+router.get('/stream/status', (req, res) => {
+  try {
+    const marketDataService: MarketDataService | undefined = req.app.get('marketDataService');
+
+    if (!marketDataService) {
+      return res.status(503).json({ message: 'Market data streaming is not available' });
+    }
+
+    const { provider, connections, subscriptions } = marketDataService.getStreamStatus();
+    res.json({
+      provider,
+      connected: connections.length > 0 && connections.every(connection => connection.state === 'connected'),
+      connections,
+      subscriptions
+    });
+  } catch (error) {
+    console.error('Get stream status error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// How the provider's REST budget is being spent: queue depths, waits and 429s per priority class
+router.get('/rate-limit', (req, res) => {
+  try {
+    const marketDataService: MarketDataService | undefined = req.app.get('marketDataService');
+    const metrics = marketDataService?.getRequestMetrics();
+
+    if (!metrics) {
+      return res.status(503).json({ message: 'Request metrics are not available for this provider' });
+    }
+
+    res.json(metrics);
+  } catch (error) {
+    console.error('Get rate limit metrics error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// What is polled how often and why, how long polls take, and the requests they cost
+router.get('/polling', (req, res) => {
+  try {
+    const marketDataService: MarketDataService | undefined = req.app.get('marketDataService');
+
+    if (!marketDataService) {
+      return res.status(503).json({ message: 'Market data streaming is not available' });
+    }
+
+    res.json({
+      schedule: marketDataService.getPollSchedule(),
+      tiers: marketDataService.getPollingMetrics(),
+      requests: marketDataService.getRequestMetrics()
+    });
+  } catch (error) {
+    console.error('Get polling metrics error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
@@ -154,34 +374,87 @@ router.get('/status', (req, res) => {
 // Get historical candlestick data for charting
 router.get('/bars/:symbol', async (req, res) => {
   try {
+    const marketDataService: MarketDataService | undefined = req.app.get('marketDataService');
+    if (!marketDataService) {
+      return res.status(503).json({ message: 'Market data is not available' });
+    }
+
     const { symbol } = req.params;
-    const { timeframe = '1Day', start, end, limit = 100 } = req.query;
+    const { start, end, limit = 100, adjustment, feed } = req.query;
     
-    // Validate parameters
-    const validTimeframes = ['1Min', '5Min', '15Min', '1Hour', '1Day'];
-    if (!validTimeframes.includes(timeframe as string)) {
-      return res.status(400).json({ 
-        message: `Invalid timeframe. Valid options: ${validTimeframes.join(', ')}` 
-      });
+    // Validate parameters; any spelling parseTimeframe knows is accepted
+    const timeframe = parseTimeframe(req.query.timeframe ?? '1Day');
+    if (!timeframe) {
+      return res.status(400).json({ message: invalidTimeframeMessage });
+    }
+    if (adjustment !== undefined && !barAdjustments.includes(adjustment as BarAdjustment)) {
+      return res.status(400).json({ message: `Invalid adjustment. Valid options: ${barAdjustments.join(', ')}` });
+    }
+    if (feed !== undefined && !barFeeds.includes(feed as BarFeed)) {
+      return res.status(400).json({ message: `Invalid feed. Valid options: ${barFeeds.join(', ')}` });
+    }
+    const isDate = (value: unknown) => value === undefined || (typeof value === 'string' && !isNaN(Date.parse(value)));
+    if (!isDate(start) || !isDate(end)) {
+      return res.status(400).json({ message: 'start and end must be ISO 8601 dates or timestamps' });
+    }
+    if (start && end && Date.parse(end as string) < Date.parse(start as string)) {
+      return res.status(400).json({ message: 'end must be on or after start' });
     }
 
+    // Ranges longer than one provider page are followed across pages up to `limit` bars
+    const maxBars = Math.min(Math.max(parseInt(limit as string) || 100, 1), 50000);
     const bars = await marketDataService.getBars(
       symbol, 
-      timeframe as string, 
+      timeframe, 
       start as string, 
       end as string, 
-      parseInt(limit as string)
+      maxBars,
+      { adjustment: adjustment as BarAdjustment | undefined, feed: feed as BarFeed | undefined }
     );
 
     res.json({ 
       symbol,
       timeframe,
+      adjustment: adjustment || 'raw',
       bars: bars || []
     });
   } catch (error) {
     console.error(`Get bars error for ${req.params.symbol}:`, error);
-    res.status(500).json({ 
-      message: 'Error fetching historical data',
+    // 502: the upstream data source failed; there is no substitute data to return
+    res.status(502).json({ 
+      message: 'Historical data is unavailable',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Get technical indicators (SMA, EMA, RSI, MACD, Bollinger Bands, ATR, VWAP) with buy/sell/hold signals
+router.get('/indicators/:symbol', async (req, res) => {
+  try {
+    const { symbol } = req.params;
+    const timeframe = parseTimeframe(req.query.timeframe ?? '1Min');
+    const indicatorService: TechnicalIndicatorService | undefined = req.app.get('technicalIndicatorService');
+
+    if (!indicatorService) {
+      return res.status(503).json({ message: 'Technical indicators are not available' });
+    }
+
+    if (!timeframe || !indicatorService.isSupportedTimeframe(timeframe)) {
+      return res.status(400).json({ 
+        message: 'Invalid timeframe. Valid options: 1Min, 5Min, 15Min, 1Hour, 1Day' 
+      });
+    }
+
+    const snapshot = await indicatorService.getIndicators(symbol, timeframe);
+    if (!snapshot) {
+      return res.status(404).json({ message: `No bars available for ${symbol}` });
+    }
+
+    res.json(snapshot);
+  } catch (error) {
+    console.error(`Get indicators error for ${req.params.symbol}:`, error);
+    res.status(502).json({ 
+      message: 'Historical data is unavailable',
       error: error instanceof Error ? error.message : 'Unknown error'
     });
   }
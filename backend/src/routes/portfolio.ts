@@ -1,9 +1,20 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import { Portfolio } from '../models/Portfolio';
+import { Transaction } from '../models/Transaction';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { MarketDataService } from '../services/MarketDataService';
+import { PortfolioValuationService } from '../services/PortfolioValuationService';
+import { LedgerService, LedgerError } from '../services/LedgerService';
 
 const router = express.Router();
+const ledgerService = new LedgerService();
+
+const costBasisMethods = ['fifo', 'lifo', 'hifo', 'specific'];
+
+// Keep live revaluation in step with holdings changed through this router
+const getValuationService = (req: AuthenticatedRequest): PortfolioValuationService | undefined =>
+  req.app.get('portfolioValuationService');
 
 // Get all portfolios for user
 router.get('/', async (req: AuthenticatedRequest, res) => {
@@ -38,12 +49,16 @@ router.get('/:id', async (req: AuthenticatedRequest, res) => {
 // Create portfolio
 router.post('/', async (req: AuthenticatedRequest, res) => {
   try {
-    const { name, description } = req.body;
+    const { name, description, costBasisMethod } = req.body;
 
     if (!name) {
       return res.status(400).json({ message: 'Portfolio name is required' });
     }
 
+    if (costBasisMethod && !costBasisMethods.includes(costBasisMethod)) {
+      return res.status(400).json({ message: `Cost basis method must be one of: ${costBasisMethods.join(', ')}` });
+    }
+
     const portfolio = new Portfolio({
       userId: req.user._id,
       name,
@@ -52,6 +67,7 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
       totalCost: 0,
       totalPnL: 0,
       totalPnLPercent: 0,
+      costBasisMethod: costBasisMethod || 'fifo',
       assets: []
     });
 
@@ -66,20 +82,37 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
 // Update portfolio
 router.put('/:id', async (req: AuthenticatedRequest, res) => {
   try {
-    const { name, description } = req.body;
-    
-    const portfolio = await Portfolio.findOneAndUpdate(
-      { _id: req.params.id, userId: req.user._id },
-      { name, description },
-      { new: true, runValidators: true }
-    );
+    const { name, description, costBasisMethod } = req.body;
+
+    if (costBasisMethod && !costBasisMethods.includes(costBasisMethod)) {
+      return res.status(400).json({ message: `Cost basis method must be one of: ${costBasisMethods.join(', ')}` });
+    }
+
+    const portfolio = await Portfolio.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
 
     if (!portfolio) {
       return res.status(404).json({ message: 'Portfolio not found' });
     }
 
+    if (name !== undefined) portfolio.name = name;
+    if (description !== undefined) portfolio.description = description;
+    await portfolio.save();
+
+    // The switch re-reads the portfolio under the ledger lock and rebuilds it
+    if (costBasisMethod && costBasisMethod !== portfolio.costBasisMethod) {
+      const rebuilt = await ledgerService.setCostBasisMethod(portfolio, costBasisMethod);
+      getValuationService(req)?.track(rebuilt);
+      return res.json({ message: 'Portfolio updated', portfolio: rebuilt });
+    }
+
     res.json({ message: 'Portfolio updated', portfolio });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof LedgerError || error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
     console.error('Update portfolio error:', error);
     res.status(500).json({ message: 'Server error' });
   }
@@ -97,6 +130,8 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ message: 'Portfolio not found' });
     }
 
+    await Transaction.deleteMany({ portfolioId: portfolio._id });
+    getValuationService(req)?.untrack(String(portfolio._id));
     res.json({ message: 'Portfolio deleted' });
   } catch (error) {
     console.error('Delete portfolio error:', error);
@@ -104,7 +139,8 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
   }
 });
 
-// Add asset to portfolio
+// Add asset to portfolio (recorded as a buy in the ledger, funded by a matching
+// deposit so that adding a holding leaves the cash balance where it was)
 router.post('/:id/assets', async (req: AuthenticatedRequest, res) => {
   try {
     const { symbol, name, type, quantity, avgCostBasis } = req.body;
@@ -122,47 +158,48 @@ router.post('/:id/assets', async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ message: 'Portfolio not found' });
     }
 
-    // Check if asset already exists in portfolio
-    const existingAssetIndex = portfolio.assets.findIndex(asset => asset.symbol === symbol);
-    
-    if (existingAssetIndex !== -1) {
-      // Update existing asset (average cost calculation)
-      const existingAsset = portfolio.assets[existingAssetIndex];
-      const totalQuantity = existingAsset.quantity + quantity;
-      const totalCost = (existingAsset.quantity * existingAsset.avgCostBasis) + (quantity * avgCostBasis);
-      const newAvgCost = totalCost / totalQuantity;
-
-      portfolio.assets[existingAssetIndex].quantity = totalQuantity;
-      portfolio.assets[existingAssetIndex].avgCostBasis = newAvgCost;
-    } else {
-      // Add new asset
-      portfolio.assets.push({
-        symbol,
+    await ledgerService.ensureLedger(portfolio);
+    const executedAt = new Date();
+    const assetSymbol = String(symbol).toUpperCase();
+    const result = await ledgerService.recordAll(portfolio, [
+      {
+        type: 'buy',
+        symbol: assetSymbol,
         name,
-        type,
-        quantity,
-        avgCostBasis,
-        currentPrice: avgCostBasis, // Will be updated by market data
-        marketValue: quantity * avgCostBasis,
-        unrealizedPnL: 0,
-        unrealizedPnLPercent: 0,
-        lastUpdated: new Date()
-      });
-    }
-
-    await portfolio.save();
-    res.json({ message: 'Asset added to portfolio', portfolio });
+        assetType: type,
+        quantity: Number(quantity),
+        price: Number(avgCostBasis),
+        executedAt
+      },
+      {
+        type: 'deposit',
+        amount: Number(quantity) * Number(avgCostBasis),
+        executedAt,
+        notes: `Funds ${assetSymbol} added to portfolio`
+      }
+    ]);
+
+    getValuationService(req)?.track(result.portfolio);
+    res.json({ message: 'Asset added to portfolio', portfolio: result.portfolio, transaction: result.transactions[0] });
   } catch (error) {
+    if (error instanceof LedgerError || error instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
     console.error('Add asset error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
-// Update asset in portfolio
-router.put('/:id/assets/:symbol', async (req: AuthenticatedRequest, res) => {
+// Positions are derived from the ledger and can no longer be overwritten directly
+router.put('/:id/assets/:symbol', (req: AuthenticatedRequest, res) => {
+  res.status(405).json({ 
+    message: 'Positions are derived from transactions. Record a transaction or correct an existing one via /api/portfolio/:id/transactions' 
+  });
+});
+
+// Remove asset from portfolio (recorded as a transfer out of the whole position)
+router.delete('/:id/assets/:symbol', async (req: AuthenticatedRequest, res) => {
   try {
-    const { quantity, avgCostBasis } = req.body;
-    
     const portfolio = await Portfolio.findOne({ 
       _id: req.params.id, 
       userId: req.user._id 
@@ -172,51 +209,29 @@ router.put('/:id/assets/:symbol', async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ message: 'Portfolio not found' });
     }
 
-    const assetIndex = portfolio.assets.findIndex(asset => asset.symbol === req.params.symbol);
-    
-    if (assetIndex === -1) {
+    const asset = portfolio.assets.find(asset => asset.symbol === req.params.symbol);
+    if (!asset) {
       return res.status(404).json({ message: 'Asset not found in portfolio' });
     }
 
-    if (quantity !== undefined) {
-      portfolio.assets[assetIndex].quantity = quantity;
-    }
-    
-    if (avgCostBasis !== undefined) {
-      portfolio.assets[assetIndex].avgCostBasis = avgCostBasis;
-    }
-
-    // Recalculate market value
-    const asset = portfolio.assets[assetIndex];
-    asset.marketValue = asset.quantity * asset.currentPrice;
-    asset.unrealizedPnL = asset.marketValue - (asset.quantity * asset.avgCostBasis);
-    asset.unrealizedPnLPercent = (asset.unrealizedPnL / (asset.quantity * asset.avgCostBasis)) * 100;
-
-    await portfolio.save();
-    res.json({ message: 'Asset updated', portfolio });
-  } catch (error) {
-    console.error('Update asset error:', error);
-    res.status(500).json({ message: 'Server error' });
-  }
-});
-
-// Remove asset from portfolio
-router.delete('/:id/assets/:symbol', async (req: AuthenticatedRequest, res) => {
-  try {
-    const portfolio = await Portfolio.findOne({ 
-      _id: req.params.id, 
-      userId: req.user._id 
+    await ledgerService.ensureLedger(portfolio);
+    const result = await ledgerService.record(portfolio, {
+      type: 'transfer',
+      transferDirection: 'out',
+      symbol: asset.symbol,
+      name: asset.name,
+      assetType: asset.type,
+      quantity: asset.quantity,
+      executedAt: new Date(),
+      notes: 'Position removed from portfolio'
     });
 
-    if (!portfolio) {
-      return res.status(404).json({ message: 'Portfolio not found' });
-    }
-
-    portfolio.assets = portfolio.assets.filter(asset => asset.symbol !== req.params.symbol);
-    
-    await portfolio.save();
-    res.json({ message: 'Asset removed from portfolio', portfolio });
+    getValuationService(req)?.track(result.portfolio);
+    res.json({ message: 'Asset removed from portfolio', portfolio: result.portfolio });
   } catch (error) {
+    if (error instanceof LedgerError) {
+      return res.status(400).json({ message: error.message });
+    }
     console.error('Remove asset error:', error);
     res.status(500).json({ message: 'Server error' });
   }
@@ -271,4 +286,45 @@ router.get('/:id/performance', async (req: AuthenticatedRequest, res) => {
   }
 });
 
+// Get realized gains and losses by year, split into short and long term
+router.get('/:id/realized', async (req: AuthenticatedRequest, res) => {
+  try {
+    const portfolio = await Portfolio.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!portfolio) {
+      return res.status(404).json({ message: 'Portfolio not found' });
+    }
+
+    const year = req.query.year ? parseInt(req.query.year as string) : undefined;
+    if (year !== undefined && isNaN(year)) {
+      return res.status(400).json({ message: 'year must be a number' });
+    }
+
+    await ledgerService.ensureLedger(portfolio);
+    const realized = await ledgerService.getRealized(portfolio);
+    const years = ledgerService.summarizeRealized(realized);
+
+    res.json({
+      realized: {
+        costBasisMethod: portfolio.costBasisMethod,
+        totalGain: realized.reduce((sum, lot) => sum + lot.gain, 0),
+        years: year !== undefined ? years.filter(summary => summary.year === year) : years,
+        // Lot-level detail is only returned for a single year
+        lots: year !== undefined
+          ? realized.filter(lot => lot.disposedAt.getUTCFullYear() === year)
+          : undefined
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof LedgerError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Get realized P&L error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 export { router as portfolioRouter };
\ No newline at end of file
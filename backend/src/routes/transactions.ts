@@ -0,0 +1,208 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { Portfolio } from '../models/Portfolio';
+import { Transaction, ITransaction } from '../models/Transaction';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { LedgerService, LedgerError } from '../services/LedgerService';
+import { PortfolioValuationService } from '../services/PortfolioValuationService';
+
+// Mounted at /api/portfolio/:id/transactions
+const router = express.Router({ mergeParams: true });
+const ledgerService = new LedgerService();
+
+const getValuationService = (req: AuthenticatedRequest): PortfolioValuationService | undefined =>
+  req.app.get('portfolioValuationService');
+
+const transactionTypes = ['buy', 'sell', 'deposit', 'withdraw', 'fee', 'transfer'];
+
+// Pick the ledger fields a client may set from a request body
+const parseEntry = (body: any): Partial<ITransaction> => {
+  const entry: any = {};
+  ['type', 'name', 'assetType', 'transferDirection', 'notes'].forEach(field => {
+    if (body[field] !== undefined) entry[field] = body[field];
+  });
+  ['quantity', 'price', 'fee', 'amount'].forEach(field => {
+    if (body[field] !== undefined && body[field] !== null && body[field] !== '') entry[field] = Number(body[field]);
+  });
+  if (body.symbol) entry.symbol = String(body.symbol).toUpperCase();
+  if (body.executedAt) entry.executedAt = new Date(body.executedAt);
+  if (Array.isArray(body.lotSelections)) {
+    entry.lotSelections = body.lotSelections.map((selection: any) => ({
+      transactionId: selection.transactionId,
+      quantity: Number(selection.quantity)
+    }));
+  }
+  return entry;
+};
+
+const validateEntry = (entry: Partial<ITransaction>): string | null => {
+  if (!entry.type || !transactionTypes.includes(entry.type)) {
+    return `Transaction type must be one of: ${transactionTypes.join(', ')}`;
+  }
+  if (entry.executedAt && isNaN(entry.executedAt.getTime())) {
+    return 'executedAt must be a valid date';
+  }
+  if (['buy', 'sell', 'transfer'].includes(entry.type) && (!entry.symbol || !(entry.quantity! > 0))) {
+    return 'Symbol and a positive quantity are required';
+  }
+  if (['deposit', 'withdraw'].includes(entry.type) && !(entry.amount! > 0)) {
+    return 'A positive amount is required';
+  }
+  if (entry.type === 'fee' && !(entry.amount! > 0) && !(entry.symbol && entry.quantity! > 0)) {
+    return 'A fee needs a positive amount, or a symbol and quantity when paid in the asset';
+  }
+  if (entry.lotSelections?.length && !['sell', 'transfer', 'fee'].includes(entry.type)) {
+    return 'Lots can only be selected for sells, transfers out and asset fees';
+  }
+  if (entry.lotSelections?.some(selection =>
+    !mongoose.isValidObjectId(selection.transactionId) || !(selection.quantity > 0)
+  )) {
+    return 'Each lot selection needs a transactionId and a positive quantity';
+  }
+  return null;
+};
+
+const handleLedgerError = (error: unknown, res: express.Response, context: string) => {
+  if (error instanceof LedgerError || error instanceof mongoose.Error.ValidationError) {
+    return res.status(400).json({ message: error.message });
+  }
+  console.error(`${context} error:`, error);
+  return res.status(500).json({ message: 'Server error' });
+};
+
+// Get the ledger for a portfolio
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const portfolio = await Portfolio.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!portfolio) {
+      return res.status(404).json({ message: 'Portfolio not found' });
+    }
+
+    await ledgerService.ensureLedger(portfolio);
+
+    const filter: any = { portfolioId: portfolio._id };
+    if (req.query.includeVoided !== 'true') {
+      filter.voidedAt = { $exists: false };
+    }
+    if (req.query.symbol) {
+      filter.symbol = String(req.query.symbol).toUpperCase();
+    }
+
+    const transactions = await Transaction.find(filter).sort({ executedAt: -1, createdAt: -1 });
+    res.json({ transactions });
+  } catch (error) {
+    console.error('Get transactions error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Record a transaction
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const entry = parseEntry(req.body);
+    const validationError = validateEntry(entry);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const portfolio = await Portfolio.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!portfolio) {
+      return res.status(404).json({ message: 'Portfolio not found' });
+    }
+
+    await ledgerService.ensureLedger(portfolio);
+    const result = await ledgerService.record(portfolio, entry);
+    getValuationService(req)?.track(result.portfolio);
+
+    res.status(201).json({ message: 'Transaction recorded', ...result });
+  } catch (error) {
+    handleLedgerError(error, res, 'Record transaction');
+  }
+});
+
+// Correct a transaction; the original is voided and kept for the audit trail
+router.put('/:transactionId', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.transactionId)) {
+      return res.status(400).json({ message: 'Invalid transaction id' });
+    }
+
+    const portfolio = await Portfolio.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!portfolio) {
+      return res.status(404).json({ message: 'Portfolio not found' });
+    }
+
+    const original = await Transaction.findOne({
+      _id: req.params.transactionId,
+      portfolioId: portfolio._id,
+      voidedAt: { $exists: false }
+    });
+
+    if (!original) {
+      return res.status(404).json({ message: 'Transaction not found' });
+    }
+
+    const changes = parseEntry(req.body);
+    const validationError = validateEntry({ ...original.toObject(), ...changes });
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const result = await ledgerService.correct(portfolio, original, changes, req.body.reason || 'Corrected');
+    getValuationService(req)?.track(result.portfolio);
+
+    res.json({ message: 'Transaction corrected', ...result });
+  } catch (error) {
+    handleLedgerError(error, res, 'Correct transaction');
+  }
+});
+
+// Void a transaction
+router.delete('/:transactionId', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.transactionId)) {
+      return res.status(400).json({ message: 'Invalid transaction id' });
+    }
+
+    const portfolio = await Portfolio.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!portfolio) {
+      return res.status(404).json({ message: 'Portfolio not found' });
+    }
+
+    const transaction = await Transaction.findOne({
+      _id: req.params.transactionId,
+      portfolioId: portfolio._id,
+      voidedAt: { $exists: false }
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ message: 'Transaction not found' });
+    }
+
+    const reason = req.body?.reason || (req.query.reason as string) || 'Voided';
+    const updated = await ledgerService.void(portfolio, transaction, reason);
+    getValuationService(req)?.track(updated);
+
+    res.json({ message: 'Transaction voided', portfolio: updated });
+  } catch (error) {
+    handleLedgerError(error, res, 'Void transaction');
+  }
+});
+
+export { router as transactionsRouter };
@@ -0,0 +1,247 @@
+import express from 'express';
+import { Watchlist } from '../models/Watchlist';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { WatchlistService } from '../services/WatchlistService';
+
+const router = express.Router();
+const watchlistService = new WatchlistService();
+
+// Get all watchlists for user, default first
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    await watchlistService.ensureDefault(req.user._id);
+    const watchlists = await Watchlist.find({ userId: req.user._id })
+      .sort({ isDefault: -1, createdAt: 1 });
+    res.json({ watchlists });
+  } catch (error) {
+    console.error('Get watchlists error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get single watchlist
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const watchlist = await Watchlist.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    res.json({ watchlist });
+  } catch (error) {
+    console.error('Get watchlist error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create watchlist
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { name, description, isDefault } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ message: 'Watchlist name is required' });
+    }
+
+    const watchlist = new Watchlist({
+      userId: req.user._id,
+      name,
+      description,
+      symbols: [],
+      isDefault: false
+    });
+
+    // The first list a user creates becomes their default. Either way the list is
+    // first saved by the call below, so a failed default switch leaves nothing behind
+    const hasDefault = await Watchlist.exists({ userId: req.user._id, isDefault: true });
+    if (isDefault || !hasDefault) {
+      await watchlistService.setDefault(watchlist);
+    } else {
+      await watchlist.save();
+    }
+
+    res.status(201).json({ message: 'Watchlist created', watchlist });
+  } catch (error: any) {
+    // Another request kept changing the default list under us
+    if (error.code === 11000) {
+      return res.status(409).json({ message: 'The default watchlist changed concurrently; try again' });
+    }
+    console.error('Create watchlist error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update watchlist
+router.put('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { name, description, isDefault } = req.body;
+
+    const watchlist = await Watchlist.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    if (isDefault === false && watchlist.isDefault) {
+      return res.status(400).json({ message: 'Make another watchlist the default instead' });
+    }
+
+    if (name !== undefined) {
+      if (!name) {
+        return res.status(400).json({ message: 'Watchlist name is required' });
+      }
+      watchlist.name = name;
+    }
+    if (description !== undefined) watchlist.description = description;
+
+    if (isDefault === true && !watchlist.isDefault) {
+      await watchlistService.setDefault(watchlist);
+    } else {
+      await watchlist.save();
+    }
+
+    res.json({ message: 'Watchlist updated', watchlist });
+  } catch (error: any) {
+    if (error.code === 11000) {
+      return res.status(409).json({ message: 'The default watchlist changed concurrently; try again' });
+    }
+    console.error('Update watchlist error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete watchlist
+router.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const watchlist = await Watchlist.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    // Hand the default flag to another list (or a fresh one)
+    if (watchlist.isDefault) {
+      await watchlistService.ensureDefault(req.user._id);
+    }
+
+    res.json({ message: 'Watchlist deleted' });
+  } catch (error) {
+    console.error('Delete watchlist error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Add symbol to watchlist
+router.post('/:id/symbols', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { symbol, name, type } = req.body;
+
+    if (!symbol || !name || !type) {
+      return res.status(400).json({ message: 'Symbol, name and type are required' });
+    }
+
+    if (!['stock', 'crypto'].includes(type)) {
+      return res.status(400).json({ message: 'Type must be stock or crypto' });
+    }
+
+    const watchlist = await Watchlist.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    const upperSymbol = String(symbol).toUpperCase().trim();
+    if (watchlist.symbols.some(item => item.symbol === upperSymbol)) {
+      return res.status(409).json({ message: `${upperSymbol} is already in this watchlist` });
+    }
+
+    watchlist.symbols.push({ symbol: upperSymbol, name, type, addedAt: new Date() });
+    await watchlist.save();
+
+    res.status(201).json({ message: 'Symbol added to watchlist', watchlist });
+  } catch (error) {
+    console.error('Add watchlist symbol error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Reorder symbols; the body lists every symbol in the watchlist in its new order
+router.put('/:id/symbols', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { symbols } = req.body;
+
+    if (!Array.isArray(symbols)) {
+      return res.status(400).json({ message: 'symbols must be an array' });
+    }
+
+    const watchlist = await Watchlist.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    const order = symbols.map(symbol => String(symbol).toUpperCase());
+    const current = watchlist.symbols.map(item => item.symbol);
+    const isPermutation = order.length === current.length &&
+      new Set(order).size === order.length &&
+      order.every(symbol => current.includes(symbol));
+
+    if (!isPermutation) {
+      return res.status(400).json({ message: 'symbols must contain each watchlist symbol exactly once' });
+    }
+
+    watchlist.symbols = order.map(symbol => watchlist.symbols.find(item => item.symbol === symbol)!);
+    await watchlist.save();
+
+    res.json({ message: 'Watchlist reordered', watchlist });
+  } catch (error) {
+    console.error('Reorder watchlist error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Remove symbol from watchlist (crypto pairs arrive URL-encoded, e.g. BTC%2FUSD)
+router.delete('/:id/symbols/:symbol', async (req: AuthenticatedRequest, res) => {
+  try {
+    const watchlist = await Watchlist.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    const symbol = req.params.symbol.toUpperCase();
+    const index = watchlist.symbols.findIndex(item => item.symbol === symbol);
+    if (index === -1) {
+      return res.status(404).json({ message: 'Symbol not found in watchlist' });
+    }
+
+    watchlist.symbols.splice(index, 1);
+    await watchlist.save();
+
+    res.json({ message: 'Symbol removed from watchlist', watchlist });
+  } catch (error) {
+    console.error('Remove watchlist symbol error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export { router as watchlistsRouter };
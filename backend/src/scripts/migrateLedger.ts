@@ -0,0 +1,39 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+import mongoose from 'mongoose';
+import { Portfolio } from '../models/Portfolio';
+import { LedgerService } from '../services/LedgerService';
+
+// One-off backfill: give every pre-ledger portfolio opening transactions for its
+// current positions. Safe to re-run; portfolios that already have a ledger are skipped.
+// The ledger routes also migrate a portfolio lazily the first time it is touched.
+const migrate = async () => {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/stocktracker');
+  const ledgerService = new LedgerService();
+
+  const portfolios = await Portfolio.find({ 'assets.0': { $exists: true } });
+  let migrated = 0;
+  let openings = 0;
+
+  for (const portfolio of portfolios) {
+    const created = await ledgerService.ensureLedger(portfolio);
+    if (created > 0) {
+      await ledgerService.rebuild(portfolio);
+      migrated++;
+      openings += created;
+      console.log(`✅ ${portfolio.name} (${portfolio._id}): ${created} opening transactions`);
+    }
+  }
+
+  console.log(`🚀 Ledger migration complete: ${migrated}/${portfolios.length} portfolios, ${openings} transactions created`);
+};
+
+migrate()
+  .catch(error => {
+    console.error('❌ Ledger migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.connection.close());
@@ -16,9 +16,18 @@ import { RateLimiterMemory } from 'rate-limiter-flexible';
 import { MarketDataService } from './services/MarketDataService';
 import { WebSocketService } from './services/WebSocketService';
 import { CacheService } from './services/CacheService';
+import { PriceAlertService } from './services/PriceAlertService';
+import { PortfolioValuationService } from './services/PortfolioValuationService';
+import { TechnicalIndicatorService } from './services/TechnicalIndicatorService';
+import { BarAggregationService } from './services/BarAggregationService';
+import { AssetCatalogService } from './services/AssetCatalogService';
+import { SymbolSearchService } from './services/SymbolSearchService';
+import { MarketCalendarService } from './services/MarketCalendarService';
 import { authRouter } from './routes/auth';
 import { portfolioRouter } from './routes/portfolio';
+import { transactionsRouter } from './routes/transactions';
 import { alertsRouter } from './routes/alerts';
+import { watchlistsRouter } from './routes/watchlists';
 import { marketDataRouter } from './routes/marketData';
 import { errorHandler } from './middleware/errorHandler';
 import { auth } from './middleware/auth';
@@ -74,8 +83,10 @@ const connectDB = async () => {
 
 // Routes
 app.use('/api/auth', authRouter);
+app.use('/api/portfolio/:id/transactions', auth, transactionsRouter);
 app.use('/api/portfolio', auth, portfolioRouter);
 app.use('/api/alerts', auth, alertsRouter);
+app.use('/api/watchlists', auth, watchlistsRouter);
 app.use('/api/market', marketDataRouter);
 
 // Health check
@@ -89,8 +100,26 @@ app.use(errorHandler);
 // Initialize services
 const cacheService = new CacheService();
 const marketDataService = new MarketDataService(cacheService);
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
+app.set('marketDataService', marketDataService);
+const assetCatalogService = new AssetCatalogService(marketDataService);
+marketDataService.setAssetCatalog(assetCatalogService);
+app.set('assetCatalogService', assetCatalogService);
+const marketCalendarService = new MarketCalendarService(marketDataService);
+marketDataService.setMarketCalendar(marketCalendarService);
+app.set('marketCalendarService', marketCalendarService);
+const symbolSearchService = new SymbolSearchService(assetCatalogService, marketDataService);
+app.set('symbolSearchService', symbolSearchService);
 const webSocketService = new WebSocketService(io, marketDataService, cacheService);
+webSocketService.setSymbolSearchService(symbolSearchService);
+const priceAlertService = new PriceAlertService(marketDataService, webSocketService);
+app.set('priceAlertService', priceAlertService);
+const portfolioValuationService = new PortfolioValuationService(marketDataService, webSocketService);
+app.set('portfolioValuationService', portfolioValuationService);
+const technicalIndicatorService = new TechnicalIndicatorService(marketDataService, webSocketService);
+webSocketService.setTechnicalIndicatorService(technicalIndicatorService);
+app.set('technicalIndicatorService', technicalIndicatorService);
+const barAggregationService = new BarAggregationService(marketDataService, webSocketService);
+webSocketService.setBarAggregationService(barAggregationService);
 
 // WebSocketService initializes itself in the constructor
 
@@ -108,20 +137,26 @@ const startServer = async () => {
     // Try optional connections in background
     connectDB().catch((err: any) => console.warn('MongoDB connection failed:', err.message));
     cacheService.connect().catch((err: any) => console.warn('Cache connection failed:', err.message));
+    priceAlertService.start().catch((err: any) => console.warn('Price alert evaluation unavailable:', err.message));
+    portfolioValuationService.start().catch((err: any) => console.warn('Portfolio revaluation unavailable:', err.message));
+    technicalIndicatorService.start();
+    barAggregationService.start();
+    marketDataService.getBarHistory()?.start();
+    // Assets are needed before polling starts; without a sync the bundled seed is used
+    await assetCatalogService.start().catch((err: any) => console.warn('Asset catalog sync unavailable:', err.message));
+    // So is the calendar, which decides whether equities are polled at all
+    await marketCalendarService.start();
 
     // Start market data streaming
     try {
       await marketDataService.startStreaming();
       console.log('✅ Market data streaming started');
       
-      // Subscribe to popular symbols for real-time data
-      const popularSymbols = [
-        'AAPL', 'GOOGL', 'MSFT', 'TSLA', 'AMZN', 'META', 'NVDA', 'AMD',
-        'BTC/USD', 'ETH/USD', 'SOL/USD', 'ADA/USD', 'MATIC/USD'
-      ];
+      // Subscribe to featured symbols for real-time data
+      const popularSymbols = assetCatalogService.getFeaturedSymbols();
       
       popularSymbols.forEach(symbol => {
-        marketDataService.subscribeToSymbol(symbol);
+        marketDataService.subscribeToSymbol(symbol, 'server');
       });
       
       console.log(`📊 Subscribed to ${popularSymbols.length} popular symbols for real-time data`);
@@ -139,6 +174,13 @@ const startServer = async () => {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully');
+  priceAlertService.stop();
+  technicalIndicatorService.stop();
+  barAggregationService.stop();
+  marketDataService.getBarHistory()?.stop();
+  assetCatalogService.stop();
+  marketCalendarService.stop();
+  await portfolioValuationService.stop().catch((err: any) => console.warn('Portfolio flush failed:', err.message));
   await marketDataService.stopStreaming();
   await cacheService.disconnect();
   await mongoose.connection.close();
@@ -149,6 +191,13 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully');
+  priceAlertService.stop();
+  technicalIndicatorService.stop();
+  barAggregationService.stop();
+  marketDataService.getBarHistory()?.stop();
+  assetCatalogService.stop();
+  marketCalendarService.stop();
+  await portfolioValuationService.stop().catch((err: any) => console.warn('Portfolio flush failed:', err.message));
   await marketDataService.stopStreaming();
   await cacheService.disconnect();
   await mongoose.connection.close();
@@ -0,0 +1,86 @@
+import { AssetCatalogService } from './AssetCatalogService';
+import { MarketDataService } from './MarketDataService';
+import { AssetInfo } from './providers/MarketDataProvider';
+import { seedAssets } from './assetSeed';
+
+const listed = (symbol: string, name: string): AssetInfo => ({
+  symbol,
+  name,
+  assetClass: symbol.includes('/') ? 'crypto' : 'us_equity',
+  exchange: symbol.includes('/') ? 'CRYPTO' : 'NASDAQ',
+  status: 'active',
+  tradable: true,
+  fractionable: true,
+  marginable: true,
+  shortable: true
+});
+
+// Lists every seeded equity and crypto asset, in reverse, plus `extra`
+const listSeed = (extra: AssetInfo[] = [], without: string[] = []) => [
+  ...seedAssets
+    .filter(seed => seed.type !== 'forex' && !without.includes(seed.symbol))
+    .map(seed => listed(seed.symbol, `${seed.name} (listed)`))
+    .reverse(),
+  ...extra
+];
+
+const createCatalog = (listAssets: () => Promise<AssetInfo[]>) => {
+  const marketData = { listAssets: jest.fn(listAssets) };
+  return new AssetCatalogService(marketData as unknown as MarketDataService);
+};
+
+const seededFeatured = seedAssets.filter(seed => seed.featured).map(seed => seed.symbol);
+
+describe('AssetCatalogService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps serving the bundled seed when the provider cannot list assets', async () => {
+    const catalog = createCatalog(() => Promise.reject(new Error('401 Unauthorized')));
+
+    await expect(catalog.sync()).rejects.toThrow('401 Unauthorized');
+
+    expect(catalog.getActiveAssets()).toHaveLength(seedAssets.length);
+    expect(catalog.getAsset('aapl')).toMatchObject({ name: 'Apple Inc.', featured: true, tradable: false });
+    expect(catalog.getFeaturedSymbols()).toEqual(seededFeatured);
+    expect(catalog.getLastSyncAt()).toBeUndefined();
+  });
+
+  it('lists featured symbols in catalog order whatever order the provider lists them in', async () => {
+    const catalog = createCatalog(async () => listSeed());
+    await catalog.sync();
+
+    expect(catalog.getFeaturedSymbols()).toEqual(seededFeatured);
+    expect(catalog.getFeaturedSymbols('crypto')).toEqual(
+      seedAssets.filter(seed => seed.featured && seed.type === 'crypto').map(seed => seed.symbol)
+    );
+  });
+
+  it('takes names from the provider but keeps curation, and drops delisted featured symbols', async () => {
+    const catalog = createCatalog(async () => listSeed([listed('RIVN', 'Rivian Automotive')], ['NVDA']));
+    await catalog.sync();
+
+    expect(catalog.getAsset('AAPL')).toMatchObject({ name: 'Apple Inc. (listed)', featured: true, tradable: true });
+    expect(catalog.getAsset('RIVN')).toMatchObject({ type: 'stock', categories: [], featured: false });
+    expect(catalog.getAsset('NVDA')!.status).toBe('inactive');
+    expect(catalog.getFeaturedSymbols()).toEqual(seededFeatured.filter(symbol => symbol !== 'NVDA'));
+  });
+
+  it('adds a newly featured asset after the existing ones', async () => {
+    const catalog = createCatalog(async () => listSeed([listed('RIVN', 'Rivian Automotive')]));
+    await catalog.sync();
+    const onChange = jest.fn();
+    catalog.onChange(onChange);
+
+    await catalog.updateAsset('rivn', { featured: true, categories: ['EV', ' '] });
+
+    expect(catalog.getFeaturedSymbols()).toEqual([...seededFeatured, 'RIVN']);
+    expect(catalog.getAsset('RIVN')!.categories).toEqual(['EV']);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,289 @@
+import mongoose from 'mongoose';
+import { Asset, AssetType, IAsset } from '../models/Asset';
+import { MarketDataService } from './MarketDataService';
+import { AssetInfo } from './providers/MarketDataProvider';
+import { seedAssets, SeedAsset } from './assetSeed';
+
+export interface CatalogAsset {
+  symbol: string;
+  name: string;
+  assetClass: IAsset['assetClass'];
+  type: AssetType;
+  exchange?: string;
+  status: IAsset['status'];
+  tradable: boolean;
+  fractionable: boolean;
+  marginable: boolean;
+  shortable: boolean;
+  categories: string[];
+  featured: boolean;
+}
+
+export interface AssetQuery {
+  assetClass?: string;
+  type?: string;
+  category?: string;
+  q?: string; // Matches the start of the symbol or anywhere in the name
+  curated?: boolean; // Only assets with at least one category
+  tradable?: boolean;
+  includeInactive?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AssetCategory {
+  type: AssetType;
+  category: string;
+  symbols: string[];
+}
+
+export interface AssetChanges {
+  categories?: string[];
+  featured?: boolean;
+  type?: AssetType;
+}
+
+const WRITE_BATCH_SIZE = 1000;
+
+const fromSeed = (seed: SeedAsset): CatalogAsset => ({
+  symbol: seed.symbol,
+  name: seed.name,
+  assetClass: seed.type === 'crypto' ? 'crypto' : seed.type === 'forex' ? 'forex' : 'us_equity',
+  type: seed.type,
+  status: 'active',
+  tradable: false,
+  fractionable: false,
+  marginable: false,
+  shortable: false,
+  categories: [seed.category],
+  featured: Boolean(seed.featured)
+});
+
+const fromDocument = (doc: IAsset): CatalogAsset => ({
+  symbol: doc.symbol,
+  name: doc.name,
+  assetClass: doc.assetClass,
+  type: doc.type,
+  exchange: doc.exchange,
+  status: doc.status,
+  tradable: doc.tradable,
+  fractionable: doc.fractionable,
+  marginable: doc.marginable,
+  shortable: doc.shortable,
+  categories: doc.categories || [],
+  featured: doc.featured
+});
+
+/**
+ * The symbol universe: every asset the provider lists (US equities and
+ * crypto), plus the curated categories and featured flags that decide what
+ * is polled, streamed by default and shown on the dashboards.
+ *
+ * The catalog lives in memory so lookups are synchronous. It starts from
+ * the bundled seed, is overlaid with the Asset collection once MongoDB is
+ * connected, and is refreshed from the provider once a day. Provider fields
+ * (name, exchange, tradability...) always come from the sync, while
+ * categories, featured and type are only ever set by the seed on insert or
+ * by updateAsset.
+ */
+export class AssetCatalogService {
+  private marketDataService: MarketDataService;
+  private assets: Map<string, CatalogAsset>;
+  private syncTimer?: NodeJS.Timeout;
+  private syncInterval: number = 24 * 60 * 60 * 1000;
+  private lastSyncAt?: Date;
+  private changeCallbacks: (() => void)[] = [];
+
+  constructor(marketDataService: MarketDataService) {
+    this.marketDataService = marketDataService;
+    this.assets = new Map(seedAssets.map(seed => [seed.symbol, fromSeed(seed)]));
+  }
+
+  async start(): Promise<void> {
+    this.syncTimer = setInterval(() => {
+      this.sync().catch(error => console.warn('⚠️ Asset sync failed:', error.message));
+    }, this.syncInterval);
+
+    // MongoDB connects in the background; pick up the stored catalog whenever it arrives
+    if (this.isDatabaseAvailable()) {
+      await this.load();
+    } else {
+      mongoose.connection.once('connected', () => {
+        this.load()
+          .then(found => (found ? undefined : this.sync()))
+          .catch(error => console.warn('⚠️ Asset catalog load failed:', error.message));
+      });
+    }
+
+    await this.sync();
+  }
+
+  stop(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = undefined;
+    }
+  }
+
+  // Overlay the stored catalog; false when the collection is still empty
+  async load(): Promise<boolean> {
+    const docs = await Asset.find();
+    docs.forEach(doc => this.assets.set(doc.symbol, fromDocument(doc)));
+    this.notifyChange();
+    console.log(`📚 Loaded ${docs.length} assets from the catalog`);
+    return docs.length > 0;
+  }
+
+  async sync(): Promise<number> {
+    const listed = await this.marketDataService.listAssets();
+    const listedSymbols = new Set(listed.map(asset => asset.symbol));
+
+    listed.forEach(info => this.assets.set(info.symbol, this.merge(info)));
+    // The provider never lists forex, so only equities and crypto can disappear
+    this.assets.forEach(asset => {
+      if (asset.assetClass !== 'forex' && !listedSymbols.has(asset.symbol)) {
+        asset.status = 'inactive';
+      }
+    });
+
+    if (this.isDatabaseAvailable()) {
+      await this.persist(listedSymbols);
+    }
+
+    this.lastSyncAt = new Date();
+    this.notifyChange();
+    console.log(`📚 Synced ${listed.length} assets from the market data provider`);
+    return listed.length;
+  }
+
+  // Called whenever assets are loaded, synced or curated
+  onChange(callback: () => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  getActiveAssets(): CatalogAsset[] {
+    return Array.from(this.assets.values()).filter(asset => asset.status === 'active');
+  }
+
+  getAsset(symbol: string): CatalogAsset | undefined {
+    return this.assets.get(symbol.toUpperCase());
+  }
+
+  getAssets(query: AssetQuery = {}): { assets: CatalogAsset[]; total: number } {
+    const needle = query.q?.trim().toUpperCase();
+    const matches = Array.from(this.assets.values()).filter(asset =>
+      (query.includeInactive || asset.status === 'active') &&
+      (!query.assetClass || asset.assetClass === query.assetClass) &&
+      (!query.type || asset.type === query.type) &&
+      (!query.category || asset.categories.includes(query.category)) &&
+      (!query.curated || asset.categories.length > 0) &&
+      (query.tradable === undefined || asset.tradable === query.tradable) &&
+      (!needle || asset.symbol.startsWith(needle) || asset.name.toUpperCase().includes(needle))
+    );
+
+    const offset = Math.max(query.offset || 0, 0);
+    const limit = Math.min(Math.max(query.limit || 100, 1), 1000);
+    return { assets: matches.slice(offset, offset + limit), total: matches.length };
+  }
+
+  // Curated categories in catalog order, each with its active symbols
+  getCategories(): AssetCategory[] {
+    const categories: Map<string, AssetCategory> = new Map();
+
+    this.assets.forEach(asset => {
+      if (asset.status !== 'active') return;
+      asset.categories.forEach(category => {
+        const key = `${asset.type}:${category}`;
+        if (!categories.has(key)) {
+          categories.set(key, { type: asset.type, category, symbols: [] });
+        }
+        categories.get(key)!.symbols.push(asset.symbol);
+      });
+    });
+
+    return Array.from(categories.values());
+  }
+
+  // Everything curated is kept fresh by the server
+  getTrackedSymbols(): string[] {
+    return this.getAssets({ curated: true, limit: 1000 }).assets.map(asset => asset.symbol);
+  }
+
+  getFeaturedSymbols(type?: AssetType): string[] {
+    return Array.from(this.assets.values())
+      .filter(asset => asset.featured && asset.status === 'active' && (!type || asset.type === type))
+      .map(asset => asset.symbol);
+  }
+
+  getLastSyncAt(): Date | undefined {
+    return this.lastSyncAt;
+  }
+
+  async updateAsset(symbol: string, changes: AssetChanges): Promise<CatalogAsset | null> {
+    const asset = this.getAsset(symbol);
+    if (!asset) return null;
+
+    if (changes.categories) asset.categories = Array.from(new Set(changes.categories.map(c => c.trim()).filter(Boolean)));
+    if (changes.featured !== undefined) asset.featured = changes.featured;
+    if (changes.type) asset.type = changes.type;
+    this.notifyChange();
+
+    if (this.isDatabaseAvailable()) {
+      await Asset.updateOne(
+        { symbol: asset.symbol },
+        { $set: { ...asset } },
+        { upsert: true }
+      );
+    }
+    return asset;
+  }
+
+  private merge(info: AssetInfo): CatalogAsset {
+    const existing = this.assets.get(info.symbol);
+    return {
+      ...info,
+      type: existing?.type ?? (info.assetClass === 'crypto' ? 'crypto' : 'stock'),
+      categories: existing?.categories ?? [],
+      featured: existing?.featured ?? false
+    };
+  }
+
+  private async persist(listedSymbols: Set<string>): Promise<void> {
+    const syncedAt = new Date();
+    const operations = Array.from(this.assets.values()).map(asset => {
+      const { type, categories, featured, ...providerFields } = asset;
+      return {
+        updateOne: {
+          filter: { symbol: asset.symbol },
+          update: {
+            $set: { ...providerFields, syncedAt },
+            $setOnInsert: { type, categories, featured }
+          },
+          upsert: true
+        }
+      };
+    });
+
+    for (let i = 0; i < operations.length; i += WRITE_BATCH_SIZE) {
+      await Asset.bulkWrite(operations.slice(i, i + WRITE_BATCH_SIZE), { ordered: false });
+    }
+    await Asset.updateMany(
+      { assetClass: { $ne: 'forex' }, symbol: { $nin: Array.from(listedSymbols) } },
+      { status: 'inactive' }
+    );
+  }
+
+  private notifyChange(): void {
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback();
+      } catch (error) {
+        console.error('❌ Error in asset catalog listener:', error);
+      }
+    });
+  }
+
+  private isDatabaseAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+}
@@ -0,0 +1,112 @@
+import { BarAggregationService } from './BarAggregationService';
+import { MarketDataService } from './MarketDataService';
+import { WebSocketService } from './WebSocketService';
+import { StreamTrade, StreamBar } from './providers/MarketDataProvider';
+
+const at = (iso: string) => new Date(iso).getTime();
+
+// No minute bars to back-fill from: candles are built from what the test streams in
+const createService = () => {
+  let onTrade: (trade: StreamTrade) => void = () => undefined;
+  let onBar: (bar: StreamBar) => void = () => undefined;
+  const marketData = {
+    onTrade: (callback: typeof onTrade) => { onTrade = callback; },
+    onBar: (callback: typeof onBar) => { onBar = callback; },
+    getBars: jest.fn().mockResolvedValue([])
+  };
+  const webSocket = { broadcastCandle: jest.fn() };
+  const service = new BarAggregationService(
+    marketData as unknown as MarketDataService,
+    webSocket as unknown as WebSocketService
+  );
+
+  const trade = (price: number, size: number, iso: string) =>
+    onTrade({ symbol: 'AAPL', price, size, timestamp: new Date(iso) });
+  const bar = (iso: string, open: number, high: number, low: number, close: number, volume: number, updated = false) =>
+    onBar({ symbol: 'AAPL', timestamp: at(iso), open, high, low, close, volume, updated });
+  const sent = (event: 'candleUpdate' | 'candleClosed') =>
+    webSocket.broadcastCandle.mock.calls.filter(([name]) => name === event).map(([, candle]) => candle);
+
+  return { service, trade, bar, sent };
+};
+
+describe('BarAggregationService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(at('2024-03-06T14:30:05Z'));
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('folds trades into the forming candle', async () => {
+    const { service, trade, sent } = createService();
+    await service.follow('AAPL', '5Min');
+
+    trade(100, 10, '2024-03-06T14:30:06Z');
+    trade(103, 5, '2024-03-06T14:31:20Z');
+    trade(99, 5, '2024-03-06T14:32:40Z');
+
+    const updates = sent('candleUpdate');
+    expect(updates).toHaveLength(3);
+    expect(updates[2]).toEqual({
+      symbol: 'AAPL',
+      timeframe: '5Min',
+      timestamp: at('2024-03-06T14:30:00Z'),
+      open: 100,
+      high: 103,
+      low: 99,
+      close: 99,
+      volume: 20,
+      closed: false
+    });
+  });
+
+  it('replaces a minute\'s trade tally with the official minute bar', async () => {
+    const { service, trade, bar, sent } = createService();
+    await service.follow('AAPL', '5Min');
+
+    trade(100, 10, '2024-03-06T14:30:06Z');
+    trade(104, 5, '2024-03-06T14:30:30Z');
+    bar('2024-03-06T14:30:00Z', 100.5, 103, 100, 102, 40);
+    trade(110, 1, '2024-03-06T14:30:50Z'); // Already counted in the official bar
+
+    const updates = sent('candleUpdate');
+    expect(updates).toHaveLength(3);
+    expect(updates[2]).toMatchObject({ open: 100.5, high: 103, low: 100, close: 102, volume: 40 });
+  });
+
+  it('closes the candle once its interval and grace period have passed', async () => {
+    const { service, trade, sent } = createService();
+    service.start();
+    await service.follow('AAPL', '1Min');
+    trade(100, 10, '2024-03-06T14:30:06Z');
+    trade(101, 2, '2024-03-06T14:30:40Z');
+
+    jest.advanceTimersByTime(55000); // 14:31:00, still within the grace period
+    expect(sent('candleClosed')).toEqual([]);
+
+    jest.advanceTimersByTime(2000);
+    expect(sent('candleClosed')).toEqual([
+      expect.objectContaining({ timestamp: at('2024-03-06T14:30:00Z'), close: 101, volume: 12, closed: true })
+    ]);
+
+    service.stop();
+  });
+
+  it('sends a correction to a closed candle as another candleClosed', async () => {
+    const { service, trade, bar, sent } = createService();
+    await service.follow('AAPL', '1Min');
+    trade(100, 10, '2024-03-06T14:30:06Z');
+    trade(101, 1, '2024-03-06T14:31:02Z'); // Closes 14:30 ahead of the timer
+
+    bar('2024-03-06T14:30:00Z', 100, 100.5, 99.5, 100.2, 11, true);
+
+    const closed = sent('candleClosed');
+    expect(closed).toHaveLength(2);
+    expect(closed[0]).toMatchObject({ timestamp: at('2024-03-06T14:30:00Z'), close: 100, volume: 10 });
+    expect(closed[1]).toMatchObject({ timestamp: at('2024-03-06T14:30:00Z'), close: 100.2, volume: 11 });
+  });
+});
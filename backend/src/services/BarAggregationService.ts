@@ -0,0 +1,255 @@
+import { MarketDataService } from './MarketDataService';
+import { WebSocketService } from './WebSocketService';
+import { StreamTrade, StreamBar } from './providers/MarketDataProvider';
+import { timeframeMs, bucketStart } from './timeframes';
+
+export interface Candle {
+  symbol: string;
+  timeframe: string;
+  timestamp: number; // Start of the candle's interval
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  closed: boolean;
+}
+
+// One minute of trading; `official` once the provider's own minute bar has replaced our trade tally
+interface MinuteBar {
+  start: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  official: boolean;
+}
+
+interface FollowedSymbol {
+  minutes: Map<number, MinuteBar>;
+  formingStart: Map<string, number>; // timeframe -> start of the candle still open
+  timeframes: Set<string>;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const liveTimeframes = ['1Min', '5Min', '15Min', '1Hour'];
+
+const CLOSE_GRACE_MS = 2000; // Late prints for a candle that just ended still land in it
+const MINUTE_RETENTION_MS = 2 * 60 * MINUTE_MS; // Covers the longest timeframe plus late corrections
+
+/**
+ * Builds live 1Min/5Min/15Min/1Hour OHLCV candles for symbols somebody has
+ * subscribed to with subscribeCandles.
+ *
+ * Everything is kept as minute bars: trades fill in the current minute, and
+ * the provider's minute bars (and late updatedBars corrections) replace the
+ * trade tally for their minute once they arrive. Longer candles are folded
+ * from those minutes, so a correction flows into every timeframe.
+ *
+ * Sockets receive candleUpdate while a candle is forming and candleClosed
+ * once its interval (plus a short grace period) has passed. A correction to
+ * an already closed candle is sent as another candleClosed for it.
+ */
+export class BarAggregationService {
+  private marketDataService: MarketDataService;
+  private webSocketService: WebSocketService;
+  private followed: Map<string, FollowedSymbol> = new Map();
+  private closeTimer?: NodeJS.Timeout;
+  private closeCheckInterval: number = 1000;
+
+  constructor(marketDataService: MarketDataService, webSocketService: WebSocketService) {
+    this.marketDataService = marketDataService;
+    this.webSocketService = webSocketService;
+
+    this.marketDataService.onTrade(trade => this.handleTrade(trade));
+    this.marketDataService.onBar(bar => this.handleBar(bar));
+  }
+
+  start(): void {
+    this.closeTimer = setInterval(() => this.closeElapsedCandles(), this.closeCheckInterval);
+  }
+
+  stop(): void {
+    if (this.closeTimer) {
+      clearInterval(this.closeTimer);
+      this.closeTimer = undefined;
+    }
+  }
+
+  isSupportedTimeframe(timeframe: string): boolean {
+    return liveTimeframes.includes(timeframe);
+  }
+
+  getSupportedTimeframes(): string[] {
+    return [...liveTimeframes];
+  }
+
+  /**
+   * Starts building candles for a symbol/timeframe and returns the candle
+   * forming right now, back-filled from the provider's minute bars so it
+   * isn't missing whatever traded before the subscription.
+   */
+  async follow(symbol: string, timeframe: string): Promise<Candle | null> {
+    let followed = this.followed.get(symbol);
+    if (!followed) {
+      followed = { minutes: new Map(), formingStart: new Map(), timeframes: new Set() };
+      this.followed.set(symbol, followed);
+    }
+
+    const now = Date.now();
+    const start = bucketStart(now, timeframe);
+    followed.timeframes.add(timeframe);
+    if (!followed.formingStart.has(timeframe)) {
+      followed.formingStart.set(timeframe, start);
+    }
+
+    try {
+      const bars = await this.marketDataService.getBars(
+        symbol, '1Min', new Date(start).toISOString(), new Date(now).toISOString(), 60
+      );
+      bars.forEach(bar => {
+        const minuteStart = bucketStart(bar.timestamp, '1Min');
+        const complete = minuteStart + MINUTE_MS <= now;
+        // The REST bar for the current minute is partial; trades already counted are fresher
+        if (complete || !followed!.minutes.has(minuteStart)) {
+          followed!.minutes.set(minuteStart, { ...bar, start: minuteStart, official: complete });
+        }
+      });
+    } catch (error) {
+      console.warn(`⚠️ Candle back-fill unavailable for ${symbol}:`, error instanceof Error ? error.message : error);
+    }
+
+    return this.buildCandle(symbol, timeframe, bucketStart(Date.now(), timeframe), false);
+  }
+
+  unfollow(symbol: string, timeframe: string): void {
+    const followed = this.followed.get(symbol);
+    if (!followed) return;
+
+    followed.timeframes.delete(timeframe);
+    followed.formingStart.delete(timeframe);
+    if (followed.timeframes.size === 0) {
+      this.followed.delete(symbol);
+    }
+  }
+
+  private handleTrade(trade: StreamTrade): void {
+    const followed = this.followed.get(trade.symbol);
+    if (!followed || !(trade.price > 0)) return;
+
+    const timestamp = trade.timestamp.getTime();
+    const start = bucketStart(timestamp, '1Min');
+    const minute = followed.minutes.get(start);
+
+    if (minute?.official) return; // The provider's bar for this minute already includes the trade
+    if (minute) {
+      minute.high = Math.max(minute.high, trade.price);
+      minute.low = Math.min(minute.low, trade.price);
+      minute.close = trade.price;
+      minute.volume += trade.size;
+    } else {
+      followed.minutes.set(start, {
+        start,
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
+        close: trade.price,
+        volume: trade.size,
+        official: false
+      });
+    }
+
+    this.publish(trade.symbol, followed, timestamp);
+  }
+
+  private handleBar(bar: StreamBar): void {
+    const followed = this.followed.get(bar.symbol);
+    if (!followed) return;
+
+    const start = bucketStart(bar.timestamp, '1Min');
+    followed.minutes.set(start, {
+      start,
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume,
+      official: true
+    });
+
+    this.publish(bar.symbol, followed, start);
+  }
+
+  // Send whatever changed for the candle containing `timestamp` in each followed timeframe
+  private publish(symbol: string, followed: FollowedSymbol, timestamp: number): void {
+    followed.timeframes.forEach(timeframe => {
+      const start = bucketStart(timestamp, timeframe);
+      const formingStart = followed.formingStart.get(timeframe) ?? start;
+
+      if (start < formingStart) {
+        // Correction to a candle that has already been closed
+        const corrected = this.buildCandle(symbol, timeframe, start, true);
+        if (corrected) this.webSocketService.broadcastCandle('candleClosed', corrected);
+        return;
+      }
+
+      if (start > formingStart) {
+        // The first trade of a new interval closes the previous candle if the timer hasn't yet
+        this.closeCandle(symbol, timeframe, formingStart);
+        followed.formingStart.set(timeframe, start);
+      }
+
+      const candle = this.buildCandle(symbol, timeframe, start, false);
+      if (candle) this.webSocketService.broadcastCandle('candleUpdate', candle);
+    });
+  }
+
+  private closeElapsedCandles(): void {
+    const now = Date.now();
+
+    this.followed.forEach((followed, symbol) => {
+      followed.formingStart.forEach((start, timeframe) => {
+        if (now < start + timeframeMs[timeframe] + CLOSE_GRACE_MS) return;
+
+        this.closeCandle(symbol, timeframe, start);
+        followed.formingStart.set(timeframe, bucketStart(now, timeframe));
+      });
+
+      // Forget minutes nothing can be built from any more
+      const cutoff = now - MINUTE_RETENTION_MS;
+      followed.minutes.forEach((_minute, start) => {
+        if (start < cutoff) followed.minutes.delete(start);
+      });
+    });
+  }
+
+  private closeCandle(symbol: string, timeframe: string, start: number): void {
+    const candle = this.buildCandle(symbol, timeframe, start, true);
+    if (candle) this.webSocketService.broadcastCandle('candleClosed', candle);
+  }
+
+  private buildCandle(symbol: string, timeframe: string, start: number, closed: boolean): Candle | null {
+    const followed = this.followed.get(symbol);
+    if (!followed) return null;
+
+    const end = start + timeframeMs[timeframe];
+    const minutes = Array.from(followed.minutes.values())
+      .filter(minute => minute.start >= start && minute.start < end)
+      .sort((a, b) => a.start - b.start);
+    if (minutes.length === 0) return null;
+
+    return {
+      symbol,
+      timeframe,
+      timestamp: start,
+      open: minutes[0].open,
+      high: Math.max(...minutes.map(minute => minute.high)),
+      low: Math.min(...minutes.map(minute => minute.low)),
+      close: minutes[minutes.length - 1].close,
+      volume: minutes.reduce((sum, minute) => sum + minute.volume, 0),
+      closed
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { Bar as BarModel } from '../models/Bar';
+import { BarCoverage } from '../models/BarCoverage';
+import { BarHistoryService } from './BarHistoryService';
+import { MarketDataProvider, Bar } from './providers/MarketDataProvider';
+
+const at = (iso: string) => new Date(iso).getTime();
+const NOW = '2024-03-06T14:30:30Z';
+
+// Coverage lives in `ranges` instead of MongoDB; stored bars are never read back
+const createService = (pages: { bars: Bar[]; nextPageToken?: string }[] = []) => {
+  let ranges: { start: Date; end: Date }[] = [];
+  const coverage = () => {
+    const doc = { ranges: [...ranges] };
+    return Object.assign(Promise.resolve(doc), { lean: () => Promise.resolve(doc) });
+  };
+  jest.spyOn(BarCoverage, 'findOne').mockImplementation(coverage as never);
+  jest.spyOn(BarCoverage, 'updateOne').mockImplementation((async (_filter: unknown, update: { ranges?: typeof ranges }) => {
+    if (update.ranges) ranges = update.ranges;
+  }) as never);
+  jest.spyOn(BarModel, 'deleteMany').mockResolvedValue({} as never);
+  jest.spyOn(BarModel, 'distinct').mockResolvedValue([] as never);
+  jest.spyOn(BarModel, 'insertMany').mockResolvedValue([] as never);
+
+  const provider = {
+    getBarPage: jest.fn(async () => pages.shift() || { bars: [] })
+  };
+  const service = new BarHistoryService(provider as unknown as MarketDataProvider);
+  const setCovered = (...spans: [string, string][]) => {
+    ranges = spans.map(([start, end]) => ({ start: new Date(start), end: new Date(end) }));
+  };
+  const covered = () => ranges.map(range => [range.start.toISOString(), range.end.toISOString()]);
+
+  return { service, provider, setCovered, covered };
+};
+
+const span = (start: string, end: string) => ({ start: at(start), end: at(end) });
+
+describe('BarHistoryService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(at(NOW));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('finds the parts of a range no covered range contains', async () => {
+    const { service, setCovered } = createService();
+    setCovered(['2024-03-06T12:00:00Z', '2024-03-06T13:00:00Z'], ['2024-03-06T10:00:00Z', '2024-03-06T11:00:00Z']);
+
+    const gaps = await service.findGaps('AAPL', '1Min', span('2024-03-06T09:00:00Z', '2024-03-06T14:00:00Z'));
+
+    expect(gaps).toEqual([
+      span('2024-03-06T09:00:00Z', '2024-03-06T10:00:00Z'),
+      span('2024-03-06T11:00:00Z', '2024-03-06T12:00:00Z'),
+      span('2024-03-06T13:00:00Z', '2024-03-06T14:00:00Z')
+    ]);
+  });
+
+  it('merges adjacent and overlapping ranges once their gaps are filled', async () => {
+    const { service, provider, setCovered, covered } = createService();
+    setCovered(['2024-03-06T10:00:00Z', '2024-03-06T11:00:00Z'], ['2024-03-06T11:30:00Z', '2024-03-06T12:00:00Z']);
+
+    await service.repair('AAPL', '1Min', span('2024-03-06T10:30:00Z', '2024-03-06T12:30:00Z'));
+
+    expect(provider.getBarPage).toHaveBeenCalledTimes(2); // 11:00-11:30 and 12:00-12:30 only
+    expect(covered()).toEqual([['2024-03-06T10:00:00.000Z', '2024-03-06T12:30:00.000Z']]);
+  });
+
+  it('leaves the bar still forming uncovered', async () => {
+    const { service, covered } = createService();
+
+    await service.repair('AAPL', '1Min', span('2024-03-06T14:00:00Z', NOW));
+
+    expect(covered()).toEqual([['2024-03-06T14:00:00.000Z', '2024-03-06T14:30:00.000Z']]);
+    expect(await service.findGaps('AAPL', '1Min', span('2024-03-06T14:00:00Z', NOW)))
+      .toEqual([span('2024-03-06T14:30:00Z', NOW)]);
+  });
+
+  it('stops paging after a few pages and covers only what arrived', async () => {
+    const bar = (iso: string): Bar => ({ timestamp: at(iso), open: 1, high: 1, low: 1, close: 1, volume: 1 });
+    const pages = ['10:00', '10:01', '10:02', '10:03', '10:04', '10:05']
+      .map(time => ({ bars: [bar(`2024-03-06T${time}:00Z`)], nextPageToken: 'more' }));
+    const { service, provider, covered } = createService(pages);
+
+    await service.repair('AAPL', '1Min', span('2024-03-06T10:00:00Z', '2024-03-06T12:00:00Z'));
+
+    expect(provider.getBarPage).toHaveBeenCalledTimes(5);
+    expect(covered()).toEqual([['2024-03-06T10:00:00.000Z', '2024-03-06T10:05:00.000Z']]);
+  });
+});
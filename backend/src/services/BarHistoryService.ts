@@ -0,0 +1,271 @@
+import mongoose from 'mongoose';
+import { Bar as BarModel } from '../models/Bar';
+import { BarCoverage, ICoveredRange } from '../models/BarCoverage';
+import { MarketDataProvider, Bar, RequestPriority } from './providers/MarketDataProvider';
+import { timeframeMs, defaultLookbackMs } from './timeframes';
+
+interface TimeRange {
+  start: number;
+  end: number; // Exclusive
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// How far back the backfill job fills a symbol/timeframe once it has been charted
+const backfillDepthMs: Record<string, number> = {
+  '1Min': 7 * DAY_MS,
+  '5Min': 30 * DAY_MS,
+  '15Min': 60 * DAY_MS,
+  '1Hour': 365 * DAY_MS,
+  '1Day': 5 * 365 * DAY_MS
+};
+
+const PAGE_LIMIT = 10000; // Alpaca's maximum page size
+const MAX_PAGES_PER_GAP = 5; // The rest of a longer gap is left for the next request or backfill
+
+/**
+ * Keeps OHLCV history in MongoDB so charts don't hit the provider for bars
+ * we already have.
+ *
+ * Alongside the bars, a BarCoverage document records which time ranges of a
+ * symbol/timeframe have been fetched - empty stretches like weekends
+ * included - so a gap is simply a part of a requested range that no covered
+ * range contains. Gaps are filled by paging through the provider with
+ * next_page_token. Only completed bars count as covered; the bar still
+ * forming is stored but fetched again on the next request.
+ *
+ * The backfill job walks every symbol/timeframe that has been requested,
+ * extending it back to its backfill depth and forward to now.
+ */
+export class BarHistoryService {
+  private provider: MarketDataProvider;
+  private backfillTimer?: NodeJS.Timeout;
+  private backfillInterval: number = 15 * 60 * 1000;
+  private locks: Map<string, Promise<unknown>> = new Map(); // One fetch at a time per symbol/timeframe
+
+  constructor(provider: MarketDataProvider) {
+    this.provider = provider;
+  }
+
+  start(): void {
+    this.backfillTimer = setInterval(() => {
+      this.runBackfill().catch(error => console.warn('⚠️ Bar backfill failed:', error.message));
+    }, this.backfillInterval);
+  }
+
+  stop(): void {
+    if (this.backfillTimer) {
+      clearInterval(this.backfillTimer);
+      this.backfillTimer = undefined;
+    }
+  }
+
+  // The store is skipped entirely while MongoDB is down
+  isAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  // Weekly and monthly bars are built from the stored daily ones
+  isSupportedTimeframe(timeframe: string): boolean {
+    return timeframe in backfillDepthMs;
+  }
+
+  /**
+   * Bars in [start, end], the latest `limit` of them. Only the newest part of
+   * the range that can hold `limit` bars - never more than the backfill depth -
+   * is fetched if missing; older bars are served only if already stored.
+   */
+  async getBars(symbol: string, timeframe: string, start: string | undefined, end: string | undefined, limit: number): Promise<Bar[]> {
+    const to = Math.min(end ? new Date(end).getTime() : Date.now(), Date.now());
+    const from = start ? new Date(start).getTime() : to - defaultLookbackMs(timeframe, limit);
+    const repairFrom = Math.max(from, to - Math.min(defaultLookbackMs(timeframe, limit), backfillDepthMs[timeframe]));
+
+    if (repairFrom < to) {
+      await this.repair(symbol, timeframe, { start: repairFrom, end: to });
+    }
+
+    const bars = await BarModel.find({
+      'meta.symbol': symbol,
+      'meta.timeframe': timeframe,
+      timestamp: { $gte: new Date(from), $lte: new Date(to) }
+    })
+      .sort({ timestamp: -1 })
+      .limit(limit)
+      .lean();
+
+    // One bar per timestamp, even if a duplicate slipped into the store
+    const unique = bars.filter((bar, index) => index === 0 || bar.timestamp.getTime() !== bars[index - 1].timestamp.getTime());
+
+    return unique.reverse().map(bar => ({
+      timestamp: bar.timestamp.getTime(),
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume
+    }));
+  }
+
+  // Parts of `range` that have never been fetched
+  async findGaps(symbol: string, timeframe: string, range: TimeRange): Promise<TimeRange[]> {
+    const coverage = await BarCoverage.findOne({ symbol, timeframe }).lean();
+    const covered = (coverage?.ranges || [])
+      .map(toTimeRange)
+      .sort((a, b) => a.start - b.start);
+
+    const gaps: TimeRange[] = [];
+    let cursor = range.start;
+    for (const span of covered) {
+      if (span.end <= cursor) continue;
+      if (span.start >= range.end) break;
+      if (span.start > cursor) gaps.push({ start: cursor, end: span.start });
+      cursor = Math.max(cursor, span.end);
+    }
+    if (cursor < range.end) gaps.push({ start: cursor, end: range.end });
+
+    return gaps;
+  }
+
+  async repair(symbol: string, timeframe: string, range: TimeRange, priority: RequestPriority = 'user'): Promise<number> {
+    return this.withLock(`${symbol}:${timeframe}`, async () => {
+      const gaps = await this.findGaps(symbol, timeframe, range);
+      let fetched = 0;
+      for (const gap of gaps) {
+        fetched += await this.fetchRange(symbol, timeframe, gap, priority);
+      }
+      return fetched;
+    });
+  }
+
+  async backfill(symbol: string, timeframe: string): Promise<number> {
+    const now = Date.now();
+    const fetched = await this.repair(symbol, timeframe, { start: now - backfillDepthMs[timeframe], end: now }, 'background');
+    await BarCoverage.updateOne({ symbol, timeframe }, { lastBackfillAt: new Date() });
+    return fetched;
+  }
+
+  private async runBackfill(): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    const tracked = await BarCoverage.find({}, { symbol: 1, timeframe: 1 }).lean();
+    for (const { symbol, timeframe } of tracked) {
+      if (!this.isSupportedTimeframe(timeframe)) continue;
+      try {
+        const fetched = await this.backfill(symbol, timeframe);
+        if (fetched > 0) {
+          console.log(`🗄️ Backfilled ${fetched} ${timeframe} bars for ${symbol}`);
+        }
+      } catch (error) {
+        console.warn(`⚠️ Bar backfill failed for ${symbol} ${timeframe}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Page through the provider for one gap, oldest bars first, replace the
+   * stored bars in it and mark it covered. After MAX_PAGES_PER_GAP pages only
+   * the part up to the last bar received is stored and covered.
+   */
+  private async fetchRange(symbol: string, timeframe: string, requested: TimeRange, priority: RequestPriority): Promise<number> {
+    const interval = timeframeMs[timeframe];
+    const bars: Bar[] = [];
+    let gap = requested;
+    let pageToken: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await this.provider.getBarPage({
+        symbol,
+        timeframe,
+        start: new Date(gap.start).toISOString(),
+        end: new Date(gap.end).toISOString(),
+        limit: PAGE_LIMIT,
+        pageToken,
+        priority
+      });
+      bars.push(...page.bars);
+      pageToken = page.nextPageToken;
+      pages++;
+    } while (pageToken && pages < MAX_PAGES_PER_GAP);
+
+    if (pageToken) {
+      const last = bars[bars.length - 1];
+      gap = { start: gap.start, end: last ? Math.min(gap.end, last.timestamp + interval) : gap.start };
+    }
+
+    const inGap = bars.filter(bar => bar.timestamp >= gap.start && bar.timestamp < gap.end);
+    const gapFilter = {
+      'meta.symbol': symbol,
+      'meta.timeframe': timeframe,
+      timestamp: { $gte: new Date(gap.start), $lt: new Date(gap.end) }
+    };
+    await BarModel.deleteMany(gapFilter);
+
+    // Time-series collections have no unique indexes or upserts: skip bars another writer
+    // (e.g. a second server process) stored since the delete rather than duplicating them
+    const stored = new Set((await BarModel.distinct('timestamp', gapFilter)).map((timestamp: Date) => timestamp.getTime()));
+    const fresh = inGap.filter(bar => !stored.has(bar.timestamp));
+    if (fresh.length > 0) {
+      await BarModel.insertMany(fresh.map(bar => ({
+        meta: { symbol, timeframe },
+        timestamp: new Date(bar.timestamp),
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        volume: bar.volume
+      })));
+    }
+
+    // The bar still forming is kept but left uncovered so it is fetched again
+    const completedEnd = Math.min(gap.end, Math.floor(Date.now() / interval) * interval);
+    if (completedEnd > gap.start) {
+      await this.markCovered(symbol, timeframe, { start: gap.start, end: completedEnd });
+    }
+
+    return inGap.length;
+  }
+
+  private async markCovered(symbol: string, timeframe: string, range: TimeRange): Promise<void> {
+    const coverage = await BarCoverage.findOne({ symbol, timeframe });
+    const ranges = [...(coverage?.ranges || []).map(toTimeRange), range]
+      .sort((a, b) => a.start - b.start);
+
+    // Merge overlapping and touching ranges
+    const merged: TimeRange[] = [];
+    ranges.forEach(span => {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end) {
+        last.end = Math.max(last.end, span.end);
+      } else {
+        merged.push({ ...span });
+      }
+    });
+
+    await BarCoverage.updateOne(
+      { symbol, timeframe },
+      { ranges: merged.map(span => ({ start: new Date(span.start), end: new Date(span.end) })) },
+      { upsert: true }
+    );
+  }
+
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.locks.set(key, next);
+
+    try {
+      return await next;
+    } finally {
+      if (this.locks.get(key) === next) {
+        this.locks.delete(key);
+      }
+    }
+  }
+}
+
+const toTimeRange = (range: ICoveredRange): TimeRange => ({
+  start: new Date(range.start).getTime(),
+  end: new Date(range.end).getTime()
+});
@@ -0,0 +1,256 @@
+import mongoose from 'mongoose';
+import { Portfolio, IPortfolio } from '../models/Portfolio';
+import { Transaction } from '../models/Transaction';
+import { LedgerService, LedgerEntry, LedgerError } from './LedgerService';
+
+const ledger = new LedgerService();
+
+let sequence = 0;
+const entry = (fields: Partial<LedgerEntry> & Pick<LedgerEntry, 'type' | 'executedAt'>): LedgerEntry => ({
+  _id: new mongoose.Types.ObjectId(),
+  fee: 0,
+  createdAt: new Date(Date.UTC(2020, 0, 1) + sequence++),
+  ...fields
+} as LedgerEntry);
+
+const buy = (symbol: string, quantity: number, price: number, executedAt: string, fee = 0) =>
+  entry({ type: 'buy', symbol, quantity, price, fee, executedAt: new Date(executedAt) });
+
+const sell = (symbol: string, quantity: number, price: number, executedAt: string, fee = 0) =>
+  entry({ type: 'sell', symbol, quantity, price, fee, executedAt: new Date(executedAt) });
+
+describe('LedgerService.derive', () => {
+  it('tracks cash through deposits, buys and sells', () => {
+    const { cashBalance, positions } = ledger.derive([
+      entry({ type: 'deposit', amount: 1000, executedAt: new Date('2024-01-01') }),
+      buy('AAPL', 5, 100, '2024-01-02', 1),
+      sell('AAPL', 2, 120, '2024-01-03', 1)
+    ]);
+
+    expect(cashBalance).toBeCloseTo(1000 - 501 + 239);
+    expect(positions.get('AAPL')!.quantity).toBe(3);
+  });
+
+  it('sells the oldest lots first under FIFO and includes buy fees in cost', () => {
+    const first = buy('AAPL', 10, 100, '2024-01-01', 10);
+    const second = buy('AAPL', 10, 150, '2024-02-01');
+    const { positions, realized } = ledger.derive([first, second, sell('AAPL', 15, 200, '2024-03-01')], 'fifo');
+
+    expect(realized.map(lot => [lot.lotTransactionId, lot.quantity])).toEqual([
+      [String(first._id), 10],
+      [String(second._id), 5]
+    ]);
+    expect(realized[0].costBasis).toBeCloseTo(1010);
+    expect(realized[0].gain).toBeCloseTo(2000 - 1010);
+    expect(realized[1].gain).toBeCloseTo(1000 - 750);
+
+    const position = positions.get('AAPL')!;
+    expect(position.quantity).toBe(5);
+    expect(position.totalCost).toBeCloseTo(750);
+  });
+
+  it('sells the newest lots first under LIFO', () => {
+    const first = buy('AAPL', 10, 100, '2024-01-01');
+    const second = buy('AAPL', 10, 150, '2024-02-01');
+    const { realized } = ledger.derive([first, second, sell('AAPL', 5, 200, '2024-03-01')], 'lifo');
+
+    expect(realized).toHaveLength(1);
+    expect(realized[0].lotTransactionId).toBe(String(second._id));
+  });
+
+  it('sells the most expensive lots first under HIFO', () => {
+    const cheap = buy('AAPL', 10, 100, '2024-01-01');
+    const expensive = buy('AAPL', 10, 180, '2024-02-01');
+    const middle = buy('AAPL', 10, 150, '2024-03-01');
+    const { realized } = ledger.derive([cheap, expensive, middle, sell('AAPL', 15, 200, '2024-04-01')], 'hifo');
+
+    expect(realized.map(lot => lot.lotTransactionId)).toEqual([String(expensive._id), String(middle._id)]);
+  });
+
+  it('splits sell fees across the lots it closes', () => {
+    const { realized } = ledger.derive([
+      buy('AAPL', 1, 100, '2024-01-01'),
+      buy('AAPL', 3, 100, '2024-01-02'),
+      sell('AAPL', 4, 110, '2024-01-03', 8)
+    ]);
+
+    expect(realized.map(lot => lot.proceeds)).toEqual([108, 324]);
+  });
+
+  it('draws from the lots named in lotSelections', () => {
+    const first = buy('AAPL', 10, 100, '2024-01-01');
+    const second = buy('AAPL', 10, 150, '2024-02-01');
+    const sale = sell('AAPL', 4, 200, '2024-03-01');
+    sale.lotSelections = [{ transactionId: second._id as mongoose.Types.ObjectId, quantity: 4 }];
+
+    const { realized, positions } = ledger.derive([first, second, sale], 'specific');
+
+    expect(realized[0].lotTransactionId).toBe(String(second._id));
+    expect(positions.get('AAPL')!.lots.map(lot => lot.quantity)).toEqual([10, 6]);
+  });
+
+  it('rejects lot selections that do not add up to the sale', () => {
+    const first = buy('AAPL', 10, 100, '2024-01-01');
+    const sale = sell('AAPL', 4, 200, '2024-03-01');
+    sale.lotSelections = [{ transactionId: first._id as mongoose.Types.ObjectId, quantity: 3 }];
+
+    expect(() => ledger.derive([first, sale], 'specific')).toThrow(LedgerError);
+  });
+
+  it('rejects selling more than is held at the time of the sale', () => {
+    expect(() => ledger.derive([
+      sell('AAPL', 1, 100, '2024-01-01'),
+      buy('AAPL', 5, 100, '2024-01-02')
+    ])).toThrow(/Insufficient AAPL/);
+  });
+
+  it('marks lots held for more than a year as long-term', () => {
+    const { realized } = ledger.derive([
+      buy('AAPL', 1, 100, '2023-01-01'),
+      buy('AAPL', 1, 100, '2023-06-01'),
+      sell('AAPL', 2, 120, '2024-01-02')
+    ]);
+
+    expect(realized.map(lot => lot.term)).toEqual(['long', 'short']);
+  });
+
+  it('moves positions in and out without realizing a gain', () => {
+    const { positions, realized, cashBalance } = ledger.derive([
+      entry({ type: 'transfer', transferDirection: 'in', symbol: 'BTC/USD', quantity: 2, price: 30000, executedAt: new Date('2024-01-01') }),
+      entry({ type: 'transfer', transferDirection: 'out', symbol: 'BTC/USD', quantity: 2, fee: 5, executedAt: new Date('2024-02-01') })
+    ]);
+
+    expect(positions.size).toBe(0);
+    expect(realized).toEqual([]);
+    expect(cashBalance).toBe(-5);
+  });
+});
+
+describe('LedgerService.summarizeRealized', () => {
+  it('totals gains by year and holding term, newest year first', () => {
+    const { realized } = ledger.derive([
+      buy('AAPL', 3, 100, '2022-01-01'),
+      sell('AAPL', 1, 150, '2022-06-01'),
+      sell('AAPL', 1, 90, '2023-06-01'),
+      sell('AAPL', 1, 130, '2023-07-01')
+    ]);
+
+    const [latest, earlier] = ledger.summarizeRealized(realized);
+    expect(latest.year).toBe(2023);
+    expect(latest.longTerm.gain).toBeCloseTo(20);
+    expect(latest.shortTerm.gain).toBe(0);
+    expect(latest.total.proceeds).toBeCloseTo(220);
+    expect(earlier).toMatchObject({ year: 2022, shortTerm: { gain: 50 }, total: { gain: 50 } });
+  });
+});
+
+describe('LedgerService.ensureLedger', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('inserts the opening transfers once when called concurrently', async () => {
+    const inserted: unknown[] = [];
+    // Answer from the state at query time, but only after a delay, like a real round trip
+    jest.spyOn(Transaction, 'exists').mockImplementation((() => {
+      const found = inserted.length > 0 ? { _id: 'tx' } : null;
+      return new Promise(resolve => setTimeout(() => resolve(found), 5));
+    }) as any);
+    jest.spyOn(Transaction, 'insertMany').mockImplementation((async (docs: unknown[]) => {
+      inserted.push(...docs);
+      return docs;
+    }) as any);
+
+    const portfolio = {
+      _id: new mongoose.Types.ObjectId(),
+      userId: new mongoose.Types.ObjectId(),
+      createdAt: new Date('2024-01-01'),
+      assets: [
+        { symbol: 'AAPL', name: 'Apple Inc.', type: 'stock', quantity: 5, avgCostBasis: 100 },
+        { symbol: 'BTC/USD', name: 'Bitcoin', type: 'crypto', quantity: 0.5, avgCostBasis: 30000 }
+      ]
+    } as unknown as IPortfolio;
+    jest.spyOn(Portfolio, 'findById').mockResolvedValue(portfolio as never);
+
+    const counts = await Promise.all([ledger.ensureLedger(portfolio), ledger.ensureLedger(portfolio)]);
+
+    expect(counts.sort()).toEqual([0, 2]);
+    expect(inserted).toHaveLength(2);
+  });
+});
+
+describe('LedgerService.record', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('rebuilds each queued write from the portfolio as the previous write left it', async () => {
+    const saved: unknown[] = [];
+    jest.spyOn(Transaction, 'find').mockImplementation((() => ({
+      sort: () => new Promise(resolve => setTimeout(() => resolve([...saved]), 5))
+    })) as any);
+    jest.spyOn(Transaction, 'insertMany').mockImplementation((async (docs: unknown[]) => {
+      saved.push(...docs);
+      return docs;
+    }) as any);
+
+    // Saving rewrites `assets`, so like Mongoose a save only matches the version it was loaded at
+    const _id = new mongoose.Types.ObjectId();
+    const userId = new mongoose.Types.ObjectId();
+    const stored = { version: 0, assets: [] as IPortfolio['assets'] };
+    const load = () => {
+      const document = {
+        _id,
+        userId,
+        costBasisMethod: 'fifo',
+        assets: stored.assets,
+        version: stored.version,
+        save: async () => {
+          if (document.version !== stored.version) throw new mongoose.Error.VersionError(document as never, 0, []);
+          stored.version++;
+          stored.assets = document.assets;
+          return document;
+        }
+      };
+      return document as unknown as IPortfolio;
+    };
+    jest.spyOn(Portfolio, 'findById').mockImplementation((async () => load()) as any);
+
+    const loadedByRoute = load();
+    const purchase = (symbol: string) => ({
+      type: 'buy' as const, symbol, name: symbol, assetType: 'stock' as const, quantity: 1, price: 100, executedAt: new Date('2024-01-02')
+    });
+    await Promise.all([
+      ledger.record(loadedByRoute, purchase('AAPL')),
+      ledger.record(loadedByRoute, purchase('MSFT'))
+    ]);
+
+    expect(saved).toHaveLength(2);
+    expect(stored.assets.map(asset => asset.symbol).sort()).toEqual(['AAPL', 'MSFT']);
+  });
+});
+
+describe('LedgerService.correct', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('puts the original back in force when its replacement fails to save', async () => {
+    const portfolio = {
+      _id: new mongoose.Types.ObjectId(),
+      userId: new mongoose.Types.ObjectId(),
+      costBasisMethod: 'fifo',
+      assets: []
+    } as unknown as IPortfolio;
+    const original = {
+      ...entry({ type: 'deposit', amount: 1000, executedAt: new Date('2024-01-01') }),
+      save: jest.fn().mockResolvedValue(undefined)
+    };
+    jest.spyOn(Portfolio, 'findById').mockResolvedValue(portfolio as never);
+    jest.spyOn(Transaction, 'find').mockImplementation((() => ({ sort: async () => [original] })) as any);
+    jest.spyOn(Transaction.prototype, 'save').mockRejectedValue(new Error('connection lost'));
+    const restore = jest.spyOn(Transaction, 'updateOne').mockResolvedValue({} as never);
+
+    await expect(ledger.correct(portfolio, original as never, { amount: 1200 }, 'Typo')).rejects.toThrow('connection lost');
+
+    expect(original.save).toHaveBeenCalled();
+    expect(restore).toHaveBeenCalledWith(
+      { _id: original._id },
+      { $unset: { voidedAt: 1, voidReason: 1, replacedByTransactionId: 1 } }
+    );
+  });
+});
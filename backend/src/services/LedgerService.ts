@@ -0,0 +1,537 @@
+import mongoose from 'mongoose';
+import { Portfolio, IPortfolio, IPortfolioAsset, CostBasisMethod } from '../models/Portfolio';
+import { Transaction, ITransaction } from '../models/Transaction';
+
+// Quantities below this are treated as a closed position (float dust)
+const QUANTITY_EPSILON = 1e-9;
+
+// Pending write per portfolio id. Module-level because each router creates its own LedgerService
+const portfolioLocks: Map<string, Promise<unknown>> = new Map();
+
+export class LedgerError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+export interface DerivedLot {
+  transactionId: string;
+  quantity: number;
+  costPerUnit: number;
+  acquiredAt: Date;
+}
+
+export interface DerivedPosition {
+  symbol: string;
+  name: string;
+  type: 'stock' | 'crypto';
+  quantity: number;
+  totalCost: number;
+  lots: DerivedLot[];
+}
+
+// The part of one sell that was matched against one lot
+export interface RealizedLot {
+  transactionId: string;
+  lotTransactionId: string;
+  symbol: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  acquiredAt: Date;
+  disposedAt: Date;
+  term: 'short' | 'long';
+}
+
+export interface RealizedTermSummary {
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+}
+
+export interface RealizedYearSummary {
+  year: number;
+  shortTerm: RealizedTermSummary;
+  longTerm: RealizedTermSummary;
+  total: RealizedTermSummary;
+}
+
+export interface LedgerState {
+  positions: Map<string, DerivedPosition>;
+  cashBalance: number;
+  realized: RealizedLot[];
+}
+
+// The subset of a transaction that affects positions, so unsaved drafts can be validated too
+export type LedgerEntry = Pick<ITransaction,
+  '_id' | 'type' | 'symbol' | 'name' | 'assetType' | 'quantity' | 'price' | 'fee' | 'amount' |
+  'transferDirection' | 'lotSelections' | 'executedAt'
+> & { createdAt?: Date };
+
+/**
+ * Positions and cash are derived from a portfolio's transactions; the assets
+ * stored on the Portfolio document are a cache of the last derivation.
+ *
+ * Every buy or transfer in opens a tax lot (buy fees included in its cost).
+ * Sells, transfers out and asset-denominated fees close lots in the order
+ * given by the portfolio's cost basis method, or from the lots named in the
+ * transaction's lotSelections. Only sells realize a gain: proceeds net of the
+ * sell fee minus the cost of the lots closed. A lot held for more than one
+ * year when sold is long-term.
+ */
+export class LedgerService {
+  derive(transactions: LedgerEntry[], method: CostBasisMethod = 'fifo'): LedgerState {
+    const positions: Map<string, DerivedPosition> = new Map();
+    const realized: RealizedLot[] = [];
+    let cashBalance = 0;
+
+    const ordered = [...transactions].sort((a, b) =>
+      new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime() ||
+      new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime()
+    );
+
+    for (const tx of ordered) {
+      const fee = tx.fee || 0;
+
+      switch (tx.type) {
+        case 'deposit':
+          cashBalance += tx.amount || 0;
+          break;
+        case 'withdraw':
+          cashBalance -= tx.amount || 0;
+          break;
+        case 'buy': {
+          const cost = tx.quantity! * tx.price! + fee;
+          this.openLot(positions, tx, cost);
+          cashBalance -= cost;
+          break;
+        }
+        case 'sell': {
+          const proceeds = tx.quantity! * tx.price! - fee;
+          const closed = this.closeLots(positions, tx, tx.quantity!, method);
+          const disposedAt = new Date(tx.executedAt);
+
+          closed.forEach(({ lot, quantity }) => {
+            const lotProceeds = proceeds * (quantity / tx.quantity!);
+            const costBasis = lot.costPerUnit * quantity;
+            realized.push({
+              transactionId: String(tx._id),
+              lotTransactionId: lot.transactionId,
+              symbol: tx.symbol!.toUpperCase(),
+              quantity,
+              proceeds: lotProceeds,
+              costBasis,
+              gain: lotProceeds - costBasis,
+              acquiredAt: lot.acquiredAt,
+              disposedAt,
+              term: this.getHoldingTerm(lot.acquiredAt, disposedAt)
+            });
+          });
+          cashBalance += proceeds;
+          break;
+        }
+        case 'transfer': {
+          if (tx.transferDirection === 'in') {
+            this.openLot(positions, tx, tx.quantity! * (tx.price || 0));
+          } else {
+            this.closeLots(positions, tx, tx.quantity!, method, false);
+          }
+          cashBalance -= fee;
+          break;
+        }
+        case 'fee': {
+          if (tx.symbol && tx.quantity) {
+            this.closeLots(positions, tx, tx.quantity, method, false);
+          } else {
+            cashBalance -= tx.amount || 0;
+          }
+          break;
+        }
+      }
+    }
+
+    positions.forEach((position, symbol) => {
+      if (position.quantity <= QUANTITY_EPSILON) {
+        positions.delete(symbol);
+      }
+    });
+
+    return { positions, cashBalance, realized };
+  }
+
+  // Roll realized lots up by calendar year of the sale, newest year first
+  summarizeRealized(realized: RealizedLot[]): RealizedYearSummary[] {
+    const emptyTerm = (): RealizedTermSummary => ({ proceeds: 0, costBasis: 0, gain: 0 });
+    const years: Map<number, RealizedYearSummary> = new Map();
+
+    realized.forEach(lot => {
+      const year = lot.disposedAt.getUTCFullYear();
+      if (!years.has(year)) {
+        years.set(year, { year, shortTerm: emptyTerm(), longTerm: emptyTerm(), total: emptyTerm() });
+      }
+
+      const summary = years.get(year)!;
+      [lot.term === 'long' ? summary.longTerm : summary.shortTerm, summary.total].forEach(term => {
+        term.proceeds += lot.proceeds;
+        term.costBasis += lot.costBasis;
+        term.gain += lot.gain;
+      });
+    });
+
+    return Array.from(years.values()).sort((a, b) => b.year - a.year);
+  }
+
+  async getActiveTransactions(portfolioId: mongoose.Types.ObjectId | string): Promise<ITransaction[]> {
+    return Transaction.find({ portfolioId, voidedAt: { $exists: false } })
+      .sort({ executedAt: 1, createdAt: 1 });
+  }
+
+  /**
+   * Portfolios created before the ledger existed only have position snapshots.
+   * Record each as an opening transfer in at its average cost so the ledger
+   * reproduces them exactly. Does nothing once a portfolio has any transaction.
+   * Runs under the portfolio's lock so concurrent first requests can't both
+   * insert the openings.
+   */
+  async ensureLedger(portfolio: IPortfolio): Promise<number> {
+    if (portfolio.assets.length === 0) return 0;
+    return this.withLock(portfolio, current => this.insertOpenings(current));
+  }
+
+  // Validate a new entry against the existing ledger, save it and refresh positions
+  async record(portfolio: IPortfolio, entry: Partial<ITransaction>): Promise<{ transaction: ITransaction; portfolio: IPortfolio }> {
+    const result = await this.recordAll(portfolio, [entry]);
+    return { transaction: result.transactions[0], portfolio: result.portfolio };
+  }
+
+  // Record entries that belong together (a buy and its funding deposit) as one write: all or none are saved
+  async recordAll(portfolio: IPortfolio, entries: Partial<ITransaction>[]): Promise<{ transactions: ITransaction[]; portfolio: IPortfolio }> {
+    const transactions = entries.map(entry => new Transaction({
+      ...entry,
+      portfolioId: portfolio._id,
+      userId: portfolio.userId,
+      source: 'manual'
+    }));
+    await Promise.all(transactions.map(transaction => transaction.validate()));
+
+    return this.withLock(portfolio, async current => {
+      const active = await this.getActiveTransactions(current._id as mongoose.Types.ObjectId);
+      this.derive([...active, ...transactions], current.costBasisMethod);
+
+      try {
+        await Transaction.insertMany(transactions);
+      } catch (error) {
+        await Transaction.deleteMany({ _id: { $in: transactions.map(transaction => transaction._id) } });
+        throw error;
+      }
+      return { transactions, portfolio: await this.rebuild(current) };
+    });
+  }
+
+  // Switching methods re-matches every past sell against its lots
+  async setCostBasisMethod(portfolio: IPortfolio, method: CostBasisMethod): Promise<IPortfolio> {
+    return this.withLock(portfolio, async current => {
+      current.costBasisMethod = method;
+      if (current.assets.length > 0) {
+        await this.insertOpenings(current);
+      }
+      return this.rebuild(current);
+    });
+  }
+
+  // Voided transactions stay in the ledger for the audit trail but no longer count
+  async void(portfolio: IPortfolio, transaction: ITransaction, reason: string): Promise<IPortfolio> {
+    return this.withLock(portfolio, async current => {
+      const active = await this.getActiveTransactions(current._id as mongoose.Types.ObjectId);
+      this.assertActive(active, transaction);
+      this.derive(active.filter(tx => String(tx._id) !== String(transaction._id)), current.costBasisMethod);
+
+      transaction.voidedAt = new Date();
+      transaction.voidReason = reason;
+      await transaction.save();
+      return this.rebuild(current);
+    });
+  }
+
+  // Replace a mistaken transaction: the original is voided and linked to its correction
+  async correct(
+    portfolio: IPortfolio,
+    original: ITransaction,
+    changes: Partial<ITransaction>,
+    reason: string
+  ): Promise<{ transaction: ITransaction; portfolio: IPortfolio }> {
+    const replacement = new Transaction({
+      type: original.type,
+      symbol: original.symbol,
+      name: original.name,
+      assetType: original.assetType,
+      quantity: original.quantity,
+      price: original.price,
+      fee: original.fee,
+      amount: original.amount,
+      transferDirection: original.transferDirection,
+      lotSelections: original.lotSelections,
+      executedAt: original.executedAt,
+      notes: original.notes,
+      ...changes,
+      portfolioId: portfolio._id,
+      userId: portfolio.userId,
+      source: 'manual',
+      replacesTransactionId: original._id
+    });
+    await replacement.validate();
+
+    return this.withLock(portfolio, async current => {
+      const active = await this.getActiveTransactions(current._id as mongoose.Types.ObjectId);
+      this.assertActive(active, original);
+      this.derive([
+        ...active.filter(tx => String(tx._id) !== String(original._id)),
+        replacement
+      ], current.costBasisMethod);
+
+      // Supersede the original first: if the replacement then fails to save, the
+      // original is put back rather than both counting
+      original.voidedAt = new Date();
+      original.voidReason = reason;
+      original.replacedByTransactionId = replacement._id as mongoose.Types.ObjectId;
+      await original.save();
+      try {
+        await replacement.save();
+      } catch (error) {
+        await Transaction.updateOne(
+          { _id: original._id },
+          { $unset: { voidedAt: 1, voidReason: 1, replacedByTransactionId: 1 } }
+        );
+        throw error;
+      }
+
+      return { transaction: replacement, portfolio: await this.rebuild(current) };
+    });
+  }
+
+  // Realized gains for the portfolio's current cost basis method
+  async getRealized(portfolio: IPortfolio): Promise<RealizedLot[]> {
+    const transactions = await this.getActiveTransactions(portfolio._id as mongoose.Types.ObjectId);
+    return this.derive(transactions, portfolio.costBasisMethod).realized;
+  }
+
+  // Re-derive positions from the ledger and store them on the portfolio
+  async rebuild(portfolio: IPortfolio): Promise<IPortfolio> {
+    const transactions = await this.getActiveTransactions(portfolio._id as mongoose.Types.ObjectId);
+    const { positions, cashBalance, realized } = this.derive(transactions, portfolio.costBasisMethod);
+    const now = new Date();
+
+    const assets: IPortfolioAsset[] = Array.from(positions.values()).map(position => {
+      const existing = portfolio.assets.find(asset => asset.symbol === position.symbol);
+      const avgCostBasis = position.totalCost / position.quantity;
+      const currentPrice = existing?.currentPrice || avgCostBasis; // Will be updated by market data
+      const marketValue = position.quantity * currentPrice;
+      const unrealizedPnL = marketValue - position.totalCost;
+
+      return {
+        symbol: position.symbol,
+        name: position.name,
+        type: position.type,
+        quantity: position.quantity,
+        avgCostBasis,
+        currentPrice,
+        marketValue,
+        unrealizedPnL,
+        unrealizedPnLPercent: position.totalCost > 0 ? (unrealizedPnL / position.totalCost) * 100 : 0,
+        lots: position.lots.map(lot => ({
+          transactionId: new mongoose.Types.ObjectId(lot.transactionId),
+          quantity: lot.quantity,
+          costPerUnit: lot.costPerUnit,
+          acquiredAt: lot.acquiredAt
+        })),
+        lastUpdated: existing?.lastUpdated || now
+      };
+    });
+
+    portfolio.assets = assets;
+    portfolio.cashBalance = cashBalance;
+    portfolio.realizedPnL = realized.reduce((sum, lot) => sum + lot.gain, 0);
+    portfolio.totalValue = assets.reduce((sum, asset) => sum + asset.marketValue, 0);
+    portfolio.totalCost = assets.reduce((sum, asset) => sum + (asset.quantity * asset.avgCostBasis), 0);
+    portfolio.totalPnL = portfolio.totalValue - portfolio.totalCost;
+    portfolio.totalPnLPercent = portfolio.totalCost > 0 ? (portfolio.totalPnL / portfolio.totalCost) * 100 : 0;
+
+    await portfolio.save();
+    return portfolio;
+  }
+
+  /**
+   * Runs ledger writes for one portfolio one at a time. Each write validates
+   * against the transactions saved so far, so two concurrent sells can't both
+   * pass against the same holding and oversell it.
+   *
+   * The task gets the portfolio as it is once the lock is held: a write queued
+   * behind another would otherwise save a document loaded before that write
+   * and fail Mongoose's version check on `assets`.
+   */
+  private async withLock<T>(portfolio: IPortfolio, task: (current: IPortfolio) => Promise<T>): Promise<T> {
+    const key = String(portfolio._id);
+    const previous = portfolioLocks.get(key) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const current = await Portfolio.findById(portfolio._id);
+      if (!current) {
+        throw new LedgerError('Portfolio no longer exists');
+      }
+      return task(current);
+    });
+    portfolioLocks.set(key, next);
+
+    try {
+      return await next;
+    } finally {
+      if (portfolioLocks.get(key) === next) {
+        portfolioLocks.delete(key);
+      }
+    }
+  }
+
+  // Caller must hold the portfolio's lock
+  private async insertOpenings(portfolio: IPortfolio): Promise<number> {
+    const existing = await Transaction.exists({ portfolioId: portfolio._id });
+    if (existing) return 0;
+
+    const openings = portfolio.assets
+      .filter(asset => asset.quantity > QUANTITY_EPSILON)
+      .map(asset => ({
+        portfolioId: portfolio._id,
+        userId: portfolio.userId,
+        type: 'transfer',
+        transferDirection: 'in',
+        symbol: asset.symbol,
+        name: asset.name,
+        assetType: asset.type,
+        quantity: asset.quantity,
+        price: asset.avgCostBasis,
+        fee: 0,
+        executedAt: portfolio.createdAt || new Date(),
+        source: 'migration',
+        notes: 'Opening position migrated from portfolio snapshot'
+      }));
+
+    await Transaction.insertMany(openings);
+    return openings.length;
+  }
+
+  // A write queued behind another may find its transaction already voided or corrected
+  private assertActive(active: ITransaction[], transaction: ITransaction): void {
+    if (!active.some(tx => String(tx._id) === String(transaction._id))) {
+      throw new LedgerError('Transaction was already voided or corrected');
+    }
+  }
+
+  private openLot(positions: Map<string, DerivedPosition>, tx: LedgerEntry, cost: number): void {
+    const symbol = tx.symbol!.toUpperCase();
+    let position = positions.get(symbol);
+    if (!position) {
+      position = {
+        symbol,
+        name: tx.name || symbol,
+        type: tx.assetType || (symbol.includes('/') ? 'crypto' : 'stock'),
+        quantity: 0,
+        totalCost: 0,
+        lots: []
+      };
+      positions.set(symbol, position);
+    }
+
+    position.quantity += tx.quantity!;
+    position.totalCost += cost;
+    position.lots.push({
+      transactionId: String(tx._id),
+      quantity: tx.quantity!,
+      costPerUnit: cost / tx.quantity!,
+      acquiredAt: new Date(tx.executedAt)
+    });
+  }
+
+  // Remove quantity from a position's lots and return what was taken from each
+  private closeLots(
+    positions: Map<string, DerivedPosition>,
+    tx: LedgerEntry,
+    quantity: number,
+    method: CostBasisMethod,
+    isSale: boolean = true
+  ): { lot: DerivedLot; quantity: number }[] {
+    const symbol = tx.symbol!.toUpperCase();
+    const position = positions.get(symbol);
+    const held = position?.quantity || 0;
+    const when = new Date(tx.executedAt).toISOString();
+
+    if (!position || quantity - held > QUANTITY_EPSILON) {
+      throw new LedgerError(
+        `Insufficient ${symbol} on ${when}: ${isSale ? 'selling' : 'removing'} ${quantity} but only ${held} held`
+      );
+    }
+
+    const requests = tx.lotSelections && tx.lotSelections.length > 0
+      ? this.getSelectedLots(position, tx, quantity)
+      : this.orderLots(position.lots, method).map(lot => ({ lot, quantity: lot.quantity }));
+
+    const closed: { lot: DerivedLot; quantity: number }[] = [];
+    let remaining = quantity;
+    for (const request of requests) {
+      if (remaining <= QUANTITY_EPSILON) break;
+      const taken = Math.min(request.quantity, request.lot.quantity, remaining);
+      if (taken <= 0) continue;
+
+      request.lot.quantity -= taken;
+      remaining -= taken;
+      closed.push({ lot: request.lot, quantity: taken });
+    }
+
+    position.lots = position.lots.filter(lot => lot.quantity > QUANTITY_EPSILON);
+    position.quantity = position.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    position.totalCost = position.lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerUnit, 0);
+    return closed;
+  }
+
+  // Without explicit selections the 'specific' method falls back to FIFO
+  private orderLots(lots: DerivedLot[], method: CostBasisMethod): DerivedLot[] {
+    switch (method) {
+      case 'lifo':
+        return [...lots].reverse();
+      case 'hifo':
+        return [...lots].sort((a, b) => b.costPerUnit - a.costPerUnit);
+      default:
+        return lots;
+    }
+  }
+
+  private getSelectedLots(
+    position: DerivedPosition,
+    tx: LedgerEntry,
+    quantity: number
+  ): { lot: DerivedLot; quantity: number }[] {
+    const selections = tx.lotSelections!;
+    const selected = selections.reduce((sum, selection) => sum + selection.quantity, 0);
+    if (Math.abs(selected - quantity) > QUANTITY_EPSILON) {
+      throw new LedgerError(`Selected lots add up to ${selected} ${position.symbol} but the transaction is for ${quantity}`);
+    }
+
+    return selections.map(selection => {
+      const lot = position.lots.find(candidate => candidate.transactionId === String(selection.transactionId));
+      if (!lot || selection.quantity - lot.quantity > QUANTITY_EPSILON) {
+        throw new LedgerError(
+          `Lot ${selection.transactionId} has only ${lot?.quantity || 0} ${position.symbol} open on ${new Date(tx.executedAt).toISOString()}`
+        );
+      }
+      return { lot, quantity: selection.quantity };
+    });
+  }
+
+  // Long-term once the lot has been held for more than one year
+  private getHoldingTerm(acquiredAt: Date, disposedAt: Date): 'short' | 'long' {
+    const oneYearLater = new Date(acquiredAt);
+    oneYearLater.setUTCFullYear(oneYearLater.getUTCFullYear() + 1);
+    return disposedAt.getTime() > oneYearLater.getTime() ? 'long' : 'short';
+  }
+}
@@ -0,0 +1,123 @@
+import { MarketCalendarService } from './MarketCalendarService';
+import { MarketDataService } from './MarketDataService';
+import { MarketClock, TradingDayInfo } from './providers/MarketDataProvider';
+import { addDays, dayOfWeek } from './marketTime';
+
+// The week of July 4th 2024: a half day on Wednesday the 3rd, the holiday on Thursday,
+// a weekend from the 6th. New York is on UTC-4.
+const at = (iso: string) => new Date(iso);
+
+// Every weekday in the range trades a full session unless `overrides` says otherwise
+const providerCalendar = (overrides: Record<string, Partial<TradingDayInfo> | null>) =>
+  async (start: string, end: string): Promise<TradingDayInfo[]> => {
+    const days: TradingDayInfo[] = [];
+    for (let date = start; date <= end; date = addDays(date, 1)) {
+      const weekday = dayOfWeek(date);
+      if (weekday === 0 || weekday === 6 || overrides[date] === null) continue;
+      days.push({ date, open: '09:30', close: '16:00', sessionOpen: '04:00', sessionClose: '20:00', ...overrides[date] });
+    }
+    return days;
+  };
+
+const createService = (
+  getCalendar: (start: string, end: string) => Promise<TradingDayInfo[]> = async () => [],
+  clock: MarketClock | null = null
+) => {
+  const marketData = { getCalendar: jest.fn(getCalendar), getClock: jest.fn(async () => clock) };
+  return new MarketCalendarService(marketData as unknown as MarketDataService);
+};
+
+describe('MarketCalendarService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(at('2024-07-01T12:00:00Z'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('without a provider calendar', () => {
+    it('closes for a holiday and names it', () => {
+      const calendar = createService();
+
+      expect(calendar.getDay('2024-07-04')).toMatchObject({ isOpen: false, holiday: 'Independence Day', source: 'bundled' });
+      expect(calendar.getStatus(at('2024-07-04T15:00:00Z'))).toMatchObject({
+        phase: 'closed',
+        isOpen: false,
+        holiday: 'Independence Day',
+        session: null,
+        nextOpen: '2024-07-05T13:30:00.000Z',
+        nextPhaseChange: '2024-07-05T08:00:00.000Z'
+      });
+    });
+
+    it('ends a half day\'s regular and extended sessions early', () => {
+      const calendar = createService();
+
+      expect(calendar.getDay('2024-07-03')).toMatchObject({ isOpen: true, close: '13:00', sessionClose: '17:00', earlyClose: true });
+      expect(calendar.getStatus(at('2024-07-03T16:59:00Z')).phase).toBe('regular');
+      expect(calendar.getStatus(at('2024-07-03T17:30:00Z'))).toMatchObject({
+        phase: 'after',
+        nextPhaseChange: '2024-07-03T21:00:00.000Z'
+      });
+      expect(calendar.isEquityTradingActive(at('2024-07-03T21:00:00Z'))).toBe(false);
+    });
+
+    it('stays closed over a weekend until Monday\'s pre-market', () => {
+      const calendar = createService();
+      const status = calendar.getStatus(at('2024-07-06T16:00:00Z'));
+
+      expect(status).toMatchObject({ phase: 'closed', session: null, nextOpen: '2024-07-08T13:30:00.000Z' });
+      expect(status.holiday).toBeUndefined();
+      expect(calendar.isEquityTradingActive(at('2024-07-07T16:00:00Z'))).toBe(false);
+      expect(calendar.isEquityTradingActive(at('2024-07-08T08:00:00Z'))).toBe(true);
+    });
+  });
+
+  describe('with a provider calendar', () => {
+    it('takes holidays, half days and unscheduled closures from the provider', async () => {
+      const calendar = createService(providerCalendar({
+        '2024-07-03': { close: '13:00', sessionClose: '17:00' },
+        '2024-07-04': null,
+        '2024-07-05': null // Not a holiday in the bundled rules
+      }));
+      await calendar.sync();
+
+      expect(calendar.getDay('2024-07-03')).toMatchObject({ isOpen: true, close: '13:00', earlyClose: true, source: 'provider' });
+      expect(calendar.getDay('2024-07-04')).toMatchObject({ isOpen: false, holiday: 'Independence Day', source: 'provider' });
+      expect(calendar.getDay('2024-07-05')).toMatchObject({ isOpen: false, holiday: 'Market holiday', source: 'provider' });
+      expect(calendar.getStatus(at('2024-07-04T15:00:00Z')).nextOpen).toBe('2024-07-08T13:30:00.000Z');
+    });
+
+    it('keeps weekends closed and falls back to the bundled rules past the synced range', async () => {
+      const calendar = createService(providerCalendar({}));
+      await calendar.sync();
+
+      expect(calendar.getDay('2024-07-06')).toMatchObject({ isOpen: false, source: 'bundled' });
+      expect(calendar.getStatus(at('2024-07-06T16:00:00Z')).phase).toBe('closed');
+      expect(calendar.getDay('2026-07-03')).toMatchObject({ isOpen: false, holiday: 'Independence Day', source: 'bundled' });
+    });
+
+    it('follows the provider clock over the calendar while the clock is current', async () => {
+      const calendar = createService(providerCalendar({}), {
+        timestamp: at('2024-07-01T15:00:00Z'),
+        isOpen: false,
+        nextOpen: at('2024-07-02T13:30:00Z'),
+        nextClose: at('2024-07-02T20:00:00Z')
+      });
+      await calendar.sync();
+      jest.setSystemTime(at('2024-07-01T15:00:00Z'));
+      await calendar.refreshClock();
+
+      expect(calendar.getStatus(at('2024-07-01T15:01:00Z'))).toMatchObject({
+        phase: 'closed',
+        nextOpen: '2024-07-02T13:30:00.000Z'
+      });
+      // Two minutes on, the clock is too old to overrule the calendar
+      expect(calendar.getStatus(at('2024-07-01T15:02:00Z')).phase).toBe('regular');
+    });
+  });
+});
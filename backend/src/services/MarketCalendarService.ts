@@ -0,0 +1,342 @@
+import mongoose from 'mongoose';
+import { MarketCalendarDay, IMarketCalendarDay } from '../models/MarketCalendarDay';
+import { MarketDataService } from './MarketDataService';
+import { MarketClock } from './providers/MarketDataProvider';
+import { findMarketClosure, getMarketClosures } from './marketHolidays';
+import { MARKET_TIME_ZONE, addDays, dayOfWeek, newYorkTimeToDate, toNewYork } from './marketTime';
+
+export type MarketPhase = 'pre' | 'regular' | 'after' | 'closed';
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  isOpen: boolean;
+  holiday?: string; // Weekday closures only; weekends are closed without a name
+  open?: string; // New York HH:MM
+  close?: string;
+  sessionOpen?: string;
+  sessionClose?: string;
+  earlyClose: boolean;
+  source: 'provider' | 'bundled';
+}
+
+// A trading day's session boundaries as instants
+export interface MarketSession {
+  date: string;
+  preMarketOpen: string;
+  open: string;
+  close: string;
+  afterHoursClose: string;
+  earlyClose: boolean;
+}
+
+export interface MarketStatus {
+  phase: MarketPhase;
+  isOpen: boolean; // Regular session
+  timezone: string;
+  currentTime: string;
+  session: MarketSession | null; // Today's, when the market trades today
+  holiday?: string; // Why the market is closed today, on a weekday
+  nextOpen: string | null; // Next regular session open
+  nextClose: string | null; // End of the current or next regular session
+  nextPhaseChange: string | null;
+  source: CalendarDay['source'];
+}
+
+const REGULAR_OPEN = '09:30';
+const REGULAR_CLOSE = '16:00';
+const PRE_MARKET_OPEN = '04:00';
+const AFTER_HOURS_CLOSE = '20:00';
+const EARLY_AFTER_HOURS_CLOSE = '17:00';
+
+const LOOKBACK_DAYS = 7;
+const LOOKAHEAD_DAYS = 366;
+const CLOCK_MAX_AGE_MS = 2 * 60 * 1000;
+
+const optionalFields = ['holiday', 'open', 'close', 'sessionOpen', 'sessionClose'];
+
+const isWeekend = (date: string): boolean => {
+  const weekday = dayOfWeek(date);
+  return weekday === 0 || weekday === 6;
+};
+
+// The day as the bundled rules have it, for dates the provider hasn't told us about
+const bundledDay = (date: string): CalendarDay => {
+  if (isWeekend(date)) return { date, isOpen: false, earlyClose: false, source: 'bundled' };
+
+  const closure = findMarketClosure(date);
+  if (closure?.kind === 'holiday') {
+    return { date, isOpen: false, holiday: closure.name, earlyClose: false, source: 'bundled' };
+  }
+  return {
+    date,
+    isOpen: true,
+    open: REGULAR_OPEN,
+    close: closure?.close || REGULAR_CLOSE,
+    sessionOpen: PRE_MARKET_OPEN,
+    sessionClose: closure?.kind === 'earlyClose' ? EARLY_AFTER_HOURS_CLOSE : AFTER_HOURS_CLOSE,
+    earlyClose: closure?.kind === 'earlyClose',
+    source: 'bundled'
+  };
+};
+
+const fromDocument = (doc: IMarketCalendarDay): CalendarDay => ({
+  date: doc.date,
+  isOpen: doc.isOpen,
+  holiday: doc.holiday,
+  open: doc.open,
+  close: doc.close,
+  sessionOpen: doc.sessionOpen,
+  sessionClose: doc.sessionClose,
+  earlyClose: doc.earlyClose,
+  source: 'provider'
+});
+
+/**
+ * The US equity trading calendar: which days trade, their regular and
+ * extended session times, holidays and early closes.
+ *
+ * Days come from the provider's calendar, synced daily for the year ahead and
+ * stored in MongoDB so a restart without network still has them. Any day
+ * outside what has been synced falls back to the bundled NYSE rules. The
+ * provider's clock is polled every minute and overrides the calendar on
+ * whether the regular session is open, which covers unscheduled closures.
+ */
+export class MarketCalendarService {
+  private marketDataService: MarketDataService;
+  private days: Map<string, CalendarDay> = new Map();
+  private clock?: { value: MarketClock; fetchedAt: number };
+  private clockTimer?: NodeJS.Timeout;
+  private syncTimer?: NodeJS.Timeout;
+  private clockInterval: number = 60 * 1000;
+  private syncInterval: number = 24 * 60 * 60 * 1000;
+
+  constructor(marketDataService: MarketDataService) {
+    this.marketDataService = marketDataService;
+  }
+
+  async start(): Promise<void> {
+    this.clockTimer = setInterval(() => {
+      this.refreshClock().catch(error => console.warn('⚠️ Market clock unavailable:', error.message));
+    }, this.clockInterval);
+    this.syncTimer = setInterval(() => {
+      this.sync().catch(error => console.warn('⚠️ Market calendar sync failed:', error.message));
+    }, this.syncInterval);
+
+    if (this.isDatabaseAvailable()) {
+      await this.load();
+    } else {
+      mongoose.connection.once('connected', () => {
+        this.load().catch(error => console.warn('⚠️ Market calendar load failed:', error.message));
+      });
+    }
+
+    await Promise.all([
+      this.sync().catch(error => console.warn('⚠️ Market calendar sync failed, using the bundled calendar:', error.message)),
+      this.refreshClock().catch(error => console.warn('⚠️ Market clock unavailable:', error.message))
+    ]);
+  }
+
+  stop(): void {
+    if (this.clockTimer) {
+      clearInterval(this.clockTimer);
+      this.clockTimer = undefined;
+    }
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = undefined;
+    }
+  }
+
+  async load(): Promise<void> {
+    const from = addDays(toNewYork(Date.now()).date, -LOOKBACK_DAYS);
+    const docs = await MarketCalendarDay.find({ date: { $gte: from } });
+    docs.forEach(doc => {
+      // Fresher provider days from a sync that beat the database connection win
+      if (!this.days.has(doc.date)) this.days.set(doc.date, fromDocument(doc));
+    });
+    console.log(`📅 Loaded ${docs.length} market calendar days`);
+  }
+
+  async sync(): Promise<number> {
+    const today = toNewYork(Date.now()).date;
+    const start = addDays(today, -LOOKBACK_DAYS);
+    const end = addDays(today, LOOKAHEAD_DAYS);
+
+    const tradingDays = await this.marketDataService.getCalendar(start, end);
+    if (tradingDays.length === 0) return 0; // The provider has no calendar; the bundled one stays in use
+
+    const byDate = new Map(tradingDays.map(day => [day.date, day]));
+    const synced: CalendarDay[] = [];
+    for (let date = start; date <= end; date = addDays(date, 1)) {
+      if (isWeekend(date)) continue;
+
+      const day = byDate.get(date);
+      synced.push(day
+        ? {
+            date,
+            isOpen: true,
+            open: day.open,
+            close: day.close,
+            sessionOpen: day.sessionOpen,
+            sessionClose: day.sessionClose,
+            earlyClose: day.close < REGULAR_CLOSE,
+            source: 'provider'
+          }
+        // A weekday missing from the provider's calendar is a closure
+        : { date, isOpen: false, holiday: findMarketClosure(date)?.name || 'Market holiday', earlyClose: false, source: 'provider' });
+    }
+
+    synced.forEach(day => this.days.set(day.date, day));
+    if (this.isDatabaseAvailable()) {
+      await this.persist(synced);
+    }
+
+    console.log(`📅 Synced ${tradingDays.length} trading days (${start} to ${end})`);
+    return tradingDays.length;
+  }
+
+  async refreshClock(): Promise<void> {
+    const clock = await this.marketDataService.getClock();
+    if (clock) {
+      this.clock = { value: clock, fetchedAt: Date.now() };
+    }
+  }
+
+  getDay(date: string): CalendarDay {
+    return this.days.get(date) || bundledDay(date);
+  }
+
+  getCalendar(start: string, end: string): CalendarDay[] {
+    const days: CalendarDay[] = [];
+    for (let date = start; date <= end; date = addDays(date, 1)) {
+      days.push(this.getDay(date));
+    }
+    return days;
+  }
+
+  // Holidays and early closes of a year, named from the bundled rules
+  getClosures(year: number): { date: string; name: string; kind: 'holiday' | 'earlyClose'; close?: string }[] {
+    return getMarketClosures(year).map(closure => {
+      const day = this.getDay(closure.date);
+      return day.isOpen ? { ...closure, close: day.close } : closure;
+    });
+  }
+
+  getStatus(now: Date = new Date()): MarketStatus {
+    const timestamp = now.getTime();
+    const today = this.getDay(toNewYork(timestamp).date);
+    const session = this.getSession(today);
+
+    let phase: MarketPhase = 'closed';
+    let nextPhaseChange: Date | null = null;
+    if (session) {
+      const boundaries: [MarketPhase, Date][] = [
+        ['pre', new Date(session.preMarketOpen)],
+        ['regular', new Date(session.open)],
+        ['after', new Date(session.close)],
+        ['closed', new Date(session.afterHoursClose)]
+      ];
+      for (const [boundaryPhase, at] of boundaries) {
+        if (timestamp >= at.getTime()) phase = boundaryPhase;
+        else if (!nextPhaseChange) nextPhaseChange = at;
+      }
+    }
+
+    let nextOpen = this.findNextOpen(timestamp);
+    let nextClose = phase === 'regular' && session ? new Date(session.close) : this.findNextClose(timestamp);
+
+    // The provider's clock knows about closures no calendar had scheduled, until its own next change is due
+    const clock = this.clock && timestamp - this.clock.fetchedAt < CLOCK_MAX_AGE_MS ? this.clock.value : undefined;
+    const clockCurrent = clock && timestamp < (clock.isOpen ? clock.nextClose : clock.nextOpen).getTime();
+    if (clock && clockCurrent && clock.isOpen !== (phase === 'regular')) {
+      phase = clock.isOpen ? 'regular' : 'closed';
+      nextOpen = clock.nextOpen;
+      nextClose = clock.nextClose;
+      nextPhaseChange = clock.isOpen ? clock.nextClose : clock.nextOpen;
+    }
+    const isOpen = phase === 'regular';
+
+    return {
+      phase,
+      isOpen,
+      timezone: MARKET_TIME_ZONE,
+      currentTime: now.toISOString(),
+      session,
+      holiday: today.holiday,
+      nextOpen: isOpen ? null : nextOpen?.toISOString() || null,
+      nextClose: nextClose?.toISOString() || null,
+      nextPhaseChange: nextPhaseChange?.toISOString() || this.findNextPreMarket(timestamp)?.toISOString() || null,
+      source: today.source
+    };
+  }
+
+  // Whether US equity quotes can move: any session, regular or extended
+  isEquityTradingActive(now: Date = new Date()): boolean {
+    return this.getStatus(now).phase !== 'closed';
+  }
+
+  private getSession(day: CalendarDay): MarketSession | null {
+    if (!day.isOpen || !day.open || !day.close) return null;
+
+    return {
+      date: day.date,
+      preMarketOpen: newYorkTimeToDate(day.date, day.sessionOpen || PRE_MARKET_OPEN).toISOString(),
+      open: newYorkTimeToDate(day.date, day.open).toISOString(),
+      close: newYorkTimeToDate(day.date, day.close).toISOString(),
+      afterHoursClose: newYorkTimeToDate(day.date, day.sessionClose || AFTER_HOURS_CLOSE).toISOString(),
+      earlyClose: day.earlyClose
+    };
+  }
+
+  // First session boundary of the given kind after `timestamp`, within the next few weeks
+  private findNext(timestamp: number, boundary: keyof Pick<MarketSession, 'preMarketOpen' | 'open' | 'close'>): Date | null {
+    const start = toNewYork(timestamp).date;
+    for (let offset = 0; offset < 21; offset++) {
+      const session = this.getSession(this.getDay(addDays(start, offset)));
+      if (session && new Date(session[boundary]).getTime() > timestamp) {
+        return new Date(session[boundary]);
+      }
+    }
+    return null;
+  }
+
+  private findNextOpen(timestamp: number): Date | null {
+    return this.findNext(timestamp, 'open');
+  }
+
+  private findNextClose(timestamp: number): Date | null {
+    return this.findNext(timestamp, 'close');
+  }
+
+  private findNextPreMarket(timestamp: number): Date | null {
+    return this.findNext(timestamp, 'preMarketOpen');
+  }
+
+  private async persist(days: CalendarDay[]): Promise<void> {
+    const syncedAt = new Date();
+    await MarketCalendarDay.bulkWrite(days.map(({ source, ...day }) => {
+      // A day can turn from trading to closed or back, so fields it no longer has are removed
+      const $set: Record<string, unknown> = { syncedAt };
+      const $unset: Record<string, ''> = {};
+      Object.entries(day).forEach(([field, value]) => {
+        if (value === undefined) $unset[field] = '';
+        else $set[field] = value;
+      });
+      optionalFields.forEach(field => {
+        if (!(field in $set)) $unset[field] = '';
+      });
+
+      return {
+        updateOne: {
+          filter: { date: day.date },
+          update: Object.keys($unset).length > 0 ? { $set, $unset } : { $set },
+          upsert: true
+        }
+      };
+    }), { ordered: false });
+  }
+
+  private isDatabaseAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+}
@@ -0,0 +1,96 @@
+import { CacheService } from './CacheService';
+import { MarketDataService, MarketData } from './MarketDataService';
+import { MarketDataProvider } from './providers/MarketDataProvider';
+
+const quote = (symbol: string, price: number, volume: number = 1000): MarketData => ({
+  symbol,
+  price,
+  change: 0,
+  changePercent: 0,
+  volume,
+  high: price,
+  low: price,
+  open: price,
+  previousClose: price,
+  changeBaseline: 'prevClose',
+  baselines: { prevClose: price },
+  timestamp: new Date()
+});
+
+// Quotes come from `quotes` on every poll; seeding bars never arrive, so the session stats follow the quotes alone
+const createService = () => {
+  const quotes: Map<string, MarketData> = new Map();
+  const provider = {
+    name: 'replay',
+    connect: jest.fn().mockResolvedValue(undefined),
+    disconnect: jest.fn().mockResolvedValue(undefined),
+    subscribe: jest.fn(),
+    unsubscribe: jest.fn(),
+    getBars: () => new Promise(() => undefined),
+    getQuotes: jest.fn(async (symbols: string[]) =>
+      new Map(symbols.filter(symbol => quotes.has(symbol)).map(symbol => [symbol, { ...quotes.get(symbol)!, timestamp: new Date() }]))
+    )
+  };
+  const cache = {
+    get: () => null,
+    set: () => undefined,
+    getMarketData: jest.fn().mockResolvedValue(null),
+    setMarketData: jest.fn().mockResolvedValue(undefined)
+  };
+  const service = new MarketDataService(cache as unknown as CacheService, provider as unknown as MarketDataProvider);
+  const updates: MarketData[] = [];
+  service.onPriceUpdate(data => updates.push(data));
+
+  return { service, provider, quotes, updates };
+};
+
+describe('MarketDataService price fan-out', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('sends a quote once and stays quiet until it changes', async () => {
+    const { service, provider, quotes, updates } = createService();
+    quotes.set('AAPL', quote('AAPL', 100));
+    service.subscribeToSymbol('AAPL', 'socket:a');
+
+    await service.startStreaming();
+    await jest.advanceTimersByTimeAsync(10000); // Two more polls of the same quote
+
+    expect(provider.getQuotes).toHaveBeenCalledTimes(3);
+    expect(updates.map(update => update.price)).toEqual([100]);
+
+    quotes.set('AAPL', quote('AAPL', 101));
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(updates.map(update => update.price)).toEqual([100, 101]);
+    await service.stopStreaming();
+  });
+
+  it('numbers each symbol\'s updates one by one', async () => {
+    const { service, quotes, updates } = createService();
+    quotes.set('AAPL', quote('AAPL', 100));
+    quotes.set('MSFT', quote('MSFT', 300));
+    service.subscribeToSymbol('AAPL', 'socket:a');
+    service.subscribeToSymbol('MSFT', 'socket:a');
+
+    await service.startStreaming();
+    quotes.set('AAPL', quote('AAPL', 101));
+    await jest.advanceTimersByTimeAsync(5000);
+    quotes.set('AAPL', quote('AAPL', 102));
+    await jest.advanceTimersByTimeAsync(5000);
+
+    const sequences = (symbol: string) => updates.filter(update => update.symbol === symbol).map(update => update.sequence);
+    expect(sequences('AAPL')).toEqual([1, 2, 3]);
+    expect(sequences('MSFT')).toEqual([1]);
+    expect(service.getLatestUpdate('AAPL')).toMatchObject({ price: 102, sequence: 3 });
+    await service.stopStreaming();
+  });
+});
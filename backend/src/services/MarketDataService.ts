@@ -1,17 +1,32 @@
-import axios from 'axios';
-import https from 'https';
-import WebSocket from 'ws';
 import { CacheService } from './CacheService';
-
-// Ultra-optimized HTTP agent for maximum frequency calls
-const httpAgent = new https.Agent({
-  keepAlive: true,
-  keepAliveMsecs: 500, // Faster keep-alive
-  maxSockets: 100, // Higher concurrent connections for frequent updates
-  maxFreeSockets: 20, // More free sockets for rapid reuse
-  timeout: 1500, // Faster timeout for high-frequency calls
-  scheduling: 'fifo' // First-in-first-out for predictable performance
-});
+import {
+  MarketDataProvider,
+  StreamTrade,
+  StreamBar,
+  Bar,
+  BarAdjustment,
+  BarFeed,
+  AssetInfo,
+  MarketClock,
+  TradingDayInfo,
+  StreamStatus,
+  RequestPriority
+} from './providers/MarketDataProvider';
+import { RateLimitError, RateLimiterMetrics } from './providers/RestRateLimiter';
+import { createMarketDataProvider } from './providers/createMarketDataProvider';
+import { SubscriptionManager, SubscriptionSummary } from './SubscriptionManager';
+import { SessionStatsEngine, withChangeBaseline } from './SessionStatsEngine';
+import { BarHistoryService } from './BarHistoryService';
+import { PollScheduler, PollPlanEntry, PollScheduleSummary } from './PollScheduler';
+import type { AssetCatalogService } from './AssetCatalogService';
+import type { MarketCalendarService } from './MarketCalendarService';
+import { seedAssets } from './assetSeed';
+import { parseTimeframe, defaultLookbackMs, isCalendarTimeframe, aggregateBars } from './timeframes';
+
+// Reference price for change/changePercent: price one minute ago, 24 hours ago,
+// at today's session open, or the previous session's close
+export type ChangeBaseline = '1m' | '24h' | 'open' | 'prevClose';
+export const changeBaselines: ChangeBaseline[] = ['1m', '24h', 'open', 'prevClose'];
 
 export interface MarketData {
   symbol: string;
@@ -23,7 +38,11 @@ export interface MarketData {
   low: number;
   open: number;
   previousClose: number;
+  changeBaseline: ChangeBaseline; // What change/changePercent are measured against
+  baselines?: Partial<Record<ChangeBaseline, number>>; // Every reference price known, so clients can re-base
   marketCap?: number;
+  sequence?: number; // Per-symbol count of fanned-out updates, so clients can spot ones they missed
+  simulated?: boolean; // Made up by generateSimulatedData, not a real quote
   timestamp: Date;
 }
 
@@ -40,658 +59,367 @@ export interface CandlestickData {
   }[];
 }
 
+export interface BarOptions {
+  adjustment?: BarAdjustment;
+  feed?: BarFeed;
+}
+
+// Polls made at one request priority; ticks with nothing due aren't counted
+export interface PollTierMetrics {
+  cycles: number;
+  averageMs: number;
+  maxMs: number;
+  last?: { at: string; requested: number; updated: number; durationMs: number };
+}
+
+const POLL_TICK_MS = 1000;
+const CACHE_REFRESH_MS = 30000; // Half the cache's one-minute TTL
+
+// What a client displays; the timestamp alone moving is not a change worth sending
+const hasQuoteChanged = (previous: MarketData, next: MarketData): boolean =>
+  previous.price !== next.price ||
+  previous.volume !== next.volume ||
+  previous.high !== next.high ||
+  previous.low !== next.low ||
+  previous.open !== next.open ||
+  previous.previousClose !== next.previousClose ||
+  previous.change !== next.change ||
+  previous.changeBaseline !== next.changeBaseline ||
+  previous.simulated !== next.simulated ||
+  changeBaselines.some(baseline => previous.baselines?.[baseline] !== next.baselines?.[baseline]);
+
+// Daily bars fetched per weekly/monthly bar requested, enough for crypto's seven-day weeks
+const calendarDaysPerBar: Record<string, number> = {
+  '1Week': 7,
+  '1Month': 31
+};
+
 export class MarketDataService {
-  private alpacaApiKey: string;
-  private alpacaSecret: string;
-  private alpacaBaseUrl: string;
-  private alpacaDataBaseUrl: string;
-  private cryptoWs?: WebSocket;
-  private stockWs?: WebSocket;
+  private provider: MarketDataProvider;
   private cacheService: CacheService;
-  private subscribedSymbols: Set<string> = new Set();
+  private subscriptions: SubscriptionManager;
+  private sessionStats: SessionStatsEngine;
+  private barHistory?: BarHistoryService;
+  private assetCatalog?: AssetCatalogService;
+  private marketCalendar?: MarketCalendarService;
   private priceUpdateCallbacks: ((data: MarketData) => void)[] = [];
-  private requestQueue: string[] = [];
-  private isProcessingQueue: boolean = false;
-  private lastRequestTime: number = 0;
-  private requestCount: number = 0;
-  private rateLimitWindow: number = 60000; // 1 minute window
-  private maxRequestsPerWindow: number = 300; // Balanced limit for 39 symbols
-
-  constructor(cacheService: CacheService) {
-    this.alpacaApiKey = process.env.ALPACA_API_KEY || '';
-    this.alpacaSecret = process.env.ALPACA_SECRET_KEY || '';
-  this.alpacaBaseUrl = process.env.ALPACA_BASE_URL || 'https://paper-api.alpaca.markets';
-  this.alpacaDataBaseUrl = process.env.ALPACA_DATA_URL || 'https://data.alpaca.markets';
+  private tradeCallbacks: ((trade: StreamTrade) => void)[] = [];
+  private barCallbacks: ((bar: StreamBar) => void)[] = [];
+  private published: Map<string, MarketData> = new Map(); // Last update fanned out per symbol
+  private cachedAt: Map<string, number> = new Map();
+  private pollScheduler: PollScheduler = new PollScheduler();
+  private pollPlan: PollPlanEntry[] = [];
+  private pollTimer?: NodeJS.Timeout;
+  private pollStats: Map<string, { cycles: number; totalMs: number; maxMs: number; last?: PollTierMetrics['last'] }> = new Map();
+
+  constructor(cacheService: CacheService, provider?: MarketDataProvider) {
     this.cacheService = cacheService;
-
-    if (!this.alpacaApiKey || !this.alpacaSecret) {
-      throw new Error('Alpaca API credentials are required. Mock data has been removed.');
+    this.provider = provider || createMarketDataProvider();
+    this.subscriptions = new SubscriptionManager(this.provider);
+    this.sessionStats = new SessionStatsEngine(
+      this.provider,
+      process.env.CRYPTO_SESSION_MODE === 'rolling24h' ? 'rolling24h' : 'utc'
+    );
+    // Replayed recordings must not end up in the stored history of real markets
+    if (this.provider.name !== 'replay') {
+      this.barHistory = new BarHistoryService(this.provider);
     }
-    console.log('✅ Alpaca API credentials loaded successfully. Using real-time data only.');
+    console.log(`📡 Market data provider: ${this.provider.name}`);
+  }
+
+  getBarHistory(): BarHistoryService | undefined {
+    return this.barHistory;
+  }
+
+  // Set after construction because the catalog lists assets through this service
+  setAssetCatalog(catalog: AssetCatalogService): void {
+    this.assetCatalog = catalog;
+  }
+
+  // Without a calendar every symbol is polled around the clock
+  setMarketCalendar(calendar: MarketCalendarService): void {
+    this.marketCalendar = calendar;
+  }
+
+  async listAssets(): Promise<AssetInfo[]> {
+    return this.provider.listAssets();
+  }
+
+  async getClock(): Promise<MarketClock | null> {
+    return this.provider.getClock();
+  }
+
+  async getCalendar(start: string, end: string): Promise<TradingDayInfo[]> {
+    return this.provider.getCalendar(start, end);
   }
 
   async startStreaming(): Promise<void> {
     try {
-      await this.initializeAlpacaStreaming();
-      console.log('✅ Real-time Alpaca market data streaming started');
+      await this.provider.connect({
+        onTrade: (trade) => this.handleStreamTrade(trade),
+        onBar: (bar) => this.notify(this.barCallbacks, bar)
+      });
+      console.log(`✅ Real-time ${this.provider.name} market data streaming started`);
       
       // Also start periodic REST API polling as backup for real-time data
       await this.startPeriodicDataFetch();
     } catch (error) {
-      console.error('❌ Failed to start Alpaca market data streaming:', error);
+      console.error(`❌ Failed to start ${this.provider.name} market data streaming:`, error);
       throw error;
     }
   }
 
   async stopStreaming(): Promise<void> {
-    if (this.stockWs) {
-      this.stockWs.close();
-    }
-    if (this.cryptoWs) {
-      this.cryptoWs.close();
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
     }
+    await this.provider.disconnect();
     console.log('Market data streaming stopped');
   }
 
-  private async startPeriodicDataFetch(): Promise<void> {
-    console.log('🔄 Starting periodic data fetch for real-time updates...');
-    
-    // Categorized symbols for organized display
-    const symbolCategories = {
-      STOCKS: {
-        'Tech Giants': ['AAPL', 'GOOGL', 'MSFT', 'META', 'NVDA', 'AMD'],
-        'Growth & Media': ['TSLA', 'AMZN', 'NFLX', 'DIS', 'PYPL', 'ADBE'],
-        'Enterprise': ['CRM', 'ORCL', 'INTC', 'IBM'],
-        'Financial': ['JPM', 'BAC', 'GS', 'MS', 'WFC', 'V', 'MA']
-      },
-      INDICES: {
-        'Major ETFs': ['SPY', 'QQQ', 'IWM'],
-        'Broad Market': ['VTI', 'VOO', 'VEA', 'VWO']
-      },
-      CRYPTO: {
-        'Major': ['BTC/USD', 'ETH/USD'],
-        'Altcoins': ['LTC/USD', 'BCH/USD', 'LINK/USD', 'UNI/USD'],
-        'DeFi': ['AAVE/USD', 'ALGO/USD', 'DOT/USD', 'DOGE/USD']
-      },
-      FOREX: {
-        'Major Pairs': ['EUR/USD', 'GBP/USD', 'USD/JPY', 'USD/CHF'],
-        'Commodity Pairs': ['AUD/USD', 'USD/CAD', 'NZD/USD'],
-        'Cross Pairs': ['EUR/GBP', 'EUR/JPY', 'GBP/JPY']
-      }
+  getStreamStatus(): { provider: string; connections: StreamStatus[]; subscriptions: SubscriptionSummary } {
+    return {
+      provider: this.provider.name,
+      connections: this.provider.getStreamStatus(),
+      subscriptions: this.subscriptions.getSummary()
     };
+  }
+
+  private async startPeriodicDataFetch(): Promise<void> {
+    console.log('🔄 Starting demand-driven polling as backup for real-time data...');
     
-    // Flatten all symbols for processing
-    const allSymbols = Object.values(symbolCategories)
-      .flatMap(category => Object.values(category))
-      .flat();
-    
-    // Ultra-optimized tiered frequency system for maximum real-time performance
-    const highPrioritySymbols = ['SPY', 'QQQ', 'BTC/USD', 'ETH/USD', 'AAPL', 'GOOGL', 'MSFT', 'TSLA', 'NVDA'];
-    const mediumPrioritySymbols = ['META', 'AMZN', 'NFLX', 'AMD', 'JPM', 'V', 'LTC/USD', 'BCH/USD'];
-    const lowPrioritySymbols = allSymbols.filter(s => 
-      !highPrioritySymbols.includes(s) && !mediumPrioritySymbols.includes(s)
-    );
-    
-    console.log(`🚀 Tiered frequency system initialized:`);
-    console.log(`⚡ High Priority (5s): ${highPrioritySymbols.length} symbols`);
-    console.log(`� Medium Priority (10s): ${mediumPrioritySymbols.length} symbols`);
-    console.log(`📊 Low Priority (20s): ${lowPrioritySymbols.length} symbols`);
-    console.log(``);
     console.log(`📋 Data Source Information:`);
     console.log(`✅ Live Data: Stocks, Major Crypto (BTC/USD, ETH/USD)`);
     console.log(`🎭 Simulated Data: FOREX, Some ETFs, Altcoins (Paper Trading Limitations)`);
     console.log(`💡 Note: Upgrade to live trading account for full market data access`);
     console.log(``);
     
-    // High priority symbols - every 5 seconds (most active/important)
-    setInterval(async () => {
-      await this.updateSymbolBatch(highPrioritySymbols, 'HIGH_PRIORITY', 15000); // 15s cache
-    }, 5000);
-    
-    // Medium priority symbols - every 10 seconds
-    setInterval(async () => {
-      await this.updateSymbolBatch(mediumPrioritySymbols, 'MEDIUM_PRIORITY', 25000); // 25s cache
-    }, 10000);
-    
-    // Low priority symbols - every 20 seconds
-    setInterval(async () => {
-      await this.updateSymbolBatch(lowPrioritySymbols, 'LOW_PRIORITY', 45000); // 45s cache
-    }, 20000);
-    
-    // Ultra-fast broadcast cycle - every 2 seconds for immediate UI updates
-    setInterval(async () => {
-      let broadcastCount = 0;
-      const startTime = Date.now();
-      
-      for (const symbol of allSymbols) {
-        const cached = await this.cacheService.getMarketData(symbol);
-        if (cached) {
-          setImmediate(() => this.processMarketData(cached));
-          broadcastCount++;
-        }
-      }
-      
-      const duration = Date.now() - startTime;
-      console.log(`⚡ Ultra-fast broadcast: ${broadcastCount}/${allSymbols.length} symbols (${duration}ms)`);
-    }, 2000); // 2-second broadcast for maximum UI responsiveness
-    
-    // Initial fetch - process all symbols in batches to avoid overwhelming API
-    console.log(`🔄 Initial fetch: Loading all ${allSymbols.length} symbols...`);
-    const initialBatches = [];
-    for (let i = 0; i < allSymbols.length; i += 8) {
-      initialBatches.push(allSymbols.slice(i, i + 8));
-    }
+    // Every tick polls whatever has come due (see PollScheduler); a newly wanted symbol is fetched within a tick
+    this.pollTimer = setInterval(() => {
+      this.pollDueSymbols().catch(error => console.error('❌ Polling failed:', error));
+    }, POLL_TICK_MS);
     
-    let totalFetched = 0;
-    for (let i = 0; i < initialBatches.length; i++) {
-      const batch = initialBatches[i];
-      console.log(`📦 Initial batch ${i + 1}/${initialBatches.length}: [${batch.join(', ')}]`);
-      
-      const batchResults = await Promise.all(batch.map(async (symbol: string) => {
-        try {
-          const data = await this.fetchAlpacaData(symbol);
-          if (data) {
-            await this.cacheService.setMarketData(symbol, data);
-            await this.processMarketData(data);
-            console.log(`✅ Fetched ${symbol}: $${data.price}`);
-            return true;
-          }
-          return false;
-        } catch (error) {
-          console.error(`❌ Failed to fetch initial data for ${symbol}:`, error);
-          return false;
-        }
-      }));
-      
-      // Count successful fetches
-      totalFetched += batchResults.filter(success => success).length;
-      
-      // Add delay between initial batches
-      if (i < initialBatches.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-    }
-    
-    console.log(`🚀 Initial fetch complete: ${totalFetched}/${allSymbols.length} symbols loaded`);
-    
-    // If some symbols failed to load initially, retry them
-    if (totalFetched < allSymbols.length) {
-      console.log(`🔄 Retrying failed symbols in 5 seconds...`);
-      setTimeout(async () => {
-        for (const symbol of allSymbols) {
-          const cached = await this.cacheService.getMarketData(symbol);
-          if (!cached) {
-            console.log(`🔄 Retrying ${symbol}...`);
-            try {
-              const data = await this.fetchAlpacaData(symbol);
-              if (data) {
-                await this.cacheService.setMarketData(symbol, data);
-                await this.processMarketData(data);
-                console.log(`✅ Retry success for ${symbol}: $${data.price}`);
-              }
-            } catch (error) {
-              console.error(`❌ Retry failed for ${symbol}:`, error);
-            }
-          }
-        }
-      }, 5000);
-    }
+    await this.pollDueSymbols();
   }
 
-  private async initializeAlpacaStreaming(): Promise<void> {
-    // Initialize stock data WebSocket
-    const stockWsUrl = 'wss://stream.data.alpaca.markets/v2/iex';
-    this.stockWs = new WebSocket(stockWsUrl);
-
-    this.stockWs.on('open', () => {
-      console.log('Connected to Alpaca stock data stream');
-      // Authenticate
-      this.stockWs?.send(JSON.stringify({
-        action: 'auth',
-        key: this.alpacaApiKey,
-        secret: this.alpacaSecret
-      }));
-    });
-
-    this.stockWs.on('message', (data: Buffer) => {
-      try {
-        const messages = JSON.parse(data.toString());
-        console.log('📈 Stock WebSocket message received:', JSON.stringify(messages));
-        this.handleAlpacaStockMessage(messages);
-      } catch (error) {
-        console.error('❌ Error parsing stock WebSocket message:', error);
-      }
-    });
-
-    this.stockWs.on('error', (error) => {
-      console.error('Stock WebSocket error:', error);
-    });
-
-    // Initialize crypto data WebSocket
-    const cryptoWsUrl = 'wss://stream.data.alpaca.markets/v1beta3/crypto/us';
-    this.cryptoWs = new WebSocket(cryptoWsUrl);
-
-    this.cryptoWs.on('open', () => {
-      console.log('Connected to Alpaca crypto data stream');
-      // Authenticate
-      this.cryptoWs?.send(JSON.stringify({
-        action: 'auth',
-        key: this.alpacaApiKey,
-        secret: this.alpacaSecret
-      }));
-    });
-
-    this.cryptoWs.on('message', (data: Buffer) => {
-      try {
-        const messages = JSON.parse(data.toString());
-        console.log('🪙 Crypto WebSocket message received:', JSON.stringify(messages));
-        this.handleAlpacaCryptoMessage(messages);
-      } catch (error) {
-        console.error('❌ Error parsing crypto WebSocket message:', error);
-      }
-    });
+  private handleStreamTrade(trade: StreamTrade): void {
+    this.notify(this.tradeCallbacks, trade);
+    this.pollScheduler.recordTrade(trade.symbol);
 
-    this.cryptoWs.on('error', (error) => {
-      console.error('Crypto WebSocket error:', error);
-    });
-  }
+    if (this.sessionStats.has(trade.symbol)) {
+      // Process immediately without waiting for async operations
+      const marketData = this.sessionStats.applyTrade(trade);
+      setImmediate(() => this.processMarketData(marketData));
+      return;
+    }
 
-  private handleAlpacaStockMessage(messages: any[]): void {
-    messages.forEach((message) => {
-      if (message.T === 'success' && message.msg === 'authenticated') {
-        console.log('✅ Stock stream authenticated, subscribing to symbols...');
-        // Subscribe to stock symbols
-        this.stockWs?.send(JSON.stringify({
-          action: 'subscribe',
-          trades: [
-            'AAPL', 'GOOGL', 'MSFT', 'TSLA', 'AMZN', 'META', 'NVDA', 'AMD',
-            'NFLX', 'DIS', 'PYPL', 'ADBE', 'CRM', 'ORCL', 'INTC', 'IBM',
-            'JPM', 'BAC', 'GS', 'MS', 'WFC', 'V', 'MA',
-            'SPY', 'QQQ', 'IWM', 'VTI', 'VOO', 'VEA', 'VWO'
-          ]
-        }));
-      } else if (message.T === 't') { // Trade message
-        // Process trade data immediately for fastest updates
-        const marketData: MarketData = {
-          symbol: message.S,
-          price: message.p,
-          change: 0, // Will be calculated
-          changePercent: 0, // Will be calculated
-          volume: message.s,
-          high: 0, // Will be fetched separately
-          low: 0, // Will be fetched separately
-          open: 0, // Will be fetched separately
-          previousClose: 0, // Will be fetched separately
-          timestamp: new Date(message.t)
-        };
-
-        // Process immediately without waiting for async operations
-        setImmediate(() => this.processMarketData(marketData));
-      }
-    });
+    // First trade since startup: start from the cached snapshot rather than from nothing
+    this.cacheService.getMarketData(trade.symbol)
+      .then(cached => {
+        if (cached && !this.sessionStats.has(trade.symbol)) {
+          this.sessionStats.applyQuote(cached);
+        }
+      })
+      .catch(() => undefined)
+      .then(() => this.processMarketData(this.sessionStats.applyTrade(trade)));
   }
 
-  private handleAlpacaCryptoMessage(messages: any[]): void {
-    messages.forEach((message) => {
-      if (message.T === 'success' && message.msg === 'authenticated') {
-        console.log('✅ Crypto stream authenticated, subscribing to symbols...');
-        // Subscribe to crypto symbols
-        this.cryptoWs?.send(JSON.stringify({
-          action: 'subscribe',
-          trades: [
-            'BTC/USD', 'ETH/USD', 'LTC/USD', 'BCH/USD', 'LINK/USD', 'UNI/USD',
-            'AAVE/USD', 'ALGO/USD', 'DOT/USD', 'DOGE/USD'
-          ]
-        }));
-      } else if (message.T === 't') { // Trade message
-        // Process crypto trade data immediately for fastest updates
-        const marketData: MarketData = {
-          symbol: message.S,
-          price: message.p,
-          change: 0, // Will be calculated
-          changePercent: 0, // Will be calculated
-          volume: message.s,
-          high: 0, // Will be fetched separately
-          low: 0, // Will be fetched separately
-          open: 0, // Will be fetched separately
-          previousClose: 0, // Will be fetched separately
-          timestamp: new Date(message.t)
-        };
-
-        // Process immediately without waiting for async operations
-        setImmediate(() => this.processMarketData(marketData));
+  // Subscribers only hear about a symbol when something they display has changed
+  private async processMarketData(data: MarketData): Promise<void> {
+    const previous = this.published.get(data.symbol);
+    if (previous && !hasQuoteChanged(previous, data)) {
+      // The cache entry expires after a minute; refresh it now and then rather than on every unchanged poll
+      if (Date.now() - (this.cachedAt.get(data.symbol) || 0) >= CACHE_REFRESH_MS) {
+        this.cachedAt.set(data.symbol, Date.now());
+        await this.cacheService.setMarketData(data.symbol, previous);
       }
-    });
-  }
+      return;
+    }
 
-  private async processMarketData(data: MarketData): Promise<void> {
-    console.log(`💹 Processing market data for ${data.symbol}: $${data.price}`);
+    // Sequenced before any await, so concurrent updates for a symbol are numbered in arrival order
+    const update: MarketData = { ...data, sequence: (previous?.sequence || 0) + 1 };
+    this.published.set(data.symbol, update);
+    console.log(`💹 Processing market data for ${update.symbol}: $${update.price} (#${update.sequence})`);
     
     // Cache the data
-    await this.cacheService.setMarketData(data.symbol, data);
+    this.cachedAt.set(update.symbol, Date.now());
+    await this.cacheService.setMarketData(update.symbol, update);
 
     // Notify all subscribers
     this.priceUpdateCallbacks.forEach(callback => {
       try {
-        callback(data);
+        callback(update);
       } catch (error) {
         console.error('❌ Error in price update callback:', error);
       }
     });
   }
 
-  async getMarketData(symbol: string): Promise<MarketData | null> {
+  // The last update fanned out for a symbol, for a subscriber that joins between changes
+  getLatestUpdate(symbol: string): MarketData | undefined {
+    return this.published.get(symbol);
+  }
+
+  // Change is measured against the symbol's default baseline unless `baseline` asks for another
+  async getMarketData(symbol: string, baseline?: ChangeBaseline): Promise<MarketData | null> {
+    const rebase = (data: MarketData) => baseline ? withChangeBaseline(data, baseline) : data;
+
     // Try cache first
     const cachedData = await this.cacheService.getMarketData(symbol);
     if (cachedData) {
-      return cachedData;
+      return rebase(cachedData);
     }
 
-    // Fetch from Alpaca API
+    // Fetch from the market data provider
     try {
-      return await this.fetchAlpacaData(symbol);
+      const data = await this.fetchQuote(symbol);
+      return data && rebase(data);
     } catch (error) {
-      console.error(`❌ Error fetching Alpaca data for ${symbol}:`, error);
+      console.error(`❌ Error fetching ${this.provider.name} data for ${symbol}:`, error);
       return null;
     }
   }
 
-  private async fetchAlpacaData(symbol: string): Promise<MarketData | null> {
+  // Queueing and throttling of the provider's REST calls, for monitoring
+  getRequestMetrics(): RateLimiterMetrics | null {
+    return this.provider.getRequestMetrics();
+  }
+
+  private async fetchQuote(symbol: string, priority: RequestPriority = 'user'): Promise<MarketData | null> {
+    const quotes = await this.fetchQuotes([symbol], priority);
+    return quotes.get(symbol) || null;
+  }
+
+  // Batched: the provider quotes as many symbols per request as it can
+  private async fetchQuotes(symbols: string[], priority: RequestPriority): Promise<Map<string, MarketData>> {
+    const quotes = new Map<string, MarketData>();
+
     // Check if it's a forex symbol (not supported in paper trading)
-    if (this.isForexSymbol(symbol)) {
-      console.log(`💱 ${symbol} is FOREX - using simulated data (not available in paper trading)`);
-      return this.generateSimulatedData(symbol);
+    const forex = symbols.filter(symbol => this.isForexSymbol(symbol));
+    if (forex.length > 0) {
+      console.log(`💱 ${forex.join(', ')}: FOREX - using simulated data (not available in paper trading)`);
     }
+    forex.forEach(symbol => quotes.set(symbol, this.generateSimulatedData(symbol)));
+    const requested = symbols.filter(symbol => !this.isForexSymbol(symbol));
+    if (requested.length === 0) return quotes;
 
-    // Intelligent rate limiting check
-    const now = Date.now();
-    
-    // Reset counter if window has passed
-    if (now - this.lastRequestTime > this.rateLimitWindow) {
-      this.requestCount = 0;
-      this.lastRequestTime = now;
-    }
-    
-    // Check if we're within limits
-    if (this.requestCount >= this.maxRequestsPerWindow) {
-      console.log(`🚦 Rate limit reached, skipping ${symbol}`);
-      return null;
-    }
-    
-    this.requestCount++;
-    
     try {
-      let response;
-      const isCrypto = symbol.includes('/');
-      
-      if (isCrypto) {
-        // Use crypto endpoint for crypto symbols
-        response = await axios.get(
-          `${this.alpacaDataBaseUrl}/v1beta3/crypto/us/latest/trades`,
-          {
-            params: { symbols: symbol },
-            headers: {
-              'APCA-API-KEY-ID': this.alpacaApiKey,
-              'APCA-API-SECRET-KEY': this.alpacaSecret
-            }
-          }
-        );
-        
-        const tradeData = response.data.trades[symbol];
-        if (!tradeData) {
+      const fetched = await this.provider.getQuotes(requested, priority);
+      requested.forEach(symbol => {
+        const data = fetched.get(symbol);
+        if (!data) {
           console.log(`⚠️ No trade data available for ${symbol} - using simulated data`);
-          return this.generateSimulatedData(symbol);
+          quotes.set(symbol, this.generateSimulatedData(symbol));
+          return;
         }
-        
-        // Get current price
-        const currentPrice = tradeData.p || 0;
-        
-        // Get 1-minute comparison price
-        const minuteComparisonPrice = await this.getMinuteComparisonPrice(symbol);
-        
-        // Calculate 1-minute change and percentage
-        let minuteChange = 0;
-        let minuteChangePercent = 0;
-        
-        if (minuteComparisonPrice && minuteComparisonPrice > 0) {
-          minuteChange = currentPrice - minuteComparisonPrice;
-          minuteChangePercent = (minuteChange / minuteComparisonPrice) * 100;
-          console.log(`⚡ ${symbol} 1-minute change: $${minuteChange.toFixed(4)} (${minuteChangePercent.toFixed(4)}%) - Current: $${currentPrice}, 1m ago: $${minuteComparisonPrice}`);
-        }
-        
-        return {
-          symbol,
-          price: currentPrice,
-          change: minuteChange,
-          changePercent: minuteChangePercent,
-          volume: tradeData.s || 0,
-          high: 0, // Would need daily bar data
-          low: 0, // Would need daily bar data
-          open: 0, // Would need daily bar data
-          previousClose: minuteComparisonPrice || 0, // Use 1-minute comparison as "previous"
-          timestamp: new Date(tradeData.t || Date.now())
-        };
-      } else {
-        // Use stock endpoint with optimized HTTP agent for maximum speed
-        response = await axios.get(
-          `${this.alpacaDataBaseUrl}/v2/stocks/${symbol}/snapshot`,
-          {
-            headers: {
-              'APCA-API-KEY-ID': this.alpacaApiKey,
-              'APCA-API-SECRET-KEY': this.alpacaSecret
-            },
-            httpsAgent: httpAgent, // Ultra-fast HTTP agent with keep-alive
-            timeout: 2000 // Ultra-fast 2s timeout
-          }
-        );
-
-        const data = response.data;
-        const quote = data.latestQuote;
-        const trade = data.latestTrade;
-        const dailyBar = data.dailyBar;
-        
-        // Get current price
-        const currentPrice = trade?.p || quote?.ap || 0;
-        
-        // Get 1-minute comparison price
-        const minuteComparisonPrice = await this.getMinuteComparisonPrice(symbol);
-        
-        // Calculate 1-minute change and percentage
-        let minuteChange = 0;
-        let minuteChangePercent = 0;
-        
-        if (minuteComparisonPrice && minuteComparisonPrice > 0) {
-          minuteChange = currentPrice - minuteComparisonPrice;
-          minuteChangePercent = (minuteChange / minuteComparisonPrice) * 100;
-          console.log(`⚡ ${symbol} 1-minute change: $${minuteChange.toFixed(4)} (${minuteChangePercent.toFixed(4)}%) - Current: $${currentPrice}, 1m ago: $${minuteComparisonPrice}`);
-        } else {
-          // Fallback to daily change if 1-minute data is not available
-          minuteChange = dailyBar ? currentPrice - dailyBar.c : 0;
-          minuteChangePercent = dailyBar ? ((currentPrice - dailyBar.c) / dailyBar.c) * 100 : 0;
-          console.log(`⚠️ ${symbol} using daily fallback: $${minuteChange.toFixed(4)} (${minuteChangePercent.toFixed(4)}%)`);
-        }
-
-        return {
-          symbol,
-          price: currentPrice,
-          change: minuteChange,
-          changePercent: minuteChangePercent,
-          volume: dailyBar?.v || 0,
-          high: dailyBar?.h || 0,
-          low: dailyBar?.l || 0,
-          open: dailyBar?.o || 0,
-          previousClose: dailyBar?.c || 0,
-          timestamp: new Date()
-        };
-      }
+        quotes.set(symbol, this.sessionStats.applyQuote(data));
+      });
     } catch (error) {
+      // Queued too long behind more urgent requests: no quotes this round, rather than made-up ones
+      if (error instanceof RateLimitError) {
+        console.log(`🚦 ${requested.length} symbols skipped: ${error.message}`);
+        return quotes;
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       
       // Check if it's a specific API error for unsupported symbols
       if (errorMessage.includes('404') || errorMessage.includes('not found') || errorMessage.includes('forbidden')) {
-        console.log(`⚠️ ${symbol} not available in paper trading - using simulated data`);
-        return this.generateSimulatedData(symbol);
+        console.log(`⚠️ ${requested.join(', ')} not available in paper trading - using simulated data`);
+      } else {
+        console.error(`❌ Error fetching ${this.provider.name} data for ${requested.join(', ')}:`, errorMessage);
+        // Provide fallback simulated data instead of null to keep UI populated
+        console.log(`🔄 Falling back to simulated data for ${requested.length} symbols`);
       }
-      
-      console.error(`❌ Error fetching Alpaca data for ${symbol}:`, errorMessage);
-      
-      // Provide fallback simulated data instead of null to keep UI populated
-      console.log(`🔄 Falling back to simulated data for ${symbol}`);
-      return this.generateSimulatedData(symbol);
+      requested.forEach(symbol => quotes.set(symbol, this.generateSimulatedData(symbol)));
     }
+
+    return quotes;
   }
 
-  private async getMinuteComparisonPrice(symbol: string): Promise<number | null> {
-    try {
-      const oneMinuteAgo = new Date();
-      oneMinuteAgo.setMinutes(oneMinuteAgo.getMinutes() - 1);
-      
-      const isCrypto = symbol.includes('/');
-      let response;
-      
-      if (isCrypto) {
-        // Get crypto bars for the last 2 minutes to find 1-minute comparison
-        response = await axios.get(
-          `${this.alpacaDataBaseUrl}/v1beta3/crypto/us/bars`,
-          {
-            params: {
-              symbols: symbol,
-              timeframe: '1Min',
-              start: oneMinuteAgo.toISOString(),
-              limit: 2,
-              sort: 'desc'
-            },
-            headers: {
-              'APCA-API-KEY-ID': this.alpacaApiKey,
-              'APCA-API-SECRET-KEY': this.alpacaSecret
-            }
-          }
-        );
-        
-        const bars = response.data.bars[symbol];
-        if (bars && bars.length > 0) {
-          // Return the close price from 1 minute ago
-          return bars[bars.length - 1].c;
-        }
-      } else {
-        // Get stock bars for the last 2 minutes
-        response = await axios.get(
-          `${this.alpacaDataBaseUrl}/v2/stocks/${symbol}/bars`,
-          {
-            params: {
-              timeframe: '1Min',
-              start: oneMinuteAgo.toISOString(),
-              limit: 2,
-              sort: 'desc'
-            },
-            headers: {
-              'APCA-API-KEY-ID': this.alpacaApiKey,
-              'APCA-API-SECRET-KEY': this.alpacaSecret
-            },
-            httpsAgent: httpAgent,
-            timeout: 3000
-          }
-        );
-        
-        const bars = response.data.bars;
-        if (bars && bars.length > 0) {
-          // Return the close price from 1 minute ago
-          return bars[bars.length - 1].c;
-        }
+  // Equity quotes don't move outside the pre-market, regular and after-hours sessions
+  private pollable(symbols: string[]): string[] {
+    if (!this.marketCalendar || this.marketCalendar.isEquityTradingActive()) return symbols;
+    return symbols.filter(symbol => !this.isEquitySymbol(symbol));
+  }
+
+  private isEquitySymbol(symbol: string): boolean {
+    const asset = this.assetCatalog?.getAsset(symbol);
+    return asset ? asset.assetClass === 'us_equity' : !symbol.includes('/');
+  }
+
+  // One batched fetch per request priority for the symbols that have come due
+  private async pollDueSymbols(): Promise<void> {
+    this.pollPlan = this.pollScheduler.plan(this.subscriptions.getOwners());
+    const pollable = new Set(this.pollable(this.pollPlan.map(entry => entry.symbol)));
+    const due = this.pollScheduler.takeDue(this.pollPlan.filter(entry => pollable.has(entry.symbol)));
+    if (due.length === 0) return;
+
+    const priorities = Array.from(new Set(due.map(entry => entry.priority)));
+    await Promise.all(priorities.map(async priority => {
+      const symbols = due.filter(entry => entry.priority === priority).map(entry => entry.symbol);
+      try {
+        await this.pollSymbols(symbols, priority);
+      } finally {
+        this.pollScheduler.complete(symbols);
       }
-    } catch (error) {
-      console.error(`❌ Error fetching 1-minute comparison data for ${symbol}:`, error);
-    }
-    
-    return null;
+    }));
   }
 
-  private async updateSymbolBatch(
-    symbols: string[], 
-    priority: string, 
-    cacheThreshold: number
-  ): Promise<void> {
+  private async pollSymbols(symbols: string[], priority: RequestPriority): Promise<void> {
     const startTime = Date.now();
     
-    // Filter symbols that need fresh data based on priority-specific cache threshold
-    const symbolsNeedingUpdate = [];
-    for (const symbol of symbols) {
-      const cached = await this.cacheService.getMarketData(symbol);
-      if (!cached) {
-        symbolsNeedingUpdate.push(symbol);
-      } else {
-        const timestamp = cached.timestamp instanceof Date 
-          ? cached.timestamp.getTime() 
-          : new Date(cached.timestamp).getTime();
-        const needsUpdate = (Date.now() - timestamp) > cacheThreshold;
-        if (needsUpdate) {
-          symbolsNeedingUpdate.push(symbol);
-        }
-      }
-    }
-    
-    if (symbolsNeedingUpdate.length === 0) {
-      console.log(`✨ ${priority}: All ${symbols.length} symbols cached & fresh`);
-      return;
+    const results = await this.fetchQuotes(symbols, priority);
+    for (const data of results.values()) {
+      await this.processMarketData(data);
     }
     
-    console.log(`🔄 ${priority}: Updating ${symbolsNeedingUpdate.length}/${symbols.length} symbols`);
-    
-    // Optimal batch size based on priority
-    const batchSize = priority === 'HIGH_PRIORITY' ? 6 : priority === 'MEDIUM_PRIORITY' ? 8 : 10;
-    const batches = [];
-    for (let i = 0; i < symbolsNeedingUpdate.length; i += batchSize) {
-      batches.push(symbolsNeedingUpdate.slice(i, i + batchSize));
-    }
-    
-    let totalUpdated = 0;
-    for (let i = 0; i < batches.length; i++) {
-      const batch = batches[i];
-      
-      const batchPromises = batch.map(async (symbol: string) => {
-        try {
-          const data = await this.fetchAlpacaData(symbol);
-          if (data) {
-            await this.cacheService.setMarketData(symbol, data);
-            return { symbol, success: true, price: data.price, change: data.changePercent };
-          }
-          return { symbol, success: false };
-        } catch (error) {
-          console.error(`❌ ${priority} ${symbol} failed:`, error instanceof Error ? error.message : String(error));
-          return { symbol, success: false };
-        }
-      });
-      
-      const results = await Promise.all(batchPromises);
-      const successful = results.filter(r => r.success);
-      totalUpdated += successful.length;
-      
-      // Log successful updates with compact format
-      if (successful.length > 0) {
-        const updates = successful
-          .map(r => `${r.symbol}:$${r.price}(${r.change && r.change > 0 ? '+' : ''}${r.change?.toFixed(2) || '0.00'}%)`)
-          .join(' ');
-        console.log(`✅ ${priority} batch ${i + 1}: ${updates}`);
-      }
-      
-      // Dynamic delay based on priority and API load
-      if (i < batches.length - 1) {
-        const delay = priority === 'HIGH_PRIORITY' ? 400 : priority === 'MEDIUM_PRIORITY' ? 600 : 800;
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
+    // Log successful updates with compact format
+    if (results.size > 0) {
+      const updates = [...results.values()]
+        .map(r => `${r.symbol}:$${r.price}(${r.changePercent > 0 ? '+' : ''}${r.changePercent?.toFixed(2) || '0.00'}%)`)
+        .join(' ');
+      console.log(`✅ Polled (${priority}): ${updates}`);
     }
     
     const duration = Date.now() - startTime;
-    console.log(`🚀 ${priority} complete: ${totalUpdated}/${symbolsNeedingUpdate.length} updated (${duration}ms)`);
+    this.recordPollCycle(priority, symbols.length, results.size, duration);
+    console.log(`🚀 Poll (${priority}) complete: ${results.size}/${symbols.length} updated (${duration}ms)`);
+  }
+
+  // Who is being polled how often, as of the last tick
+  getPollSchedule(): PollScheduleSummary {
+    return this.pollScheduler.summarize(this.pollPlan);
+  }
+
+  private recordPollCycle(tier: string, requested: number, updated: number, durationMs: number): void {
+    const stats = this.pollStats.get(tier) || { cycles: 0, totalMs: 0, maxMs: 0 };
+    stats.cycles++;
+    stats.totalMs += durationMs;
+    stats.maxMs = Math.max(stats.maxMs, durationMs);
+    stats.last = { at: new Date().toISOString(), requested, updated, durationMs };
+    this.pollStats.set(tier, stats);
+  }
+
+  // How long each priority's polls take end to end, next to the request counts in getRequestMetrics
+  getPollingMetrics(): Record<string, PollTierMetrics> {
+    const metrics: Record<string, PollTierMetrics> = {};
+    this.pollStats.forEach((stats, tier) => {
+      metrics[tier] = {
+        cycles: stats.cycles,
+        averageMs: Math.round(stats.totalMs / stats.cycles),
+        maxMs: stats.maxMs,
+        last: stats.last
+      };
+    });
+    return metrics;
   }
 
+  // Until the catalog is set (see setAssetCatalog), the bundled seed still knows the forex pairs
   private isForexSymbol(symbol: string): boolean {
-    const forexPairs = [
-      'EUR/USD', 'GBP/USD', 'USD/JPY', 'USD/CHF',
-      'AUD/USD', 'USD/CAD', 'NZD/USD',
-      'EUR/GBP', 'EUR/JPY', 'GBP/JPY'
-    ];
-    return forexPairs.includes(symbol);
+    const asset = this.assetCatalog?.getAsset(symbol) || seedAssets.find(seed => seed.symbol === symbol);
+    return asset?.type === 'forex';
   }
 
   private generateSimulatedData(symbol: string): MarketData {
@@ -747,6 +475,9 @@ export class MarketDataService {
       low: currentPrice * (1 - Math.random() * 0.02),
       open: basePrice,
       previousClose: basePrice,
+      changeBaseline: 'prevClose',
+      baselines: { open: basePrice, prevClose: basePrice },
+      simulated: true,
       timestamp: new Date()
     };
     
@@ -756,287 +487,122 @@ export class MarketDataService {
 
   async getCandlestickData(
     symbol: string,
-    timeframe: '1min' | '5min' | '15min' | '1hour' | '1day',
+    timeframe: string,
     limit: number = 100
   ): Promise<CandlestickData | null> {
     try {
-      return await this.fetchAlpacaCandlestickData(symbol, timeframe, limit);
+      return await this.fetchCandlestickData(symbol, timeframe, limit);
     } catch (error) {
       console.error(`❌ Error fetching candlestick data for ${symbol}:`, error);
       return null;
     }
   }
 
-  private async fetchAlpacaCandlestickData(
+  private async fetchCandlestickData(
     symbol: string,
     timeframe: string,
     limit: number
   ): Promise<CandlestickData | null> {
     try {
+      const barTimeframe = parseTimeframe(timeframe) || '1Min';
       const endDate = new Date();
-      const startDate = new Date(endDate.getTime() - (limit * this.getTimeframeMs(timeframe)));
-
-      const response = await axios.get(
-        `${this.alpacaDataBaseUrl}/v2/stocks/${symbol}/bars`,
-        {
-          params: {
-            timeframe,
-            start: startDate.toISOString(),
-            end: endDate.toISOString(),
-            limit
-          },
-          headers: {
-            'APCA-API-KEY-ID': this.alpacaApiKey,
-            'APCA-API-SECRET-KEY': this.alpacaSecret
-          }
-        }
+      const startDate = new Date(endDate.getTime() - defaultLookbackMs(barTimeframe, limit));
+
+      const bars = await this.getBars(
+        symbol,
+        barTimeframe,
+        startDate.toISOString(),
+        endDate.toISOString(),
+        limit
       );
 
-      const bars = response.data.bars || [];
-      const data = bars.map((bar: any) => ({
-        time: new Date(bar.t).getTime(),
-        open: bar.o,
-        high: bar.h,
-        low: bar.l,
-        close: bar.c,
-        volume: bar.v
+      const data = bars.map(bar => ({
+        time: bar.timestamp,
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        volume: bar.volume
       }));
 
       return { symbol, timeframe, data };
     } catch (error) {
-      console.error(`Error fetching Alpaca candlestick data for ${symbol}:`, error);
+      console.error(`Error fetching ${this.provider.name} candlestick data for ${symbol}:`, error);
       return null;
     }
   }
 
-  private getTimeframeMs(timeframe: string): number {
-    switch (timeframe) {
-      case '1min': return 60 * 1000;
-      case '5min': return 5 * 60 * 1000;
-      case '15min': return 15 * 60 * 1000;
-      case '1hour': return 60 * 60 * 1000;
-      case '1day': return 24 * 60 * 60 * 1000;
-      default: return 60 * 1000;
-    }
+  // `owner` identifies who wants the symbol (a socket or a server job); see SubscriptionManager
+  subscribeToSymbol(symbol: string, owner: string): void {
+    this.subscriptions.acquire(owner, [symbol]);
   }
 
-  subscribeToSymbol(symbol: string): void {
-    if (!this.subscribedSymbols.has(symbol)) {
-      this.subscribedSymbols.add(symbol);
-      
-      if (this.stockWs && this.stockWs.readyState === WebSocket.OPEN) {
-        this.stockWs.send(JSON.stringify({
-          action: 'subscribe',
-          trades: [symbol]
-        }));
-      }
-
-      if (this.cryptoWs && this.cryptoWs.readyState === WebSocket.OPEN) {
-        this.cryptoWs.send(JSON.stringify({
-          action: 'subscribe',
-          trades: [symbol]
-        }));
-      }
-    }
+  unsubscribeFromSymbol(symbol: string, owner: string): void {
+    this.subscriptions.release(owner, [symbol]);
   }
 
-  unsubscribeFromSymbol(symbol: string): void {
-    if (this.subscribedSymbols.has(symbol)) {
-      this.subscribedSymbols.delete(symbol);
-      
-      if (this.stockWs && this.stockWs.readyState === WebSocket.OPEN) {
-        this.stockWs.send(JSON.stringify({
-          action: 'unsubscribe',
-          trades: [symbol]
-        }));
-      }
-
-      if (this.cryptoWs && this.cryptoWs.readyState === WebSocket.OPEN) {
-        this.cryptoWs.send(JSON.stringify({
-          action: 'unsubscribe',
-          trades: [symbol]
-        }));
-      }
-    }
+  releaseSubscriptions(owner: string): void {
+    this.subscriptions.releaseAll(owner);
   }
 
   onPriceUpdate(callback: (data: MarketData) => void): void {
     this.priceUpdateCallbacks.push(callback);
   }
 
-  async searchSymbols(query: string): Promise<any[]> {
-    try {
-      const response = await axios.get(
-        `${this.alpacaBaseUrl}/v2/assets`,
-        {
-          params: {
-            search: query,
-            status: 'active',
-            asset_class: 'us_equity'
-          },
-          headers: {
-            'APCA-API-KEY-ID': this.alpacaApiKey,
-            'APCA-API-SECRET-KEY': this.alpacaSecret
-          }
-        }
-      );
+  // Raw streamed trades and minute bars, for consumers that need more than the latest price
+  onTrade(callback: (trade: StreamTrade) => void): void {
+    this.tradeCallbacks.push(callback);
+  }
 
-      return response.data.map((asset: any) => ({
-        symbol: asset.symbol,
-        name: asset.name,
-        type: 'stock',
-        exchange: asset.exchange
-      }));
-    } catch (error) {
-      console.error('Error searching symbols:', error);
-      return [];
-    }
+  onBar(callback: (bar: StreamBar) => void): void {
+    this.barCallbacks.push(callback);
+  }
+
+  private notify<T>(callbacks: ((event: T) => void)[], event: T): void {
+    callbacks.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('❌ Error in stream callback:', error);
+      }
+    });
   }
 
+  // Errors propagate: callers must never be handed made-up bars in place of real history
   async getBars(
     symbol: string, 
     timeframe: string = '1Day', 
     start?: string, 
     end?: string, 
-    limit: number = 100
-  ): Promise<any[]> {
-    try {
-      // Determine if it's crypto or stock
-      const isCrypto = symbol.includes('/');
-      
-      let apiUrl: string;
-      let params: any = {
-        symbols: symbol,
-        timeframe,
-        limit: Math.min(limit, 1000), // Alpaca limits
-        asof: end,
-        feed: 'iex', // Use IEX feed for stocks
-        adjustment: 'raw'
-      };
-
-      if (isCrypto) {
-        // Use crypto data API
-        const cryptoSymbol = symbol.replace('/', '');
-        apiUrl = `${this.alpacaDataBaseUrl}/v1beta1/crypto/${cryptoSymbol}/bars`;
-        delete params.feed; // Crypto doesn't use feed parameter
-      } else {
-        // Use stocks data API
-        apiUrl = `${this.alpacaDataBaseUrl}/v2/stocks/${symbol}/bars`;
-      }
-
-      // Set date range if provided
-      if (start) params.start = start;
-      if (end) params.end = end;
-      
-      // If no start/end provided, get recent data
-      if (!start && !end) {
-        const now = new Date();
-        const ago = new Date();
-        
-        switch (timeframe) {
-          case '1Min':
-          case '5Min':
-          case '15Min':
-            ago.setHours(now.getHours() - 6); // Last 6 hours for minute data
-            break;
-          case '1Hour':
-            ago.setDate(now.getDate() - 7); // Last 7 days for hourly data
-            break;
-          case '1Day':
-          default:
-            ago.setFullYear(now.getFullYear() - 1); // Last year for daily data
-            break;
-        }
-        
-        params.start = ago.toISOString().split('T')[0];
-        params.end = now.toISOString().split('T')[0];
-      }
-
-      console.log(`Fetching bars for ${symbol}:`, { apiUrl, params });
-
-      const response = await axios.get(apiUrl, {
-        params,
-        headers: {
-          'APCA-API-KEY-ID': this.alpacaApiKey,
-          'APCA-API-SECRET-KEY': this.alpacaSecret
-        }
-      });
-
-      // Transform the data to a consistent format
-      const bars = response.data.bars || response.data[symbol] || [];
-      
-      return bars.map((bar: any) => ({
-        timestamp: new Date(bar.t).getTime(),
-        open: parseFloat(bar.o),
-        high: parseFloat(bar.h),
-        low: parseFloat(bar.l),
-        close: parseFloat(bar.c),
-        volume: parseInt(bar.v) || 0
-      }));
-
-    } catch (error) {
-      console.error(`Error fetching bars for ${symbol}:`, error);
-      
-      // Return sample data as fallback
-      return await this.generateSampleBars(symbol, timeframe, limit);
+    limit: number = 100,
+    options: BarOptions = {}
+  ): Promise<Bar[]> {
+    // If no start/end provided, get the latest `limit` bars up to now
+    if (!start && !end) {
+      const now = Date.now();
+      start = new Date(now - defaultLookbackMs(timeframe, limit)).toISOString();
+      end = new Date(now).toISOString();
     }
-  }
 
-  private async generateSampleBars(symbol: string, timeframe: string, limit: number): Promise<any[]> {
-    const now = Date.now();
-    const bars: any[] = [];
-    
-    let intervalMs: number;
-    switch (timeframe) {
-      case '1Min':
-        intervalMs = 60 * 1000;
-        break;
-      case '5Min':
-        intervalMs = 5 * 60 * 1000;
-        break;
-      case '15Min':
-        intervalMs = 15 * 60 * 1000;
-        break;
-      case '1Hour':
-        intervalMs = 60 * 60 * 1000;
-        break;
-      case '1Day':
-      default:
-        intervalMs = 24 * 60 * 60 * 1000;
-        break;
+    if (this.isForexSymbol(symbol)) {
+      throw new Error(`Historical bars are not available for ${symbol}`);
     }
 
-    // Base price from current market data if available
-    let basePrice = 150; // default
-    try {
-      const cachedData = await this.cacheService.get(`market_data_${symbol}`);
-      basePrice = cachedData?.price || (symbol.includes('BTC') ? 100000 : symbol.includes('ETH') ? 4000 : 150);
-    } catch (error) {
-      basePrice = symbol.includes('BTC') ? 100000 : symbol.includes('ETH') ? 4000 : 150;
+    if (isCalendarTimeframe(timeframe)) {
+      const daily = await this.getBars(symbol, '1Day', start, end, limit * calendarDaysPerBar[timeframe], options);
+      return aggregateBars(daily, timeframe).slice(-limit);
     }
 
-    for (let i = limit - 1; i >= 0; i--) {
-      const timestamp = now - (i * intervalMs);
-      const volatility = 0.02; // 2% volatility
-      const trend = Math.sin(i * 0.1) * 0.005; // Small trend
-      
-      const open = basePrice * (1 + (Math.random() - 0.5) * volatility + trend);
-      const close = open * (1 + (Math.random() - 0.5) * volatility);
-      const high = Math.max(open, close) * (1 + Math.random() * volatility * 0.5);
-      const low = Math.min(open, close) * (1 - Math.random() * volatility * 0.5);
-      const volume = Math.floor(Math.random() * 1000000) + 100000;
-
-      bars.push({
-        timestamp,
-        open,
-        high,
-        low,
-        close,
-        volume
-      });
+    // Stored history first; it only holds raw bars from the default feed
+    const storable = (!options.adjustment || options.adjustment === 'raw') && !options.feed;
+    if (storable && this.barHistory?.isAvailable() && this.barHistory.isSupportedTimeframe(timeframe)) {
+      try {
+        return await this.barHistory.getBars(symbol, timeframe, start, end, limit);
+      } catch (error) {
+        console.warn(`⚠️ Bar store unavailable for ${symbol}, fetching from ${this.provider.name}:`, error instanceof Error ? error.message : error);
+      }
     }
 
-    console.log(`Generated ${bars.length} sample bars for ${symbol}`);
-    return bars;
+    return this.provider.getBars({ symbol, timeframe, start, end, limit, ...options });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,78 @@
+import { PollScheduler } from './PollScheduler';
+
+const NOW = Date.UTC(2024, 2, 6, 15, 0, 0);
+
+const planFor = (scheduler: PollScheduler, owners: Record<string, string[]>, now: number = NOW) =>
+  scheduler.plan(new Map(Object.entries(owners)), now);
+
+describe('PollScheduler.plan', () => {
+  it('polls each symbol at the rate of its most urgent demand', () => {
+    const plan = planFor(new PollScheduler(), {
+      AAPL: ['socket:a', 'price-alerts'],
+      MSFT: ['candles:1Min'],
+      TSLA: ['price-alerts', 'portfolio-valuation'],
+      NVDA: ['portfolio-valuation'],
+      'BTC/USD': ['asset-catalog']
+    });
+
+    const bySymbol = Object.fromEntries(plan.map(entry => [entry.symbol, entry]));
+    expect(bySymbol.AAPL).toMatchObject({ demand: ['subscriber', 'alert'], intervalMs: 5000, priority: 'high' });
+    expect(bySymbol.MSFT).toMatchObject({ demand: ['chart'], intervalMs: 5000, priority: 'high' });
+    expect(bySymbol.TSLA).toMatchObject({ demand: ['alert', 'position'], intervalMs: 10000, priority: 'low' });
+    expect(bySymbol.NVDA).toMatchObject({ demand: ['position'], intervalMs: 20000, priority: 'low' });
+    expect(bySymbol['BTC/USD']).toMatchObject({ demand: ['background'], intervalMs: 60000, priority: 'low' });
+  });
+
+  it('skips symbols nobody holds', () => {
+    expect(planFor(new PollScheduler(), { AAPL: [] })).toEqual([]);
+  });
+
+  it('backs off six times while the stream is delivering trades', () => {
+    const scheduler = new PollScheduler();
+    scheduler.recordTrade('AAPL', NOW - 10000);
+
+    const [entry] = planFor(scheduler, { AAPL: ['socket:a'] });
+    expect(entry).toMatchObject({ streaming: true, intervalMs: 30000 });
+  });
+
+  it('returns to the demand rate once trades stop arriving', () => {
+    const scheduler = new PollScheduler();
+    scheduler.recordTrade('AAPL', NOW - 30000);
+
+    const [entry] = planFor(scheduler, { AAPL: ['price-alerts'] });
+    expect(entry).toMatchObject({ streaming: false, intervalMs: 10000 });
+  });
+});
+
+describe('PollScheduler.takeDue', () => {
+  it('hands out each symbol once per interval and never while it is in flight', () => {
+    const scheduler = new PollScheduler();
+    const plan = planFor(scheduler, { AAPL: ['socket:a'] });
+
+    expect(scheduler.takeDue(plan, NOW).map(entry => entry.symbol)).toEqual(['AAPL']);
+    expect(scheduler.takeDue(plan, NOW + 6000)).toEqual([]); // Still in flight
+
+    scheduler.complete(['AAPL']);
+    expect(scheduler.takeDue(plan, NOW + 4000)).toEqual([]);
+    expect(scheduler.takeDue(plan, NOW + 5000).map(entry => entry.symbol)).toEqual(['AAPL']);
+  });
+});
+
+describe('PollScheduler.summarize', () => {
+  it('counts symbols per demand and per interval', () => {
+    const scheduler = new PollScheduler();
+    scheduler.recordTrade('MSFT', NOW);
+    const plan = planFor(scheduler, {
+      AAPL: ['socket:a'],
+      MSFT: ['socket:b', 'portfolio-valuation'],
+      NVDA: ['portfolio-valuation']
+    });
+
+    expect(scheduler.summarize(plan)).toEqual({
+      symbols: 3,
+      streaming: 1,
+      byDemand: { subscriber: 2, chart: 0, alert: 0, position: 2, background: 0 },
+      intervals: { '5s': 1, '30s': 1, '20s': 1 }
+    });
+  });
+});
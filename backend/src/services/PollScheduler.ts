@@ -0,0 +1,126 @@
+import { RequestPriority } from './providers/MarketDataProvider';
+
+// Why a symbol is wanted, read off the SubscriptionManager owner holding it
+export type PollDemand = 'subscriber' | 'chart' | 'alert' | 'position' | 'background';
+
+export interface PollPlanEntry {
+  symbol: string;
+  demand: PollDemand[];
+  streaming: boolean; // The stream delivered a trade recently
+  intervalMs: number;
+  priority: RequestPriority;
+}
+
+export interface PollScheduleSummary {
+  symbols: number;
+  streaming: number;
+  byDemand: Record<PollDemand, number>;
+  intervals: Record<string, number>; // Symbols per refresh interval, e.g. { '5s': 12, '60s': 3 }
+}
+
+// Most urgent first; a symbol is refreshed at the rate of its most urgent demand
+const demandIntervalMs: Record<PollDemand, number> = {
+  subscriber: 5000,
+  chart: 5000,
+  alert: 10000,
+  position: 20000,
+  background: 60000
+};
+const pollDemands = Object.keys(demandIntervalMs) as PollDemand[];
+
+// Someone is looking at these; alerts, positions and server jobs can wait behind them
+const viewerDemands: PollDemand[] = ['subscriber', 'chart'];
+
+// Trades this recent mean the stream is keeping the price current and polling only refreshes the day's stats
+const STREAM_ACTIVE_MS = 30000;
+const STREAMING_BACKOFF = 6;
+
+const demandOf = (owner: string): PollDemand => {
+  if (owner.startsWith('socket:')) return 'subscriber';
+  if (owner.startsWith('candles:')) return 'chart';
+  if (owner === 'price-alerts') return 'alert';
+  if (owner === 'portfolio-valuation') return 'position';
+  return 'background';
+};
+
+/**
+ * Decides how often each symbol is polled from who currently wants it,
+ * replacing fixed tiers that polled the whole catalog whether or not anyone
+ * was watching. Symbols nobody holds are not polled at all; ones the stream
+ * is already updating are polled STREAMING_BACKOFF times less often.
+ */
+export class PollScheduler {
+  private lastPolledAt: Map<string, number> = new Map();
+  private lastTradeAt: Map<string, number> = new Map();
+  private inFlight: Set<string> = new Set();
+
+  recordTrade(symbol: string, at: number = Date.now()): void {
+    this.lastTradeAt.set(symbol, at);
+  }
+
+  // `owners` lists the holders of each wanted symbol
+  plan(owners: Map<string, string[]>, now: number = Date.now()): PollPlanEntry[] {
+    const entries: PollPlanEntry[] = [];
+
+    owners.forEach((holders, symbol) => {
+      const demand = pollDemands.filter(kind => holders.some(owner => demandOf(owner) === kind));
+      if (demand.length === 0) return;
+
+      const tradedAt = this.lastTradeAt.get(symbol);
+      const streaming = tradedAt !== undefined && now - tradedAt < STREAM_ACTIVE_MS;
+      const baseMs = Math.min(...demand.map(kind => demandIntervalMs[kind]));
+      entries.push({
+        symbol,
+        demand,
+        streaming,
+        intervalMs: streaming ? baseMs * STREAMING_BACKOFF : baseMs,
+        priority: demand.some(kind => viewerDemands.includes(kind)) ? 'high' : 'low'
+      });
+    });
+
+    // Forget symbols nobody wants any more, so they start fresh if wanted again
+    const wanted = new Set(entries.map(entry => entry.symbol));
+    [this.lastPolledAt, this.lastTradeAt].forEach(times => {
+      Array.from(times.keys()).forEach(symbol => {
+        if (!wanted.has(symbol)) times.delete(symbol);
+      });
+    });
+
+    return entries;
+  }
+
+  // Entries whose interval has passed and that aren't still being fetched; marks them in flight
+  takeDue(plan: PollPlanEntry[], now: number = Date.now()): PollPlanEntry[] {
+    const due = plan.filter(entry => {
+      const polledAt = this.lastPolledAt.get(entry.symbol);
+      return !this.inFlight.has(entry.symbol) && (polledAt === undefined || now - polledAt >= entry.intervalMs);
+    });
+    due.forEach(entry => {
+      this.inFlight.add(entry.symbol);
+      this.lastPolledAt.set(entry.symbol, now);
+    });
+    return due;
+  }
+
+  // A failed poll waits a full interval like a successful one, so an outage doesn't turn into a retry storm
+  complete(symbols: string[]): void {
+    symbols.forEach(symbol => this.inFlight.delete(symbol));
+  }
+
+  summarize(plan: PollPlanEntry[]): PollScheduleSummary {
+    const byDemand = Object.fromEntries(pollDemands.map(kind => [kind, 0])) as Record<PollDemand, number>;
+    const intervals: Record<string, number> = {};
+    plan.forEach(entry => {
+      entry.demand.forEach(kind => { byDemand[kind]++; });
+      const label = `${entry.intervalMs / 1000}s`;
+      intervals[label] = (intervals[label] || 0) + 1;
+    });
+
+    return {
+      symbols: plan.length,
+      streaming: plan.filter(entry => entry.streaming).length,
+      byDemand,
+      intervals
+    };
+  }
+}
@@ -0,0 +1,163 @@
+import { Portfolio, IPortfolio } from '../models/Portfolio';
+import { MarketDataService, MarketData } from './MarketDataService';
+import { PortfolioValuationService } from './PortfolioValuationService';
+import { WebSocketService } from './WebSocketService';
+
+const createService = () => {
+  let onPrice: (data: MarketData) => void = () => undefined;
+  const marketData = {
+    onPriceUpdate: (callback: (data: MarketData) => void) => { onPrice = callback; },
+    subscribeToSymbol: jest.fn(),
+    unsubscribeFromSymbol: jest.fn(),
+    getMarketData: jest.fn().mockResolvedValue(null)
+  };
+  const webSocket = { broadcastPortfolioUpdate: jest.fn() };
+  const service = new PortfolioValuationService(
+    marketData as unknown as MarketDataService,
+    webSocket as unknown as WebSocketService
+  );
+  const tick = (symbol: string, price: number, simulated?: boolean) => onPrice({ symbol, price, simulated } as MarketData);
+
+  return { service, marketData, webSocket, tick };
+};
+
+const asset = (symbol: string, quantity: number, avgCostBasis: number) => ({
+  symbol,
+  name: symbol,
+  type: 'stock' as const,
+  quantity,
+  avgCostBasis,
+  currentPrice: avgCostBasis,
+  marketValue: quantity * avgCostBasis,
+  unrealizedPnL: 0,
+  unrealizedPnLPercent: 0,
+  lots: [],
+  lastUpdated: new Date()
+});
+
+const portfolio = (id: string, assets: ReturnType<typeof asset>[]): IPortfolio => {
+  const totalCost = assets.reduce((sum, holding) => sum + holding.quantity * holding.avgCostBasis, 0);
+  return {
+    _id: id,
+    userId: 'user-1',
+    name: 'Test',
+    totalValue: totalCost,
+    totalCost,
+    totalPnL: 0,
+    totalPnLPercent: 0,
+    cashBalance: 0,
+    realizedPnL: 0,
+    costBasisMethod: 'fifo',
+    assets
+  } as unknown as IPortfolio;
+};
+
+describe('PortfolioValuationService', () => {
+  // Flushes run on the service's one-second timer; start() finds nothing to track in MongoDB
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Portfolio, 'find').mockResolvedValue([] as never);
+    jest.spyOn(Portfolio, 'bulkWrite').mockResolvedValue({} as never);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('revalues holdings and totals when a price arrives', async () => {
+    const { service, webSocket, tick } = createService();
+    await service.start();
+    service.track(portfolio('p1', [asset('AAPL', 10, 100), asset('MSFT', 2, 300)]));
+
+    tick('AAPL', 110);
+    jest.advanceTimersByTime(1000);
+
+    const [id, payload] = webSocket.broadcastPortfolioUpdate.mock.calls[0];
+    expect(id).toBe('p1');
+    expect(payload.totalValue).toBe(1100 + 600);
+    expect(payload.totalCost).toBe(1600);
+    expect(payload.totalPnL).toBe(100);
+    expect(payload.totalPnLPercent).toBeCloseTo(6.25);
+
+    const aapl = payload.assets.find((holding: { symbol: string }) => holding.symbol === 'AAPL');
+    expect(aapl).toMatchObject({ currentPrice: 110, marketValue: 1100, unrealizedPnL: 100, unrealizedPnLPercent: 10 });
+  });
+
+  it('ignores unchanged and non-positive prices', async () => {
+    const { service, webSocket, tick } = createService();
+    await service.start();
+    service.track(portfolio('p1', [asset('AAPL', 10, 100)]));
+
+    tick('AAPL', 100);
+    tick('AAPL', 0);
+    jest.advanceTimersByTime(1000);
+
+    expect(webSocket.broadcastPortfolioUpdate).not.toHaveBeenCalled();
+  });
+
+  it('ignores simulated prices', async () => {
+    const { service, webSocket, tick } = createService();
+    await service.start();
+    service.track(portfolio('p1', [asset('AAPL', 10, 100)]));
+
+    tick('AAPL', 120, true);
+    jest.advanceTimersByTime(1000);
+
+    expect(webSocket.broadcastPortfolioUpdate).not.toHaveBeenCalled();
+  });
+
+  it('holds price changes back from the database until they settle', async () => {
+    const { service, tick } = createService();
+    await service.start();
+    service.track(portfolio('p1', [asset('AAPL', 10, 100)]));
+    tick('AAPL', 105);
+    jest.advanceTimersByTime(1000); // First write is overdue: never persisted before
+    expect(Portfolio.bulkWrite).toHaveBeenCalledTimes(1);
+    (Portfolio.bulkWrite as jest.Mock).mockClear();
+
+    tick('AAPL', 106);
+    jest.advanceTimersByTime(1000);
+    expect(Portfolio.bulkWrite).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(4000);
+    expect(Portfolio.bulkWrite).toHaveBeenCalledTimes(1);
+  });
+
+  it('subscribes to each held symbol once and releases it with the last holder', () => {
+    const { service, marketData } = createService();
+    service.track(portfolio('p1', [asset('AAPL', 1, 100)]));
+    service.track(portfolio('p2', [asset('AAPL', 2, 100)]));
+
+    expect(marketData.subscribeToSymbol).toHaveBeenCalledTimes(1);
+    expect(marketData.subscribeToSymbol).toHaveBeenCalledWith('AAPL', 'portfolio-valuation');
+
+    service.untrack('p1');
+    expect(marketData.unsubscribeFromSymbol).not.toHaveBeenCalled();
+    service.untrack('p2');
+    expect(marketData.unsubscribeFromSymbol).toHaveBeenCalledWith('AAPL', 'portfolio-valuation');
+  });
+
+  it('leaves subscriptions alone when a portfolio is re-tracked with the same holdings', () => {
+    const { service, marketData } = createService();
+    service.track(portfolio('p1', [asset('AAPL', 1, 100), asset('MSFT', 1, 300)]));
+    marketData.subscribeToSymbol.mockClear();
+
+    service.track(portfolio('p1', [asset('AAPL', 1, 100), asset('MSFT', 1, 300)]));
+
+    expect(marketData.subscribeToSymbol).not.toHaveBeenCalled();
+    expect(marketData.unsubscribeFromSymbol).not.toHaveBeenCalled();
+  });
+
+  it('subscribes and unsubscribes only the symbols that changed on re-track', () => {
+    const { service, marketData } = createService();
+    service.track(portfolio('p1', [asset('AAPL', 1, 100), asset('MSFT', 1, 300)]));
+    marketData.subscribeToSymbol.mockClear();
+
+    service.track(portfolio('p1', [asset('AAPL', 2, 100), asset('TSLA', 1, 200)]));
+
+    expect(marketData.subscribeToSymbol.mock.calls).toEqual([['TSLA', 'portfolio-valuation']]);
+    expect(marketData.unsubscribeFromSymbol.mock.calls).toEqual([['MSFT', 'portfolio-valuation']]);
+  });
+});
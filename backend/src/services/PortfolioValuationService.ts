@@ -0,0 +1,295 @@
+import { Portfolio, IPortfolio, IPortfolioAsset } from '../models/Portfolio';
+import { MarketDataService, MarketData } from './MarketDataService';
+import { WebSocketService } from './WebSocketService';
+
+interface TrackedPortfolio {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  totalValue: number;
+  totalCost: number;
+  totalPnL: number;
+  totalPnLPercent: number;
+  cashBalance: number;
+  realizedPnL: number;
+  costBasisMethod: IPortfolio['costBasisMethod'];
+  assets: IPortfolioAsset[];
+  dirty: boolean; // Changed since the last write to MongoDB
+  pendingEmit: boolean; // Changed since the last portfolioUpdate
+  lastChangedAt: number;
+  lastPersistedAt: number;
+}
+
+export class PortfolioValuationService {
+  private marketDataService: MarketDataService;
+  private webSocketService: WebSocketService;
+  private portfolios: Map<string, TrackedPortfolio> = new Map();
+  private portfoliosBySymbol: Map<string, Set<string>> = new Map(); // symbol -> portfolio IDs
+  private flushTimer?: NodeJS.Timeout;
+  private resyncTimer?: NodeJS.Timeout;
+  private flushInterval: number = 1000; // At most one portfolioUpdate per portfolio per second
+  private persistDebounce: number = 5000; // Write once prices settle for 5s...
+  private persistMaxWait: number = 30000; // ...but never hold changes longer than 30s
+  private resyncInterval: number = 300000;
+
+  constructor(marketDataService: MarketDataService, webSocketService: WebSocketService) {
+    this.marketDataService = marketDataService;
+    this.webSocketService = webSocketService;
+
+    // Holdings are only ever valued at real prices, never simulated ones
+    this.marketDataService.onPriceUpdate((data: MarketData) => {
+      if (!data.simulated) {
+        this.revalue(data.symbol, data.price);
+      }
+    });
+  }
+
+  async start(): Promise<void> {
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(error => console.warn('⚠️ Portfolio flush failed:', error.message));
+    }, this.flushInterval);
+    this.resyncTimer = setInterval(() => {
+      this.resync().catch(error => console.warn('⚠️ Portfolio resync failed:', error.message));
+    }, this.resyncInterval);
+    await this.resync();
+  }
+
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (this.resyncTimer) {
+      clearInterval(this.resyncTimer);
+      this.resyncTimer = undefined;
+    }
+    // Persist whatever is still pending before shutting down
+    await this.flush(true);
+  }
+
+  async resync(): Promise<void> {
+    const portfolios = await Portfolio.find({ 'assets.0': { $exists: true } });
+    const seen = new Set<string>();
+
+    portfolios.forEach(portfolio => {
+      seen.add(String(portfolio._id));
+      this.track(portfolio);
+    });
+    Array.from(this.portfolios.keys())
+      .filter(id => !seen.has(id))
+      .forEach(id => this.untrack(id));
+
+    console.log(`💼 Tracking ${this.portfolios.size} portfolios across ${this.portfoliosBySymbol.size} symbols`);
+  }
+
+  // Called by the portfolio routes whenever holdings change
+  track(portfolio: IPortfolio): void {
+    const id = String(portfolio._id);
+    const previous = this.portfolios.get(id);
+
+    const tracked: TrackedPortfolio = {
+      id,
+      userId: String(portfolio.userId),
+      name: portfolio.name,
+      description: portfolio.description,
+      totalValue: portfolio.totalValue,
+      totalCost: portfolio.totalCost,
+      totalPnL: portfolio.totalPnL,
+      totalPnLPercent: portfolio.totalPnLPercent,
+      cashBalance: portfolio.cashBalance,
+      realizedPnL: portfolio.realizedPnL,
+      costBasisMethod: portfolio.costBasisMethod,
+      assets: portfolio.assets.map(asset => ({
+        symbol: asset.symbol,
+        name: asset.name,
+        type: asset.type,
+        quantity: asset.quantity,
+        avgCostBasis: asset.avgCostBasis,
+        currentPrice: asset.currentPrice,
+        marketValue: asset.marketValue,
+        unrealizedPnL: asset.unrealizedPnL,
+        unrealizedPnLPercent: asset.unrealizedPnLPercent,
+        lots: asset.lots.map(lot => ({
+          transactionId: lot.transactionId,
+          quantity: lot.quantity,
+          costPerUnit: lot.costPerUnit,
+          acquiredAt: lot.acquiredAt
+        })),
+        lastUpdated: asset.lastUpdated
+      })),
+      dirty: previous?.dirty || false,
+      pendingEmit: false,
+      lastChangedAt: previous?.lastChangedAt || 0,
+      lastPersistedAt: previous?.lastPersistedAt || 0
+    };
+
+    if (tracked.assets.length === 0) {
+      this.untrack(id);
+      return;
+    }
+
+    // Totals stored by older code paths may not match the holdings
+    const storedValue = tracked.totalValue;
+    const storedCost = tracked.totalCost;
+    this.recalculateTotals(tracked);
+    if (tracked.totalValue !== storedValue || tracked.totalCost !== storedCost) {
+      tracked.dirty = true;
+      tracked.pendingEmit = true;
+      tracked.lastChangedAt = Date.now();
+    }
+
+    // Only symbols added or dropped since the last track change the subscriptions,
+    // so a resync with the same holdings never churns the upstream stream
+    const symbols = new Set(tracked.assets.map(asset => asset.symbol));
+    previous?.assets
+      .filter(asset => !symbols.has(asset.symbol))
+      .forEach(asset => this.releaseSymbol(asset.symbol, id));
+
+    this.portfolios.set(id, tracked);
+    tracked.assets.forEach(asset => {
+      if (!this.portfoliosBySymbol.has(asset.symbol)) {
+        this.portfoliosBySymbol.set(asset.symbol, new Set());
+        this.marketDataService.subscribeToSymbol(asset.symbol, 'portfolio-valuation');
+      }
+      this.portfoliosBySymbol.get(asset.symbol)!.add(id);
+
+      // Value new holdings straight away instead of waiting for the next tick
+      this.marketDataService.getMarketData(asset.symbol)
+        .then(data => { if (data) this.revalue(asset.symbol, data.price); })
+        .catch(() => undefined);
+    });
+  }
+
+  untrack(portfolioId: string): void {
+    const tracked = this.portfolios.get(portfolioId);
+    if (!tracked) return;
+
+    tracked.assets.forEach(asset => this.releaseSymbol(asset.symbol, portfolioId));
+    this.portfolios.delete(portfolioId);
+  }
+
+  // Drop one portfolio's interest in a symbol, unsubscribing with the last holder
+  private releaseSymbol(symbol: string, portfolioId: string): void {
+    const ids = this.portfoliosBySymbol.get(symbol);
+    if (!ids) return;
+
+    ids.delete(portfolioId);
+    if (ids.size === 0) {
+      this.portfoliosBySymbol.delete(symbol);
+      this.marketDataService.unsubscribeFromSymbol(symbol, 'portfolio-valuation');
+    }
+  }
+
+  private revalue(symbol: string, price: number): void {
+    const ids = this.portfoliosBySymbol.get(symbol);
+    if (!ids || !(price > 0)) return;
+
+    const now = new Date();
+    ids.forEach(id => {
+      const portfolio = this.portfolios.get(id);
+      if (!portfolio) return;
+
+      let changed = false;
+      portfolio.assets.forEach(asset => {
+        if (asset.symbol !== symbol || asset.currentPrice === price) return;
+
+        const costBasis = asset.quantity * asset.avgCostBasis;
+        asset.currentPrice = price;
+        asset.marketValue = asset.quantity * price;
+        asset.unrealizedPnL = asset.marketValue - costBasis;
+        asset.unrealizedPnLPercent = costBasis > 0 ? (asset.unrealizedPnL / costBasis) * 100 : 0;
+        asset.lastUpdated = now;
+        changed = true;
+      });
+
+      if (changed) {
+        this.recalculateTotals(portfolio);
+        portfolio.dirty = true;
+        portfolio.pendingEmit = true;
+        portfolio.lastChangedAt = now.getTime();
+      }
+    });
+  }
+
+  private recalculateTotals(portfolio: TrackedPortfolio): void {
+    portfolio.totalValue = portfolio.assets.reduce((sum, asset) => sum + asset.marketValue, 0);
+    portfolio.totalCost = portfolio.assets.reduce((sum, asset) => sum + (asset.quantity * asset.avgCostBasis), 0);
+    portfolio.totalPnL = portfolio.totalValue - portfolio.totalCost;
+    portfolio.totalPnLPercent = portfolio.totalCost > 0 ? (portfolio.totalPnL / portfolio.totalCost) * 100 : 0;
+  }
+
+  private async flush(force: boolean = false): Promise<void> {
+    const now = Date.now();
+    const toPersist: TrackedPortfolio[] = [];
+
+    this.portfolios.forEach(portfolio => {
+      if (portfolio.pendingEmit) {
+        portfolio.pendingEmit = false;
+        this.webSocketService.broadcastPortfolioUpdate(portfolio.id, this.toPayload(portfolio));
+      }
+
+      if (!portfolio.dirty) return;
+      const settled = now - portfolio.lastChangedAt >= this.persistDebounce;
+      const overdue = now - portfolio.lastPersistedAt >= this.persistMaxWait;
+      if (force || settled || overdue) {
+        toPersist.push(portfolio);
+      }
+    });
+
+    if (toPersist.length === 0) return;
+
+    // Only valuation fields are written so concurrent edits to holdings are never overwritten
+    const operations = toPersist.map(portfolio => {
+      const $set: Record<string, any> = {
+        totalValue: portfolio.totalValue,
+        totalCost: portfolio.totalCost,
+        totalPnL: portfolio.totalPnL,
+        totalPnLPercent: portfolio.totalPnLPercent
+      };
+      const arrayFilters: Record<string, string>[] = [];
+
+      portfolio.assets.forEach((asset, i) => {
+        $set[`assets.$[a${i}].currentPrice`] = asset.currentPrice;
+        $set[`assets.$[a${i}].marketValue`] = asset.marketValue;
+        $set[`assets.$[a${i}].unrealizedPnL`] = asset.unrealizedPnL;
+        $set[`assets.$[a${i}].unrealizedPnLPercent`] = asset.unrealizedPnLPercent;
+        $set[`assets.$[a${i}].lastUpdated`] = asset.lastUpdated;
+        arrayFilters.push({ [`a${i}.symbol`]: asset.symbol });
+      });
+
+      return { updateOne: { filter: { _id: portfolio.id }, update: { $set }, arrayFilters } };
+    });
+
+    toPersist.forEach(portfolio => {
+      portfolio.dirty = false;
+      portfolio.lastPersistedAt = now;
+    });
+
+    try {
+      await Portfolio.bulkWrite(operations);
+    } catch (error) {
+      // Try again on the next flush
+      toPersist.forEach(portfolio => { portfolio.dirty = true; });
+      throw error;
+    }
+  }
+
+  private toPayload(portfolio: TrackedPortfolio) {
+    return {
+      _id: portfolio.id,
+      userId: portfolio.userId,
+      name: portfolio.name,
+      description: portfolio.description,
+      totalValue: portfolio.totalValue,
+      totalCost: portfolio.totalCost,
+      totalPnL: portfolio.totalPnL,
+      totalPnLPercent: portfolio.totalPnLPercent,
+      cashBalance: portfolio.cashBalance,
+      realizedPnL: portfolio.realizedPnL,
+      costBasisMethod: portfolio.costBasisMethod,
+      assets: portfolio.assets,
+      updatedAt: new Date(portfolio.lastChangedAt)
+    };
+  }
+}
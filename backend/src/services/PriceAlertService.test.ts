@@ -0,0 +1,147 @@
+import mongoose from 'mongoose';
+import { PriceAlert, IPriceAlert } from '../models/PriceAlert';
+import { PriceAlertService } from './PriceAlertService';
+import { MarketDataService, MarketData } from './MarketDataService';
+import { WebSocketService } from './WebSocketService';
+
+const createService = () => {
+  let onPriceUpdate: (data: MarketData) => void = () => undefined;
+  const marketData = {
+    onPriceUpdate: (callback: typeof onPriceUpdate) => { onPriceUpdate = callback; },
+    subscribeToSymbol: jest.fn(),
+    unsubscribeFromSymbol: jest.fn()
+  };
+  const webSocket = { sendPriceAlert: jest.fn() };
+  const service = new PriceAlertService(
+    marketData as unknown as MarketDataService,
+    webSocket as unknown as WebSocketService
+  );
+
+  const tick = (symbol: string, price: number, simulated?: boolean) =>
+    onPriceUpdate({ symbol, price, simulated } as MarketData);
+
+  return { service, marketData, webSocket, tick };
+};
+
+const alert = (fields: Partial<IPriceAlert>) => ({
+  _id: new mongoose.Types.ObjectId(),
+  userId: new mongoose.Types.ObjectId(),
+  symbol: 'AAPL',
+  currentPrice: 100,
+  isActive: true,
+  isTriggered: false,
+  ...fields
+} as IPriceAlert);
+
+// The update only matches while the alert is untriggered, so it returns a document once
+const triggerOnce = () => {
+  const triggered = new Set<string>();
+  return jest.spyOn(PriceAlert, 'findOneAndUpdate').mockImplementation((async (filter: { _id: string }) => {
+    if (triggered.has(String(filter._id))) return null;
+    triggered.add(String(filter._id));
+    return { toObject: () => ({ _id: filter._id, isTriggered: true }) };
+  }) as never);
+};
+
+describe('PriceAlertService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fires above and below alerts once the price crosses their target', async () => {
+    const update = triggerOnce();
+    const { service, webSocket, tick } = createService();
+    const above = alert({ alertType: 'above', targetPrice: 110 });
+    const below = alert({ alertType: 'below', targetPrice: 90 });
+    service.track(above);
+    service.track(below);
+
+    tick('AAPL', 105);
+    await Promise.resolve();
+    expect(update).not.toHaveBeenCalled();
+
+    tick('AAPL', 110);
+    await new Promise(setImmediate);
+    expect(webSocket.sendPriceAlert).toHaveBeenCalledWith(String(above.userId), expect.objectContaining({ _id: String(above._id) }));
+
+    tick('AAPL', 89.5);
+    await new Promise(setImmediate);
+    expect(webSocket.sendPriceAlert).toHaveBeenCalledTimes(2);
+    expect(service.getActiveAlertCount()).toBe(0);
+  });
+
+  it('measures change_percent alerts from their reference price in either direction', async () => {
+    triggerOnce();
+    const { service, webSocket, tick } = createService();
+    service.track(alert({ alertType: 'change_percent', changePercent: 5, currentPrice: 200 }));
+    service.track(alert({ alertType: 'change_percent', changePercent: -5, currentPrice: 200 }));
+
+    tick('AAPL', 209);
+    tick('AAPL', 191);
+    await new Promise(setImmediate);
+    expect(webSocket.sendPriceAlert).not.toHaveBeenCalled();
+
+    tick('AAPL', 210);
+    await new Promise(setImmediate);
+    expect(webSocket.sendPriceAlert).toHaveBeenCalledTimes(1);
+
+    tick('AAPL', 190);
+    await new Promise(setImmediate);
+    expect(webSocket.sendPriceAlert).toHaveBeenCalledTimes(2);
+  });
+
+  it('never fires on a simulated price', async () => {
+    const update = triggerOnce();
+    const { service, tick } = createService();
+    service.track(alert({ alertType: 'above', targetPrice: 110 }));
+
+    tick('AAPL', 500, true);
+    await new Promise(setImmediate);
+
+    expect(update).not.toHaveBeenCalled();
+    expect(service.getActiveAlertCount()).toBe(1);
+  });
+
+  it('fires once when several ticks and processes race for the same alert', async () => {
+    const update = triggerOnce();
+    const { service, webSocket, tick } = createService();
+    const target = alert({ alertType: 'above', targetPrice: 110 });
+    service.track(target);
+
+    tick('AAPL', 111);
+    tick('AAPL', 112); // Still waiting on the first update
+    await new Promise(setImmediate);
+    expect(update).toHaveBeenCalledTimes(1);
+
+    // Another process re-indexed it before learning it had fired
+    service.track(target);
+    tick('AAPL', 113);
+    await new Promise(setImmediate);
+
+    expect(update).toHaveBeenCalledTimes(2);
+    expect(webSocket.sendPriceAlert).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-arms a change_percent alert from the reference price it is tracked with', async () => {
+    const update = triggerOnce();
+    const { service, tick } = createService();
+    const rearmed = alert({ alertType: 'change_percent', changePercent: 5, currentPrice: 100 });
+    service.track(rearmed);
+    tick('AAPL', 120);
+    await new Promise(setImmediate);
+    expect(update).toHaveBeenCalledTimes(1);
+
+    service.track({ ...rearmed, currentPrice: 120 } as IPriceAlert);
+    tick('AAPL', 121);
+    await new Promise(setImmediate);
+    expect(update).toHaveBeenCalledTimes(1);
+
+    tick('AAPL', 126);
+    await new Promise(setImmediate);
+    expect(update).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,172 @@
+import { PriceAlert, IPriceAlert } from '../models/PriceAlert';
+import { MarketDataService, MarketData } from './MarketDataService';
+import { WebSocketService } from './WebSocketService';
+
+// The fields the evaluator needs, kept in memory for every active alert
+interface IndexedAlert {
+  id: string;
+  userId: string;
+  symbol: string;
+  alertType: IPriceAlert['alertType'];
+  targetPrice?: number;
+  changePercent?: number;
+  referencePrice: number;
+}
+
+export class PriceAlertService {
+  private marketDataService: MarketDataService;
+  private webSocketService: WebSocketService;
+  private alertsBySymbol: Map<string, Map<string, IndexedAlert>> = new Map(); // symbol -> alert id -> alert
+  private pendingTriggers: Set<string> = new Set();
+  private resyncTimer?: NodeJS.Timeout;
+  private resyncInterval: number = 60000; // Pick up alerts changed outside this process
+
+  constructor(marketDataService: MarketDataService, webSocketService: WebSocketService) {
+    this.marketDataService = marketDataService;
+    this.webSocketService = webSocketService;
+
+    this.marketDataService.onPriceUpdate((data: MarketData) => {
+      this.evaluate(data);
+    });
+  }
+
+  async start(): Promise<void> {
+    this.resyncTimer = setInterval(() => {
+      this.resync().catch(error => console.warn('⚠️ Alert resync failed:', error.message));
+    }, this.resyncInterval);
+    await this.resync();
+  }
+
+  stop(): void {
+    if (this.resyncTimer) {
+      clearInterval(this.resyncTimer);
+      this.resyncTimer = undefined;
+    }
+  }
+
+  // Rebuild the symbol index from every active, untriggered alert
+  async resync(): Promise<void> {
+    const alerts = await PriceAlert.find({ isActive: true, isTriggered: false });
+    const previousSymbols = Array.from(this.alertsBySymbol.keys());
+
+    this.alertsBySymbol.clear();
+    alerts.forEach(alert => this.index(alert));
+
+    // Symbols whose alerts were all deleted or triggered elsewhere no longer need prices
+    previousSymbols
+      .filter(symbol => !this.alertsBySymbol.has(symbol))
+      .forEach(symbol => this.marketDataService.unsubscribeFromSymbol(symbol, 'price-alerts'));
+    console.log(`🔔 Alert index loaded: ${alerts.length} active alerts on ${this.alertsBySymbol.size} symbols`);
+  }
+
+  // Called by the alert routes after an alert is created, updated or toggled
+  track(alert: IPriceAlert): void {
+    this.untrack(String(alert._id));
+    if (alert.isActive && !alert.isTriggered) {
+      this.index(alert);
+    }
+  }
+
+  untrack(alertId: string): void {
+    this.alertsBySymbol.forEach((alerts, symbol) => {
+      if (alerts.delete(alertId) && alerts.size === 0) {
+        this.alertsBySymbol.delete(symbol);
+        this.marketDataService.unsubscribeFromSymbol(symbol, 'price-alerts');
+      }
+    });
+  }
+
+  getActiveAlertCount(): number {
+    let count = 0;
+    this.alertsBySymbol.forEach(alerts => { count += alerts.size; });
+    return count;
+  }
+
+  private index(alert: IPriceAlert): void {
+    const indexed: IndexedAlert = {
+      id: String(alert._id),
+      userId: String(alert.userId),
+      symbol: alert.symbol,
+      alertType: alert.alertType,
+      targetPrice: alert.targetPrice,
+      changePercent: alert.changePercent,
+      referencePrice: alert.currentPrice
+    };
+
+    if (!this.alertsBySymbol.has(indexed.symbol)) {
+      this.alertsBySymbol.set(indexed.symbol, new Map());
+      // Make sure prices keep flowing for symbols somebody is watching
+      this.marketDataService.subscribeToSymbol(indexed.symbol, 'price-alerts');
+    }
+    this.alertsBySymbol.get(indexed.symbol)!.set(indexed.id, indexed);
+  }
+
+  private evaluate(data: MarketData): void {
+    // A made-up price must never fire (and permanently trigger) an alert
+    if (data.simulated) return;
+
+    const alerts = this.alertsBySymbol.get(data.symbol.toUpperCase());
+    if (!alerts || alerts.size === 0 || !(data.price > 0)) return;
+
+    alerts.forEach(alert => {
+      if (this.pendingTriggers.has(alert.id)) return;
+      if (this.isConditionMet(alert, data.price)) {
+        this.trigger(alert, data.price);
+      }
+    });
+  }
+
+  /**
+   * above / below: the price crossed targetPrice.
+   * change_percent: the price moved changePercent% away from the price the
+   * alert was created at. A positive value waits for a rise, a negative one
+   * for a drop.
+   */
+  private isConditionMet(alert: IndexedAlert, price: number): boolean {
+    switch (alert.alertType) {
+      case 'above':
+        return alert.targetPrice !== undefined && price >= alert.targetPrice;
+      case 'below':
+        return alert.targetPrice !== undefined && price <= alert.targetPrice;
+      case 'change_percent': {
+        if (!alert.changePercent || !(alert.referencePrice > 0)) return false;
+        const movePercent = ((price - alert.referencePrice) / alert.referencePrice) * 100;
+        return alert.changePercent > 0
+          ? movePercent >= alert.changePercent
+          : movePercent <= alert.changePercent;
+      }
+      default:
+        return false;
+    }
+  }
+
+  private async trigger(alert: IndexedAlert, price: number): Promise<void> {
+    this.pendingTriggers.add(alert.id);
+
+    try {
+      // Only the update that flips isTriggered gets a document back, so an
+      // alert fires once even if several ticks or processes race for it
+      const triggered = await PriceAlert.findOneAndUpdate(
+        { _id: alert.id, isActive: true, isTriggered: false },
+        {
+          isTriggered: true,
+          triggeredAt: new Date(),
+          triggeredPrice: price,
+          isActive: false // Deactivate after triggering
+        },
+        { new: true }
+      );
+
+      this.untrack(alert.id);
+
+      if (triggered) {
+        console.log(`🔔 Alert ${alert.id} triggered: ${alert.symbol} ${alert.alertType} at $${price}`);
+        this.webSocketService.sendPriceAlert(alert.userId, triggered.toObject());
+      }
+    } catch (error) {
+      console.error(`❌ Failed to trigger alert ${alert.id}:`, error instanceof Error ? error.message : String(error));
+    } finally {
+      this.pendingTriggers.delete(alert.id);
+    }
+  }
+}
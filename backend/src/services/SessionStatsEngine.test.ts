@@ -0,0 +1,91 @@
+import { MarketDataProvider } from './providers/MarketDataProvider';
+import { SessionStatsEngine, CryptoSessionMode } from './SessionStatsEngine';
+
+// Seeding bars never arrive, so the stats come from the trades alone
+const createEngine = (cryptoMode?: CryptoSessionMode) => {
+  const provider = { getBars: () => new Promise(() => undefined) } as unknown as MarketDataProvider;
+  const engine = new SessionStatsEngine(provider, cryptoMode);
+  const trade = (symbol: string, price: number, at: string, size: number = 1) =>
+    engine.applyTrade({ symbol, price, size, timestamp: new Date(at) });
+
+  return { engine, trade };
+};
+
+describe('SessionStatsEngine', () => {
+  describe('stock sessions', () => {
+    it('accumulates the day from trades', () => {
+      const { trade } = createEngine();
+      trade('AAPL', 100, '2024-03-04T14:31:00Z', 10);
+      trade('AAPL', 104, '2024-03-04T15:00:00Z', 5);
+      const data = trade('AAPL', 98, '2024-03-04T16:00:00Z', 5);
+
+      expect(data).toMatchObject({ price: 98, open: 100, high: 104, low: 98, volume: 20 });
+    });
+
+    it('rolls over on the New York date and closes on the last regular-hours price', () => {
+      const { trade } = createEngine();
+      trade('AAPL', 100, '2024-03-04T14:31:00Z');
+      trade('AAPL', 110, '2024-03-04T20:59:00Z'); // 15:59 ET
+      trade('AAPL', 115, '2024-03-04T22:30:00Z'); // 17:30 ET, after hours
+      trade('AAPL', 116, '2024-03-05T03:00:00Z'); // Still 22:00 ET on the 4th
+
+      const data = trade('AAPL', 121, '2024-03-05T14:35:00Z', 3);
+
+      expect(data).toMatchObject({ open: 121, high: 121, low: 121, volume: 3, previousClose: 110 });
+      expect(data.changeBaseline).toBe('prevClose');
+      expect(data.change).toBeCloseTo(11);
+      expect(data.changePercent).toBeCloseTo(10);
+    });
+
+    it('falls back to the last price when the day had no regular-hours trades', () => {
+      const { trade } = createEngine();
+      trade('AAPL', 100, '2024-03-04T12:00:00Z'); // 07:00 ET, pre-market
+      const data = trade('AAPL', 105, '2024-03-05T14:35:00Z');
+
+      expect(data.previousClose).toBe(100);
+    });
+
+    it('counts late trades in the range without rolling back or moving the price', () => {
+      const { trade } = createEngine();
+      trade('AAPL', 100, '2024-03-04T20:00:00Z');
+      trade('AAPL', 110, '2024-03-05T14:35:00Z');
+      const data = trade('AAPL', 90, '2024-03-05T14:34:00Z');
+
+      expect(data).toMatchObject({ price: 110, low: 90, previousClose: 100 });
+    });
+  });
+
+  describe('crypto sessions', () => {
+    it('rolls over at midnight UTC in utc mode', () => {
+      const { trade } = createEngine('utc');
+      trade('BTC/USD', 40000, '2024-03-04T10:00:00Z');
+      trade('BTC/USD', 42000, '2024-03-04T23:59:30Z');
+      const data = trade('BTC/USD', 43000, '2024-03-05T00:00:10Z', 2);
+
+      expect(data).toMatchObject({ open: 43000, volume: 2, previousClose: 42000 });
+    });
+
+    it('measures against the start of the trailing 24 hours in rolling24h mode', () => {
+      const { trade } = createEngine('rolling24h');
+      trade('BTC/USD', 40000, '2024-03-04T10:00:00Z');
+      trade('BTC/USD', 41000, '2024-03-04T20:00:00Z');
+      let data = trade('BTC/USD', 42000, '2024-03-05T09:00:00Z');
+
+      expect(data).toMatchObject({ open: 40000, previousClose: 40000, high: 42000, volume: 3 });
+      expect(data.changeBaseline).toBe('24h');
+
+      // The first trade drops out of the window once it is more than a day old
+      data = trade('BTC/USD', 42500, '2024-03-05T10:30:00Z');
+      expect(data).toMatchObject({ open: 41000, previousClose: 41000, low: 41000, volume: 3 });
+    });
+  });
+
+  it('reports the price one minute before the last trade', () => {
+    const { trade } = createEngine();
+    trade('AAPL', 100, '2024-03-04T15:00:10Z');
+    trade('AAPL', 101, '2024-03-04T15:00:50Z');
+    const data = trade('AAPL', 103, '2024-03-04T15:02:05Z');
+
+    expect(data.baselines?.['1m']).toBe(101);
+  });
+});
@@ -0,0 +1,354 @@
+import { MarketData, ChangeBaseline } from './MarketDataService';
+import { MarketDataProvider, StreamTrade, Bar } from './providers/MarketDataProvider';
+import { AssetClass, getAssetClass } from './SubscriptionManager';
+import { toNewYork } from './marketTime';
+
+/**
+ * How crypto sessions are cut:
+ * - utc: a session is one UTC calendar day; change is measured against the
+ *   last price of the previous UTC day
+ * - rolling24h: the session is the trailing 24 hours; open, high, low and
+ *   volume cover that window and change is measured against the price 24h ago
+ */
+export type CryptoSessionMode = 'utc' | 'rolling24h';
+
+// One slice of the trailing 24h window: seeded from hourly bars, then minute by minute from trades
+interface SessionBucket {
+  start: number;
+  span: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+interface SessionState {
+  symbol: string;
+  assetClass: AssetClass;
+  sessionKey: string;
+  open: number;
+  high: number;
+  low: number;
+  volume: number;
+  previousClose: number;
+  lastPrice: number;
+  lastRegularPrice: number | null; // Stocks: last trade inside 9:30-16:00 ET, the session's closing price
+  lastTimestamp: number;
+  buckets: SessionBucket[]; // Trailing 24 hours, for the 1m and 24h baselines and rolling crypto sessions
+  quoteMinutePrice: { price: number; at: number } | null; // 1m reference reported by the last quote
+  seeded: boolean;
+  seedAttemptAt: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const SEED_RETRY_MS = 60 * 1000;
+
+// What change is measured against when the caller doesn't ask for anything
+export const defaultChangeBaselines: Record<AssetClass, ChangeBaseline> = {
+  stock: 'prevClose',
+  crypto: '24h'
+};
+
+/**
+ * Recomputes change and changePercent against another reference price carried
+ * in `baselines`. When that reference isn't known the data is returned as-is,
+ * so `changeBaseline` always names the reference actually used.
+ */
+export const withChangeBaseline = (data: MarketData, baseline: ChangeBaseline): MarketData => {
+  const reference = data.baselines?.[baseline];
+  if (!reference || !(reference > 0)) return data;
+
+  const change = data.price - reference;
+  return {
+    ...data,
+    change,
+    changePercent: (change / reference) * 100,
+    changeBaseline: baseline
+  };
+};
+const REGULAR_OPEN_MINUTES = 9 * 60 + 30;
+const REGULAR_CLOSE_MINUTES = 16 * 60;
+
+/**
+ * Per-symbol day statistics (open, high, low, volume, previous close) kept
+ * up to date from streamed trades, so a trade can be published as complete
+ * MarketData instead of a bare price.
+ *
+ * A symbol's state is seeded from the provider's snapshot quote when one
+ * passes through applyQuote, otherwise from recent bars. Stock sessions
+ * follow the New York trading date and roll over on the first trade of a new
+ * date, taking the last regular-hours price as the previous close. Crypto
+ * sessions follow CryptoSessionMode.
+ */
+export class SessionStatsEngine {
+  private provider: MarketDataProvider;
+  private cryptoMode: CryptoSessionMode;
+  private sessions: Map<string, SessionState> = new Map();
+
+  constructor(provider: MarketDataProvider, cryptoMode: CryptoSessionMode = 'utc') {
+    this.provider = provider;
+    this.cryptoMode = cryptoMode;
+  }
+
+  has(symbol: string): boolean {
+    return this.sessions.has(symbol);
+  }
+
+  applyTrade(trade: StreamTrade): MarketData {
+    const timestamp = trade.timestamp.getTime();
+    const state = this.getState(trade.symbol, trade.price, timestamp);
+
+    // Late trades still count towards the day's range and volume but don't move the last price
+    if (timestamp >= state.lastTimestamp) {
+      state.lastPrice = trade.price;
+      state.lastTimestamp = timestamp;
+    }
+    state.high = Math.max(state.high, trade.price);
+    state.low = Math.min(state.low, trade.price);
+    state.volume += trade.size;
+
+    if (state.assetClass === 'stock' && this.isRegularHours(timestamp)) {
+      state.lastRegularPrice = trade.price;
+    }
+    this.addToWindow(state, trade.price, trade.size, timestamp);
+
+    this.ensureSeeded(state);
+    return this.toMarketData(state);
+  }
+
+  /**
+   * Folds a polled snapshot quote into the session. Its daily bar figures are
+   * authoritative for the current day, so they replace what trades have
+   * accumulated; rolling windows only take the price since snapshot bars are
+   * calendar days.
+   */
+  applyQuote(quote: MarketData): MarketData {
+    const timestamp = new Date(quote.timestamp).getTime();
+    const state = this.getState(quote.symbol, quote.price, timestamp);
+
+    if (timestamp >= state.lastTimestamp) {
+      state.lastPrice = quote.price;
+      state.lastTimestamp = timestamp;
+    }
+    const minutePrice = quote.baselines?.['1m'];
+    if (minutePrice && minutePrice > 0) {
+      state.quoteMinutePrice = { price: minutePrice, at: timestamp };
+    }
+
+    const sameSession = this.getSessionKey(state.assetClass, timestamp) === state.sessionKey;
+    if (!this.isRolling(state) && sameSession && quote.open > 0 && quote.previousClose > 0) {
+      state.open = quote.open;
+      state.high = Math.max(quote.high, state.lastPrice);
+      state.low = quote.low > 0 ? Math.min(quote.low, state.lastPrice) : state.lastPrice;
+      state.volume = Math.max(quote.volume, state.volume);
+      state.previousClose = quote.previousClose;
+      state.seeded = true;
+    }
+
+    this.ensureSeeded(state);
+    return this.toMarketData(state);
+  }
+
+  private getState(symbol: string, price: number, timestamp: number): SessionState {
+    const assetClass = getAssetClass(symbol);
+    const sessionKey = this.getSessionKey(assetClass, timestamp);
+    let state = this.sessions.get(symbol);
+
+    if (!state) {
+      state = {
+        symbol,
+        assetClass,
+        sessionKey,
+        open: price,
+        high: price,
+        low: price,
+        volume: 0,
+        previousClose: 0,
+        lastPrice: price,
+        lastRegularPrice: null,
+        lastTimestamp: timestamp,
+        buckets: [],
+        quoteMinutePrice: null,
+        seeded: false,
+        seedAttemptAt: 0
+      };
+      this.sessions.set(symbol, state);
+    } else if (state.sessionKey !== sessionKey && timestamp >= state.lastTimestamp) {
+      this.rollOver(state, sessionKey, price);
+    }
+
+    this.trimWindow(state, timestamp);
+    return state;
+  }
+
+  private rollOver(state: SessionState, sessionKey: string, price: number): void {
+    state.previousClose = state.assetClass === 'stock'
+      ? state.lastRegularPrice ?? state.lastPrice
+      : state.lastPrice;
+    state.sessionKey = sessionKey;
+    state.open = price;
+    state.high = price;
+    state.low = price;
+    state.volume = 0;
+    state.lastRegularPrice = null;
+  }
+
+  private ensureSeeded(state: SessionState): void {
+    if (!state.seeded && Date.now() - state.seedAttemptAt > SEED_RETRY_MS) {
+      this.seed(state);
+    }
+  }
+
+  // Fill in the day so far from bars; trades that arrived meanwhile keep the range wide
+  private seed(state: SessionState): void {
+    const now = Date.now();
+    state.seedAttemptAt = now;
+    const rolling = this.isRolling(state);
+
+    // Hourly bars always back the 24h window; daily bars give calendar sessions their previous close
+    const hourly = this.provider.getBars({
+      symbol: state.symbol, timeframe: '1Hour', start: new Date(now - DAY_MS).toISOString(), limit: 30, priority: 'low'
+    });
+    const daily = rolling ? Promise.resolve([]) : this.provider.getBars({
+      symbol: state.symbol, timeframe: '1Day', start: new Date(now - 10 * DAY_MS).toISOString(), limit: 10, priority: 'low'
+    });
+
+    Promise.all([hourly, daily])
+      .then(([hourlyBars, dailyBars]) => {
+        const byTime = (a: Bar, b: Bar) => a.timestamp - b.timestamp;
+        this.seedWindow(state, [...hourlyBars].sort(byTime));
+        if (!rolling && !state.seeded) {
+          this.seedSession(state, [...dailyBars].sort(byTime));
+        }
+      })
+      .catch(error => console.warn(`⚠️ Session stats unavailable for ${state.symbol}:`, error.message));
+  }
+
+  private seedSession(state: SessionState, bars: Bar[]): void {
+    const today = bars.filter(bar => this.getSessionKey(state.assetClass, bar.timestamp) === state.sessionKey);
+    const previous = bars.filter(bar => this.getSessionKey(state.assetClass, bar.timestamp) < state.sessionKey);
+
+    if (previous.length > 0) {
+      state.previousClose = previous[previous.length - 1].close;
+    }
+    if (today.length > 0) {
+      const bar = today[today.length - 1];
+      state.open = bar.open;
+      state.high = Math.max(state.high, bar.high);
+      state.low = Math.min(state.low, bar.low);
+      state.volume = Math.max(state.volume, bar.volume);
+    }
+    state.seeded = previous.length > 0;
+  }
+
+  private seedWindow(state: SessionState, bars: Bar[]): void {
+    const firstTrade = state.buckets.length > 0 ? state.buckets[0].start : Infinity;
+    const seeded = bars
+      .filter(bar => bar.timestamp < firstTrade)
+      .map(bar => ({ start: bar.timestamp, span: HOUR_MS, open: bar.open, high: bar.high, low: bar.low, close: bar.close, volume: bar.volume }));
+
+    state.buckets = [...seeded, ...state.buckets];
+    this.trimWindow(state, Date.now());
+    if (this.isRolling(state)) {
+      state.seeded = seeded.length > 0;
+    }
+  }
+
+  private addToWindow(state: SessionState, price: number, size: number, timestamp: number): void {
+    const start = Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+    const last = state.buckets[state.buckets.length - 1];
+
+    if (last && last.start === start) {
+      last.high = Math.max(last.high, price);
+      last.low = Math.min(last.low, price);
+      last.close = price;
+      last.volume += size;
+    } else if (!last || start > last.start) {
+      state.buckets.push({ start, span: MINUTE_MS, open: price, high: price, low: price, close: price, volume: size });
+    }
+    if (this.isRolling(state)) {
+      this.summarizeWindow(state);
+    }
+  }
+
+  private trimWindow(state: SessionState, now: number): void {
+    const cutoff = now - DAY_MS;
+    const firstKept = state.buckets.findIndex(bucket => bucket.start >= cutoff);
+    if (firstKept !== 0) {
+      state.buckets = firstKept === -1 ? [] : state.buckets.slice(firstKept);
+    }
+    if (this.isRolling(state)) {
+      this.summarizeWindow(state);
+    }
+  }
+
+  private summarizeWindow(state: SessionState): void {
+    if (state.buckets.length === 0) return;
+
+    state.open = state.buckets[0].open;
+    state.previousClose = state.buckets[0].open; // Price at the start of the window, i.e. ~24h ago
+    state.high = Math.max(...state.buckets.map(bucket => bucket.high));
+    state.low = Math.min(...state.buckets.map(bucket => bucket.low));
+    state.volume = state.buckets.reduce((sum, bucket) => sum + bucket.volume, 0);
+  }
+
+  private toMarketData(state: SessionState): MarketData {
+    const baselines: Partial<Record<ChangeBaseline, number>> = {};
+    const minutePrice = this.getMinuteAgoPrice(state);
+    if (minutePrice) baselines['1m'] = minutePrice;
+    if (state.buckets.length > 0) baselines['24h'] = state.buckets[0].open;
+    if (state.open > 0) baselines.open = state.open;
+    if (state.previousClose > 0) baselines.prevClose = state.previousClose;
+
+    const data: MarketData = {
+      symbol: state.symbol,
+      price: state.lastPrice,
+      change: 0,
+      changePercent: 0,
+      volume: state.volume,
+      high: state.high,
+      low: state.low,
+      open: state.open,
+      previousClose: state.previousClose,
+      changeBaseline: 'prevClose',
+      baselines,
+      timestamp: new Date(state.lastTimestamp)
+    };
+    const baseline = [defaultChangeBaselines[state.assetClass], 'prevClose', 'open']
+      .find(candidate => baselines[candidate as ChangeBaseline]) as ChangeBaseline | undefined;
+    return baseline ? withChangeBaseline(data, baseline) : data;
+  }
+
+  // Last price as of one minute before the last trade, to within a minute
+  private getMinuteAgoPrice(state: SessionState): number | null {
+    const target = state.lastTimestamp - MINUTE_MS;
+    for (let i = state.buckets.length - 1; i >= 0; i--) {
+      const bucket = state.buckets[i];
+      if (bucket.start <= target) {
+        // A bucket's close is its price at bucket end, so an hourly seed bar around the target won't do
+        if (bucket.start + bucket.span <= target + MINUTE_MS) return bucket.close;
+        break;
+      }
+    }
+
+    const quoted = state.quoteMinutePrice;
+    return quoted && state.lastTimestamp - quoted.at < 2 * MINUTE_MS ? quoted.price : null;
+  }
+
+  private getSessionKey(assetClass: AssetClass, timestamp: number): string {
+    if (assetClass === 'stock') return toNewYork(timestamp).date;
+    return this.cryptoMode === 'rolling24h' ? 'rolling' : new Date(timestamp).toISOString().slice(0, 10);
+  }
+
+  private isRolling(state: SessionState): boolean {
+    return state.assetClass === 'crypto' && this.cryptoMode === 'rolling24h';
+  }
+
+  private isRegularHours(timestamp: number): boolean {
+    const { minutes } = toNewYork(timestamp);
+    return minutes >= REGULAR_OPEN_MINUTES && minutes < REGULAR_CLOSE_MINUTES;
+  }
+}
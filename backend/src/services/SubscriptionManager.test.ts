@@ -0,0 +1,101 @@
+import { MarketDataProvider } from './providers/MarketDataProvider';
+import { AlpacaMarketDataProvider } from './providers/AlpacaMarketDataProvider';
+import { AlpacaStreamConnection } from './providers/AlpacaStreamConnection';
+import { SubscriptionManager, getAssetClass } from './SubscriptionManager';
+
+jest.mock('./providers/AlpacaStreamConnection');
+
+const createManager = () => {
+  const provider = { subscribe: jest.fn(), unsubscribe: jest.fn() };
+  const manager = new SubscriptionManager(provider as unknown as MarketDataProvider);
+  return { manager, provider };
+};
+
+describe('SubscriptionManager', () => {
+  it('subscribes upstream on the first owner only', () => {
+    const { manager, provider } = createManager();
+    manager.acquire('socket:a', ['AAPL', 'MSFT']);
+    manager.acquire('socket:b', ['AAPL', 'TSLA']);
+    manager.acquire('socket:a', ['AAPL']);
+
+    expect(provider.subscribe.mock.calls).toEqual([[['AAPL', 'MSFT']], [['TSLA']]]);
+    expect(manager.getOwners().get('AAPL')).toEqual(['socket:a', 'socket:b']);
+  });
+
+  it('unsubscribes upstream when the last owner lets go', () => {
+    const { manager, provider } = createManager();
+    manager.acquire('socket:a', ['AAPL']);
+    manager.acquire('price-alerts', ['AAPL']);
+
+    manager.release('socket:a', ['AAPL']);
+    expect(provider.unsubscribe).not.toHaveBeenCalled();
+    expect(manager.isSubscribed('AAPL')).toBe(true);
+
+    manager.release('price-alerts', ['AAPL']);
+    expect(provider.unsubscribe).toHaveBeenCalledWith(['AAPL']);
+    expect(manager.isSubscribed('AAPL')).toBe(false);
+  });
+
+  it('ignores releases from owners that never held the symbol', () => {
+    const { manager, provider } = createManager();
+    manager.acquire('socket:a', ['AAPL']);
+    manager.release('socket:b', ['AAPL', 'MSFT']);
+
+    expect(provider.unsubscribe).not.toHaveBeenCalled();
+    expect(manager.isSubscribed('AAPL')).toBe(true);
+  });
+
+  it('releases everything a disconnected owner held', () => {
+    const { manager, provider } = createManager();
+    manager.acquire('socket:a', ['AAPL', 'BTC/USD']);
+    manager.acquire('socket:b', ['AAPL']);
+
+    manager.releaseAll('socket:a');
+
+    expect(provider.unsubscribe).toHaveBeenCalledWith(['BTC/USD']);
+    expect(manager.getSummary()).toEqual({ symbols: { stock: 1, crypto: 0 }, owners: 1 });
+  });
+
+  it('splits subscribed symbols by asset class', () => {
+    const { manager } = createManager();
+    manager.acquire('socket:a', ['AAPL', 'BTC/USD', 'ETH/USD']);
+
+    expect(getAssetClass('BTC/USD')).toBe('crypto');
+    expect(getAssetClass('AAPL')).toBe('stock');
+    expect(manager.getSymbols('crypto')).toEqual(['BTC/USD', 'ETH/USD']);
+    expect(manager.getSymbols('stock')).toEqual(['AAPL']);
+    expect(manager.getSummary().symbols).toEqual({ stock: 1, crypto: 2 });
+  });
+});
+
+describe('SubscriptionManager with the Alpaca provider', () => {
+  const streamNamed = (name: string) => {
+    const StreamMock = AlpacaStreamConnection as jest.MockedClass<typeof AlpacaStreamConnection>;
+    const index = StreamMock.mock.calls.findIndex(([options]) => options.name === name);
+    return StreamMock.mock.instances[index] as jest.Mocked<AlpacaStreamConnection>;
+  };
+
+  beforeEach(() => {
+    process.env.ALPACA_API_KEY = 'key';
+    process.env.ALPACA_SECRET_KEY = 'secret';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    (AlpacaStreamConnection as jest.Mock).mockClear();
+  });
+
+  afterEach(() => {
+    delete process.env.ALPACA_API_KEY;
+    delete process.env.ALPACA_SECRET_KEY;
+    jest.restoreAllMocks();
+  });
+
+  it('routes stocks to the stock stream and crypto pairs to the crypto stream', () => {
+    const manager = new SubscriptionManager(new AlpacaMarketDataProvider());
+    manager.acquire('socket:a', ['AAPL', 'BTC/USD', 'MSFT']);
+    manager.release('socket:a', ['BTC/USD']);
+
+    expect(streamNamed('stocks').subscribe).toHaveBeenCalledWith(['AAPL', 'MSFT']);
+    expect(streamNamed('crypto').subscribe).toHaveBeenCalledWith(['BTC/USD']);
+    expect(streamNamed('crypto').unsubscribe).toHaveBeenCalledWith(['BTC/USD']);
+    expect(streamNamed('stocks').unsubscribe).not.toHaveBeenCalled();
+  });
+});
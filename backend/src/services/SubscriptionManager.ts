@@ -0,0 +1,106 @@
+import { MarketDataProvider } from './providers/MarketDataProvider';
+
+export type AssetClass = 'stock' | 'crypto';
+
+// Crypto pairs are written BASE/QUOTE (BTC/USD); everything else is a US equity
+export const getAssetClass = (symbol: string): AssetClass =>
+  symbol.includes('/') ? 'crypto' : 'stock';
+
+export interface SubscriptionSummary {
+  symbols: Record<AssetClass, number>;
+  owners: number;
+}
+
+/**
+ * Reference-counts interest in streamed symbols. Every holder of interest is
+ * an owner id - one per socket (`socket:<id>`) or per server job
+ * (`'price-alerts'`, `'portfolio-valuation'`, ...) - and a symbol stays
+ * subscribed upstream while at least one owner holds it. The provider only
+ * hears about 0 -> 1 and 1 -> 0 transitions, so repeated or overlapping
+ * requests never reach the stream.
+ */
+export class SubscriptionManager {
+  private provider: MarketDataProvider;
+  private ownersBySymbol: Map<string, Set<string>> = new Map();
+  private symbolsByOwner: Map<string, Set<string>> = new Map();
+
+  constructor(provider: MarketDataProvider) {
+    this.provider = provider;
+  }
+
+  acquire(owner: string, symbols: string[]): void {
+    const added: string[] = [];
+
+    symbols.forEach(symbol => {
+      let owners = this.ownersBySymbol.get(symbol);
+      if (!owners) {
+        owners = new Set();
+        this.ownersBySymbol.set(symbol, owners);
+        added.push(symbol);
+      }
+      owners.add(owner);
+
+      if (!this.symbolsByOwner.has(owner)) {
+        this.symbolsByOwner.set(owner, new Set());
+      }
+      this.symbolsByOwner.get(owner)!.add(symbol);
+    });
+
+    if (added.length > 0) {
+      this.provider.subscribe(added);
+    }
+  }
+
+  release(owner: string, symbols: string[]): void {
+    const removed: string[] = [];
+    const held = this.symbolsByOwner.get(owner);
+
+    symbols.forEach(symbol => {
+      const owners = this.ownersBySymbol.get(symbol);
+      if (!owners || !owners.delete(owner)) return;
+
+      held?.delete(symbol);
+      if (owners.size === 0) {
+        this.ownersBySymbol.delete(symbol);
+        removed.push(symbol);
+      }
+    });
+
+    if (held && held.size === 0) {
+      this.symbolsByOwner.delete(owner);
+    }
+    if (removed.length > 0) {
+      this.provider.unsubscribe(removed);
+    }
+  }
+
+  // Drop everything an owner holds, e.g. when a socket disconnects
+  releaseAll(owner: string): void {
+    const held = this.symbolsByOwner.get(owner);
+    if (held) {
+      this.release(owner, Array.from(held));
+    }
+  }
+
+  isSubscribed(symbol: string): boolean {
+    return this.ownersBySymbol.has(symbol);
+  }
+
+  getSymbols(assetClass?: AssetClass): string[] {
+    return Array.from(this.ownersBySymbol.keys())
+      .filter(symbol => !assetClass || getAssetClass(symbol) === assetClass);
+  }
+
+  // Who holds each subscribed symbol
+  getOwners(): Map<string, string[]> {
+    const owners = new Map<string, string[]>();
+    this.ownersBySymbol.forEach((holders, symbol) => owners.set(symbol, Array.from(holders)));
+    return owners;
+  }
+
+  getSummary(): SubscriptionSummary {
+    const symbols: Record<AssetClass, number> = { stock: 0, crypto: 0 };
+    this.ownersBySymbol.forEach((_owners, symbol) => { symbols[getAssetClass(symbol)]++; });
+    return { symbols, owners: this.symbolsByOwner.size };
+  }
+}
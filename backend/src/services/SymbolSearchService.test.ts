@@ -0,0 +1,77 @@
+import { AssetCatalogService, CatalogAsset } from './AssetCatalogService';
+import { MarketDataService } from './MarketDataService';
+import { SymbolSearchService } from './SymbolSearchService';
+
+const asset = (symbol: string, name: string, fields: Partial<CatalogAsset> = {}): CatalogAsset => ({
+  symbol,
+  name,
+  assetClass: symbol.includes('/') ? 'crypto' : 'us_equity',
+  type: symbol.includes('/') ? 'crypto' : 'stock',
+  status: 'active',
+  tradable: true,
+  fractionable: true,
+  marginable: false,
+  shortable: false,
+  categories: [],
+  featured: false,
+  ...fields
+});
+
+const createService = (assets: CatalogAsset[]) => {
+  const catalog = { getActiveAssets: () => assets, onChange: jest.fn() };
+  const marketData = { onPriceUpdate: jest.fn() };
+  return new SymbolSearchService(
+    catalog as unknown as AssetCatalogService,
+    marketData as unknown as MarketDataService
+  );
+};
+
+const symbols = (matches: { symbol: string }[]) => matches.map(match => match.symbol);
+
+describe('SymbolSearchService', () => {
+  const search = createService([
+    asset('META', 'Meta Platforms Inc.'),
+    asset('MET', 'MetLife Inc.'),
+    asset('MCB', 'Metropolitan Bank Holding Corp.'),
+    asset('AMT', 'American Tower Corp.'),
+    asset('BAC', 'Bank of America Corp.'),
+    asset('BTCS', 'BTCS Inc.'),
+    asset('BTC/USD', 'Bitcoin'),
+    asset('BTC/USDT', 'Bitcoin / Tether'),
+    asset('ETH/BTC', 'Ethereum / Bitcoin')
+  ]);
+
+  it('ranks the exact symbol first, then longer symbols, then name prefixes', () => {
+    expect(symbols(search.search('met'))).toEqual(['MET', 'META', 'MCB']);
+  });
+
+  it('prefers a name starting with the query over one that only contains a word starting with it', () => {
+    expect(symbols(search.search('bank', { limit: 2 }))).toEqual(['BAC', 'MCB']);
+    expect(symbols(search.search('bank amer'))).toEqual(['BAC']);
+  });
+
+  it('finds a crypto pair however its BASE/QUOTE symbol is typed', () => {
+    expect(symbols(search.search('BTC/USD'))[0]).toBe('BTC/USD');
+    expect(symbols(search.search('btc-usd'))[0]).toBe('BTC/USD');
+    expect(symbols(search.search('btcusd'))[0]).toBe('BTC/USD');
+  });
+
+  it('puts pairs with the query as their base ahead of symbols that merely start with it', () => {
+    const results = symbols(search.search('btc'));
+
+    expect(results.slice(0, 2)).toEqual(['BTC/USD', 'BTC/USDT']);
+    expect(results.indexOf('BTCS')).toBeGreaterThan(1);
+    expect(results).not.toContain('ETH/BTC');
+  });
+
+  it('narrows matches to an asset class', () => {
+    const results = search.search('btc', { assetClass: 'us_equity' });
+
+    expect(results[0].symbol).toBe('BTCS');
+    expect(results.every(match => match.assetClass === 'us_equity')).toBe(true);
+  });
+
+  it('still finds a name through a one-letter typo', () => {
+    expect(symbols(search.search('bitcoim'))).toEqual(expect.arrayContaining(['BTC/USD', 'BTC/USDT']));
+  });
+});
@@ -0,0 +1,230 @@
+import { AssetType } from '../models/Asset';
+import { AssetCatalogService, CatalogAsset } from './AssetCatalogService';
+import { MarketDataService } from './MarketDataService';
+
+export interface SymbolMatch {
+  symbol: string;
+  name: string;
+  type: AssetType;
+  assetClass: CatalogAsset['assetClass'];
+  exchange?: string;
+  score: number;
+}
+
+export interface SymbolSearchOptions {
+  assetClass?: string;
+  type?: string;
+  limit?: number;
+}
+
+interface IndexEntry {
+  asset: CatalogAsset;
+  symbolKey: string; // Symbol without separators: BTC/USD -> BTCUSD
+  base?: string; // First leg of a pair: BTC/USD -> BTC
+  words: string[];
+}
+
+// One sorted key pointing back at the entry it came from
+interface IndexKey {
+  key: string;
+  entry: number;
+  kind: 'symbol' | 'base' | 'word';
+  firstWord: boolean;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const MIN_FUZZY_LENGTH = 3;
+
+// Match scores leave room below each tier for popularity to break ties
+const SCORE = {
+  exactSymbol: 1000,
+  exactBase: 950,
+  symbolPrefix: 700,
+  namePrefix: 400,
+  firstNameWord: 50,
+  fuzzySymbol: 250,
+  fuzzyWord: 150
+};
+
+const tokenize = (text: string): string[] => text.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+
+// Levenshtein distance, giving up as soon as it must exceed `max`
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Symbol search over the asset catalog, answered from memory.
+ *
+ * The index is a sorted list of keys (symbols, the base of crypto and forex
+ * pairs, and every word of the asset name), so prefix matches are a binary
+ * search. When prefixes don't fill the page, symbols and name words within a
+ * small edit distance of the query are added as fuzzy matches. Ties between
+ * equally good matches go to featured and curated assets and then to the ones
+ * trading the most dollar volume, as seen on the live price feed.
+ *
+ * The index is rebuilt whenever the catalog loads, syncs or is curated.
+ */
+export class SymbolSearchService {
+  private assetCatalog: AssetCatalogService;
+  private entries: IndexEntry[] = [];
+  private keys: IndexKey[] = [];
+  private dollarVolume: Map<string, number> = new Map();
+
+  constructor(assetCatalog: AssetCatalogService, marketDataService: MarketDataService) {
+    this.assetCatalog = assetCatalog;
+
+    this.assetCatalog.onChange(() => this.rebuild());
+    marketDataService.onPriceUpdate(data => {
+      if (data.price > 0 && data.volume > 0) {
+        this.dollarVolume.set(data.symbol, data.price * data.volume);
+      }
+    });
+
+    this.rebuild();
+  }
+
+  rebuild(): void {
+    const entries: IndexEntry[] = this.assetCatalog.getActiveAssets().map(asset => {
+      const [base] = asset.symbol.split('/');
+      return {
+        asset,
+        symbolKey: tokenize(asset.symbol).join(''),
+        base: base !== asset.symbol ? base : undefined,
+        words: tokenize(asset.name)
+      };
+    });
+
+    const keys: IndexKey[] = [];
+    entries.forEach((entry, index) => {
+      keys.push({ key: entry.symbolKey, entry: index, kind: 'symbol', firstWord: false });
+      if (entry.base) {
+        keys.push({ key: entry.base, entry: index, kind: 'base', firstWord: false });
+      }
+      entry.words.forEach((word, position) => {
+        keys.push({ key: word, entry: index, kind: 'word', firstWord: position === 0 });
+      });
+    });
+    keys.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+    this.entries = entries;
+    this.keys = keys;
+  }
+
+  search(query: string, options: SymbolSearchOptions = {}): SymbolMatch[] {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) return [];
+
+    const limit = Math.min(Math.max(options.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const symbolQuery = tokens.join('');
+    const scores: Map<number, number> = new Map();
+    const consider = (entry: number, score: number) => {
+      const asset = this.entries[entry].asset;
+      if (options.assetClass && asset.assetClass !== options.assetClass) return;
+      if (options.type && asset.type !== options.type) return;
+      if (score > (scores.get(entry) ?? 0)) scores.set(entry, score);
+    };
+
+    // Symbols and pair bases starting with the query, e.g. "btc" or "btcu" for BTC/USD
+    this.forEachPrefix(symbolQuery, key => {
+      if (key.kind === 'word') return;
+      const exact = key.key === symbolQuery;
+      const score = exact
+        ? (key.kind === 'symbol' ? SCORE.exactSymbol : SCORE.exactBase)
+        : SCORE.symbolPrefix - (key.key.length - symbolQuery.length) * 5;
+      consider(key.entry, score);
+    });
+
+    // Names where every query word starts some word of the name, e.g. "bank amer"
+    this.forEachPrefix(tokens[0], key => {
+      if (key.kind !== 'word') return;
+      const words = this.entries[key.entry].words;
+      const allMatch = tokens.slice(1).every(token => words.some(word => word.startsWith(token)));
+      if (allMatch) {
+        consider(key.entry, SCORE.namePrefix + (key.firstWord ? SCORE.firstNameWord : 0));
+      }
+    });
+
+    if (scores.size < limit && symbolQuery.length >= MIN_FUZZY_LENGTH) {
+      this.addFuzzyMatches(symbolQuery, tokens, consider);
+    }
+
+    return Array.from(scores.entries())
+      .map(([entry, score]) => {
+        const asset = this.entries[entry].asset;
+        return {
+          symbol: asset.symbol,
+          name: asset.name,
+          type: asset.type,
+          assetClass: asset.assetClass,
+          exchange: asset.exchange,
+          score: score + this.popularity(asset)
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.symbol.length - b.symbol.length || a.symbol.localeCompare(b.symbol))
+      .slice(0, limit);
+  }
+
+  getIndexSize(): number {
+    return this.entries.length;
+  }
+
+  // Typos: "APPL" still finds AAPL, "etherium" finds Ethereum
+  private addFuzzyMatches(
+    symbolQuery: string,
+    tokens: string[],
+    consider: (entry: number, score: number) => void
+  ): void {
+    const maxDistance = symbolQuery.length >= 6 ? 2 : 1;
+    const lastToken = tokens[tokens.length - 1];
+
+    this.keys.forEach(key => {
+      const target = key.kind === 'word' ? lastToken : symbolQuery;
+      if (target.length < MIN_FUZZY_LENGTH) return;
+
+      const distance = editDistance(target, key.key, maxDistance);
+      if (distance === 0 || distance > maxDistance) return;
+
+      consider(key.entry, key.kind === 'word'
+        ? SCORE.fuzzyWord - distance * 60
+        : SCORE.fuzzySymbol - distance * 80);
+    });
+  }
+
+  // At most 40 + 20 + 36 points: enough to order matches within a tier, not to lift a name match over a symbol match
+  private popularity(asset: CatalogAsset): number {
+    const volume = this.dollarVolume.get(asset.symbol) || 0;
+    return (asset.featured ? 40 : 0)
+      + (asset.categories.length > 0 ? 20 : 0)
+      + Math.min(Math.log10(volume + 1), 12) * 3;
+  }
+
+  private forEachPrefix(prefix: string, callback: (key: IndexKey) => void): void {
+    let low = 0;
+    let high = this.keys.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.keys[mid].key < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    for (let i = low; i < this.keys.length && this.keys[i].key.startsWith(prefix); i++) {
+      callback(this.keys[i]);
+    }
+  }
+}
@@ -0,0 +1,290 @@
+import { MarketDataService, MarketData } from './MarketDataService';
+import { WebSocketService } from './WebSocketService';
+import { Bar } from './providers/MarketDataProvider';
+import { timeframeMs } from './timeframes';
+import { SMA, EMA, RSI, MACD, BollingerBands, ATR, VWAP, MACDValue, BollingerValue } from './indicators/calculators';
+
+export type IndicatorSignal = 'buy' | 'sell' | 'hold';
+
+export interface TechnicalIndicator {
+  name: string;
+  value: number;
+  signal: IndicatorSignal;
+  period: number;
+  values?: Record<string, number>; // Extra outputs, e.g. MACD signal line or Bollinger bands
+}
+
+export interface IndicatorSnapshot {
+  symbol: string;
+  timeframe: string;
+  asOf: number; // Timestamp of the last closed bar included
+  close: number;
+  indicators: TechnicalIndicator[];
+}
+
+// One symbol/timeframe: the calculators plus their latest outputs
+interface IndicatorSeries {
+  symbol: string;
+  timeframe: string;
+  sma: SMA;
+  ema: EMA;
+  rsi: RSI;
+  macd: MACD;
+  bollinger: BollingerBands;
+  atr: ATR;
+  vwap: VWAP;
+  latest: {
+    sma: number | null;
+    ema: number | null;
+    rsi: number | null;
+    macd: MACDValue | null;
+    bollinger: BollingerValue | null;
+    atr: number | null;
+    vwap: number | null;
+  };
+  lastBar: Bar | null;
+  refreshing: boolean;
+}
+
+const HISTORY_BARS = 200; // Enough for MACD(12, 26, 9) and RSI to settle
+const MOVING_AVERAGE_PERIOD = 20;
+const RSI_PERIOD = 14;
+const RSI_OVERSOLD = 30;
+const RSI_OVERBOUGHT = 70;
+const ATR_PERIOD = 14;
+
+// How far back to request history so HISTORY_BARS closed bars survive nights and weekends
+const lookbackDays: Record<string, number> = {
+  '1Min': 3,
+  '5Min': 7,
+  '15Min': 14,
+  '1Hour': 60,
+  '1Day': 400
+};
+const MAX_HISTORY_REQUEST = 10000;
+
+const newYorkDate = new Intl.DateTimeFormat('en-CA', { timeZone: 'America/New_York' });
+
+/**
+ * Computes SMA(20), EMA(20), RSI(14), MACD(12, 26, 9), Bollinger Bands(20, 2),
+ * ATR(14) and session VWAP from closed bars.
+ *
+ * Symbols with socket subscribers are followed live on `liveTimeframe`: price
+ * ticks act as the clock, and once a tick lands past the current bar the
+ * newly closed bars are fetched and fed to the calculators one at a time.
+ * The updated set goes out as a technicalIndicators event.
+ *
+ * Signals, evaluated against the last close:
+ * - SMA / EMA: buy when the close is above the average, sell when below
+ * - RSI: buy below 30 (oversold), sell above 70 (overbought), otherwise hold
+ * - MACD: buy when the MACD line is above its signal line, sell when below
+ * - Bollinger Bands: buy below the lower band, sell above the upper, otherwise hold
+ * - ATR: measures volatility only, always hold
+ * - VWAP: buy when the close is above VWAP, sell when below
+ */
+export class TechnicalIndicatorService {
+  private marketDataService: MarketDataService;
+  private webSocketService: WebSocketService;
+  private liveSeries: Map<string, IndicatorSeries> = new Map(); // symbol -> series on liveTimeframe
+  private liveTimeframe: string = '1Min';
+  private pruneTimer?: NodeJS.Timeout;
+  private pruneInterval: number = 60000;
+
+  constructor(marketDataService: MarketDataService, webSocketService: WebSocketService) {
+    this.marketDataService = marketDataService;
+    this.webSocketService = webSocketService;
+
+    this.marketDataService.onPriceUpdate((data: MarketData) => {
+      this.handleTick(data);
+    });
+  }
+
+  start(): void {
+    // Stop following symbols nobody is subscribed to any more
+    this.pruneTimer = setInterval(() => {
+      Array.from(this.liveSeries.keys())
+        .filter(symbol => !this.webSocketService.hasSubscribers(symbol))
+        .forEach(symbol => this.liveSeries.delete(symbol));
+    }, this.pruneInterval);
+  }
+
+  stop(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = undefined;
+    }
+  }
+
+  isSupportedTimeframe(timeframe: string): boolean {
+    return timeframe in lookbackDays;
+  }
+
+  // Latest indicators for a symbol, computed from history unless it is followed live
+  async getIndicators(symbol: string, timeframe: string = this.liveTimeframe): Promise<IndicatorSnapshot | null> {
+    const live = timeframe === this.liveTimeframe ? this.liveSeries.get(symbol) : undefined;
+    if (live?.lastBar) return this.toSnapshot(live);
+
+    const series = await this.loadSeries(symbol, timeframe);
+    if (timeframe === this.liveTimeframe && this.webSocketService.hasSubscribers(symbol)) {
+      this.liveSeries.set(symbol, series);
+    }
+    return series.lastBar ? this.toSnapshot(series) : null;
+  }
+
+  private async loadSeries(symbol: string, timeframe: string): Promise<IndicatorSeries> {
+    const series = this.createSeries(symbol, timeframe);
+    const end = new Date();
+    const start = new Date(end.getTime() - lookbackDays[timeframe] * 24 * 60 * 60 * 1000);
+
+    // Bars come back oldest first, so ask for the whole window and keep the tail
+    const bars = await this.marketDataService.getBars(
+      symbol, timeframe, start.toISOString(), end.toISOString(), MAX_HISTORY_REQUEST
+    );
+    this.feed(series, this.closedBars(bars, timeframe, null).slice(-HISTORY_BARS));
+    return series;
+  }
+
+  private handleTick(data: MarketData): void {
+    if (!this.webSocketService.hasSubscribers(data.symbol)) return;
+
+    const series = this.liveSeries.get(data.symbol);
+    if (!series) {
+      // First tick for a subscribed symbol: seed it from history
+      const placeholder = this.createSeries(data.symbol, this.liveTimeframe);
+      placeholder.refreshing = true;
+      this.liveSeries.set(data.symbol, placeholder);
+      this.loadSeries(data.symbol, this.liveTimeframe)
+        .then(loaded => {
+          this.liveSeries.set(data.symbol, loaded);
+          this.broadcast(loaded);
+        })
+        .catch(error => {
+          this.liveSeries.delete(data.symbol);
+          console.warn(`⚠️ Indicator history unavailable for ${data.symbol}:`, error.message);
+        });
+      return;
+    }
+
+    if (series.refreshing || !series.lastBar) return;
+
+    // A tick beyond the end of the bar after lastBar means at least one more bar has closed
+    const interval = timeframeMs[series.timeframe];
+    const tickTime = new Date(data.timestamp).getTime();
+    if (tickTime < series.lastBar.timestamp + 2 * interval) return;
+
+    series.refreshing = true;
+    const start = new Date(series.lastBar.timestamp + interval).toISOString();
+    this.marketDataService.getBars(series.symbol, series.timeframe, start, new Date().toISOString(), HISTORY_BARS)
+      .then(bars => {
+        const added = this.feed(series, this.closedBars(bars, series.timeframe, series.lastBar));
+        if (added > 0) this.broadcast(series);
+      })
+      .catch(error => console.warn(`⚠️ Indicator refresh failed for ${series.symbol}:`, error.message))
+      .finally(() => { series.refreshing = false; });
+  }
+
+  // Bars newer than `after` whose interval has fully elapsed, oldest first
+  private closedBars(bars: Bar[], timeframe: string, after: Bar | null): Bar[] {
+    const now = Date.now();
+    const interval = timeframeMs[timeframe] || 0;
+    return [...bars]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .filter(bar => (!after || bar.timestamp > after.timestamp) && bar.timestamp + interval <= now);
+  }
+
+  private feed(series: IndicatorSeries, bars: Bar[]): number {
+    bars.forEach(bar => {
+      series.latest = {
+        sma: series.sma.update(bar),
+        ema: series.ema.update(bar),
+        rsi: series.rsi.update(bar),
+        macd: series.macd.update(bar),
+        bollinger: series.bollinger.update(bar),
+        atr: series.atr.update(bar),
+        vwap: series.vwap.update(bar)
+      };
+      series.lastBar = bar;
+    });
+    return bars.length;
+  }
+
+  private createSeries(symbol: string, timeframe: string): IndicatorSeries {
+    // Equity sessions follow the New York trading day; crypto trades around the UTC clock
+    const sessionKey = symbol.includes('/')
+      ? (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10)
+      : (timestamp: number) => newYorkDate.format(new Date(timestamp));
+
+    return {
+      symbol,
+      timeframe,
+      sma: new SMA(MOVING_AVERAGE_PERIOD),
+      ema: new EMA(MOVING_AVERAGE_PERIOD),
+      rsi: new RSI(RSI_PERIOD),
+      macd: new MACD(),
+      bollinger: new BollingerBands(),
+      atr: new ATR(ATR_PERIOD),
+      vwap: new VWAP(sessionKey),
+      latest: { sma: null, ema: null, rsi: null, macd: null, bollinger: null, atr: null, vwap: null },
+      lastBar: null,
+      refreshing: false
+    };
+  }
+
+  private toSnapshot(series: IndicatorSeries): IndicatorSnapshot {
+    const close = series.lastBar!.close;
+    const { sma, ema, rsi, macd, bollinger, atr, vwap } = series.latest;
+    const indicators: TechnicalIndicator[] = [];
+    const compare = (value: number): IndicatorSignal => close > value ? 'buy' : close < value ? 'sell' : 'hold';
+
+    if (sma !== null) {
+      indicators.push({ name: 'SMA', value: sma, signal: compare(sma), period: MOVING_AVERAGE_PERIOD });
+    }
+    if (ema !== null) {
+      indicators.push({ name: 'EMA', value: ema, signal: compare(ema), period: MOVING_AVERAGE_PERIOD });
+    }
+    if (rsi !== null) {
+      const signal = rsi < RSI_OVERSOLD ? 'buy' : rsi > RSI_OVERBOUGHT ? 'sell' : 'hold';
+      indicators.push({ name: 'RSI', value: rsi, signal, period: RSI_PERIOD });
+    }
+    if (macd !== null) {
+      const signal = macd.histogram > 0 ? 'buy' : macd.histogram < 0 ? 'sell' : 'hold';
+      indicators.push({
+        name: 'MACD',
+        value: macd.macd,
+        signal,
+        period: series.macd.slowPeriod,
+        values: { signal: macd.signal, histogram: macd.histogram }
+      });
+    }
+    if (bollinger !== null) {
+      const signal = close < bollinger.lower ? 'buy' : close > bollinger.upper ? 'sell' : 'hold';
+      indicators.push({
+        name: 'BollingerBands',
+        value: bollinger.middle,
+        signal,
+        period: series.bollinger.period,
+        values: { upper: bollinger.upper, lower: bollinger.lower, stdDev: series.bollinger.multiplier }
+      });
+    }
+    if (atr !== null) {
+      indicators.push({ name: 'ATR', value: atr, signal: 'hold', period: ATR_PERIOD });
+    }
+    if (vwap !== null) {
+      indicators.push({ name: 'VWAP', value: vwap, signal: compare(vwap), period: 0 });
+    }
+
+    return {
+      symbol: series.symbol,
+      timeframe: series.timeframe,
+      asOf: series.lastBar!.timestamp,
+      close,
+      indicators
+    };
+  }
+
+  private broadcast(series: IndicatorSeries): void {
+    if (!series.lastBar) return;
+    const snapshot = this.toSnapshot(series);
+    this.webSocketService.broadcastTechnicalIndicators(series.symbol, snapshot.indicators);
+  }
+}
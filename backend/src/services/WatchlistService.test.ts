@@ -0,0 +1,83 @@
+import { Watchlist, IWatchlist } from '../models/Watchlist';
+import { WatchlistService } from './WatchlistService';
+
+const duplicateKey = () => Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+
+// A list whose save fails with the given errors before succeeding
+const createWatchlist = (...failures: Error[]) => {
+  const watchlist = {
+    _id: 'list-b',
+    userId: 'user-1',
+    isDefault: false,
+    save: jest.fn()
+  };
+  watchlist.save.mockImplementation(async () => {
+    const failure = failures.shift();
+    if (failure) throw failure;
+    return watchlist;
+  });
+  return watchlist;
+};
+
+describe('WatchlistService.setDefault', () => {
+  beforeEach(() => {
+    jest.spyOn(Watchlist, 'updateMany').mockResolvedValue({} as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('clears the other default before setting this one', async () => {
+    const watchlist = createWatchlist();
+
+    await new WatchlistService().setDefault(watchlist as unknown as IWatchlist);
+
+    expect(Watchlist.updateMany).toHaveBeenCalledWith(
+      { userId: 'user-1', _id: { $ne: 'list-b' }, isDefault: true },
+      { isDefault: false }
+    );
+    expect(watchlist.isDefault).toBe(true);
+    expect(watchlist.save).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears again and retries when a concurrent call set another default in between', async () => {
+    const watchlist = createWatchlist(duplicateKey());
+
+    await expect(new WatchlistService().setDefault(watchlist as unknown as IWatchlist)).resolves.toBe(watchlist);
+
+    expect(Watchlist.updateMany).toHaveBeenCalledTimes(2);
+    expect(watchlist.save).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up with the duplicate key error after a few attempts', async () => {
+    const watchlist = createWatchlist(duplicateKey(), duplicateKey(), duplicateKey());
+
+    await expect(new WatchlistService().setDefault(watchlist as unknown as IWatchlist)).rejects.toMatchObject({ code: 11000 });
+    expect(watchlist.save).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other save errors', async () => {
+    const watchlist = createWatchlist(new Error('connection lost'));
+
+    await expect(new WatchlistService().setDefault(watchlist as unknown as IWatchlist)).rejects.toThrow('connection lost');
+    expect(watchlist.save).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('WatchlistService.ensureDefault', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the default another request promoted first', async () => {
+    const oldest = { isDefault: false, save: jest.fn().mockRejectedValue(duplicateKey()) };
+    const promoted = { _id: 'list-a', isDefault: true };
+    jest.spyOn(Watchlist, 'findOne')
+      .mockResolvedValueOnce(null as never)
+      .mockReturnValueOnce({ sort: () => Promise.resolve(oldest) } as never)
+      .mockResolvedValueOnce(promoted as never);
+
+    await expect(new WatchlistService().ensureDefault('user-1')).resolves.toBe(promoted);
+  });
+});
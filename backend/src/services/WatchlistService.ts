@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import { Watchlist, IWatchlist } from '../models/Watchlist';
+
+const DEFAULT_WATCHLIST_NAME = 'My Watchlist';
+const SET_DEFAULT_ATTEMPTS = 3;
+
+export class WatchlistService {
+  // Every user has exactly one default list; create it if it is missing
+  async ensureDefault(userId: mongoose.Types.ObjectId | string): Promise<IWatchlist> {
+    const existing = await Watchlist.findOne({ userId, isDefault: true });
+    if (existing) return existing;
+
+    // Promote the oldest list before creating an empty one
+    const oldest = await Watchlist.findOne({ userId }).sort({ createdAt: 1 });
+    try {
+      if (oldest) {
+        oldest.isDefault = true;
+        return await oldest.save();
+      }
+      return await Watchlist.create({ userId, name: DEFAULT_WATCHLIST_NAME, symbols: [], isDefault: true });
+    } catch (error: any) {
+      // A concurrent request promoted or created it first (unique partial index on isDefault)
+      if (error.code === 11000) {
+        return (await Watchlist.findOne({ userId, isDefault: true }))!;
+      }
+      throw error;
+    }
+  }
+
+  // Make a list the default, clearing the flag on the user's other lists first; a
+  // list not saved yet is inserted as the default. A concurrent call can set
+  // another default between the two writes; the unique partial index rejects our
+  // save, so clear and save again
+  async setDefault(watchlist: IWatchlist): Promise<IWatchlist> {
+    for (let attempt = 1; ; attempt++) {
+      await Watchlist.updateMany(
+        { userId: watchlist.userId, _id: { $ne: watchlist._id }, isDefault: true },
+        { isDefault: false }
+      );
+      watchlist.isDefault = true;
+      try {
+        return await watchlist.save();
+      } catch (error: any) {
+        if (error.code !== 11000 || attempt >= SET_DEFAULT_ATTEMPTS) throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import jwt from 'jsonwebtoken';
+import { Server as SocketServer } from 'socket.io';
+import { WebSocketService } from './WebSocketService';
+import { MarketDataService } from './MarketDataService';
+import { CacheService } from './CacheService';
+import { User } from '../models/User';
+import { Portfolio } from '../models/Portfolio';
+
+const SECRET = 'test-secret';
+const OWNER = '64b000000000000000000001';
+const OTHER = '64b000000000000000000002';
+
+const tokenFor = (userId: string, expiresIn: string | number = '1h') =>
+  jwt.sign({ userId }, SECRET, { expiresIn } as jwt.SignOptions);
+
+// A socket the test drives by hand: `send` runs the server's handler for an event
+const createSocket = () => {
+  const handlers = new Map<string, (data?: unknown) => unknown>();
+  return {
+    id: 'socket-1',
+    handshake: { address: '127.0.0.1' },
+    on: (event: string, handler: (data?: unknown) => unknown) => handlers.set(event, handler),
+    emit: jest.fn(),
+    join: jest.fn(),
+    leave: jest.fn(),
+    send: async (event: string, data?: unknown) => handlers.get(event)!(data)
+  };
+};
+
+// Connects one socket to a new service
+const connect = () => {
+  let onConnection: (socket: unknown) => void = () => undefined;
+  const io = { on: (_event: string, handler: typeof onConnection) => { onConnection = handler; } };
+  const marketData = { onPriceUpdate: jest.fn() };
+  new WebSocketService(
+    io as unknown as SocketServer,
+    marketData as unknown as MarketDataService,
+    {} as CacheService
+  );
+  const socket = createSocket();
+  onConnection(socket);
+  return socket;
+};
+
+const emitted = (socket: ReturnType<typeof createSocket>, event: string) =>
+  socket.emit.mock.calls.filter(([name]) => name === event).map(([, payload]) => payload);
+
+describe('WebSocketService', () => {
+  beforeEach(() => {
+    process.env.JWT_SECRET = SECRET;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(User, 'findById').mockImplementation(((id: string) =>
+      Promise.resolve([OWNER, OTHER].includes(id) ? { _id: id } : null)) as unknown as typeof User.findById);
+    jest.spyOn(Portfolio, 'exists').mockImplementation(((filter: { _id: string; userId: string }) =>
+      Promise.resolve(filter._id === 'portfolio-1' && filter.userId === OWNER ? { _id: filter._id } : null)
+    ) as unknown as typeof Portfolio.exists);
+  });
+
+  afterEach(() => {
+    delete process.env.JWT_SECRET;
+    jest.restoreAllMocks();
+  });
+
+  describe('authenticate', () => {
+    it('joins the user room for a valid token', async () => {
+      const socket = connect();
+
+      await socket.send('authenticate', { token: tokenFor(OWNER) });
+
+      expect(emitted(socket, 'authenticated')).toEqual([{ success: true, userId: OWNER }]);
+      expect(socket.join).toHaveBeenCalledWith(`user:${OWNER}`);
+    });
+
+    it('rejects a token signed with another secret, an expired token and no token', async () => {
+      const socket = connect();
+
+      await socket.send('authenticate', { token: jwt.sign({ userId: OWNER }, 'not-the-secret') });
+      await socket.send('authenticate', { token: tokenFor(OWNER, -60) });
+      await socket.send('authenticate', {});
+
+      expect(emitted(socket, 'authenticated')).toEqual([
+        { success: false, error: 'Invalid token' },
+        { success: false, error: 'Invalid token' },
+        { success: false, error: 'Invalid token' }
+      ]);
+      expect(socket.join).not.toHaveBeenCalled();
+    });
+
+    it('rejects a valid token for a user that no longer exists', async () => {
+      const socket = connect();
+
+      await socket.send('authenticate', { token: tokenFor('64b0000000000000000000ff') });
+
+      expect(emitted(socket, 'authenticated')).toEqual([{ success: false, error: 'Invalid token' }]);
+      expect(socket.join).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('joinPortfolio', () => {
+    it('joins a portfolio the user owns', async () => {
+      const socket = connect();
+      await socket.send('authenticate', { token: tokenFor(OWNER) });
+
+      await socket.send('joinPortfolio', { portfolioId: 'portfolio-1' });
+
+      expect(socket.join).toHaveBeenCalledWith('portfolio:portfolio-1');
+      expect(emitted(socket, 'joinedPortfolio')).toEqual([{ portfolioId: 'portfolio-1' }]);
+    });
+
+    it('refuses another user\'s portfolio', async () => {
+      const socket = connect();
+      await socket.send('authenticate', { token: tokenFor(OTHER) });
+
+      await socket.send('joinPortfolio', { portfolioId: 'portfolio-1' });
+
+      expect(Portfolio.exists).toHaveBeenCalledWith({ _id: 'portfolio-1', userId: OTHER });
+      expect(socket.join).not.toHaveBeenCalledWith('portfolio:portfolio-1');
+      expect(emitted(socket, 'error')).toEqual([
+        expect.objectContaining({ type: 'portfolio_access_denied' })
+      ]);
+    });
+
+    it('refuses a socket that has not authenticated', async () => {
+      const socket = connect();
+      await socket.send('authenticate', { token: tokenFor(OWNER, -60) });
+
+      await socket.send('joinPortfolio', { portfolioId: 'portfolio-1' });
+
+      expect(Portfolio.exists).not.toHaveBeenCalled();
+      expect(socket.join).not.toHaveBeenCalled();
+      expect(emitted(socket, 'error')).toEqual([
+        { type: 'portfolio_access_denied', message: 'Authenticate before joining a portfolio' }
+      ]);
+    });
+
+    it('leaves the previous user\'s portfolio rooms when the socket switches accounts', async () => {
+      const socket = connect();
+      await socket.send('authenticate', { token: tokenFor(OWNER) });
+      await socket.send('joinPortfolio', { portfolioId: 'portfolio-1' });
+
+      await socket.send('authenticate', { token: tokenFor(OTHER) });
+
+      expect(socket.leave).toHaveBeenCalledWith(`user:${OWNER}`);
+      expect(socket.leave).toHaveBeenCalledWith('portfolio:portfolio-1');
+      expect(socket.join).toHaveBeenLastCalledWith(`user:${OTHER}`);
+    });
+  });
+});
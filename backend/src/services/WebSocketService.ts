@@ -1,6 +1,12 @@
-import { Server as SocketServer } from 'socket.io';
+import { Server as SocketServer, Socket } from 'socket.io';
 import { MarketDataService, MarketData } from './MarketDataService';
 import { CacheService } from './CacheService';
+import { verifyToken } from '../middleware/auth';
+import { Portfolio } from '../models/Portfolio';
+import type { TechnicalIndicatorService } from './TechnicalIndicatorService';
+import type { BarAggregationService, Candle } from './BarAggregationService';
+import type { SymbolSearchService } from './SymbolSearchService';
+import { parseTimeframe } from './timeframes';
 
 export interface SocketClient {
   id: string;
@@ -15,6 +21,10 @@ export class WebSocketService {
   private cacheService: CacheService;
   private clients: Map<string, SocketClient> = new Map();
   private symbolSubscriptions: Map<string, Set<string>> = new Map(); // symbol -> set of client IDs
+  private technicalIndicatorService?: TechnicalIndicatorService;
+  private barAggregationService?: BarAggregationService;
+  private symbolSearchService?: SymbolSearchService;
+  private candleSubscriptions: Map<string, Set<string>> = new Map(); // "symbol:timeframe" -> set of client IDs
 
   constructor(
     io: SocketServer, 
@@ -52,10 +62,23 @@ export class WebSocketService {
       // Handle authentication
       socket.on('authenticate', async (data: { token: string }) => {
         try {
-          // TODO: Verify JWT token and get user ID
-          // For now, we'll use a mock user ID
-          client.userId = 'mock-user-id';
-          socket.emit('authenticated', { success: true });
+          const user = data?.token ? await verifyToken(data.token) : null;
+          if (!user) {
+            socket.emit('authenticated', { success: false, error: 'Invalid token' });
+            return;
+          }
+
+          const userId = String(user._id);
+          if (client.userId && client.userId !== userId) {
+            // Switching accounts: drop everything joined as the previous user
+            this.leaveUserRooms(socket, client);
+          }
+
+          client.userId = userId;
+          const room = `user:${userId}`;
+          socket.join(room);
+          client.rooms.add(room);
+          socket.emit('authenticated', { success: true, userId });
         } catch (error) {
           socket.emit('authenticated', { success: false, error: 'Invalid token' });
         }
@@ -84,11 +107,36 @@ export class WebSocketService {
       });
 
       // Handle portfolio room joining
-      socket.on('joinPortfolio', (data: { portfolioId: string }) => {
-        const room = `portfolio:${data.portfolioId}`;
-        socket.join(room);
-        client.rooms.add(room);
-        socket.emit('joinedPortfolio', { portfolioId: data.portfolioId });
+      socket.on('joinPortfolio', async (data: { portfolioId: string }) => {
+        if (!client.userId) {
+          socket.emit('error', {
+            type: 'portfolio_access_denied',
+            message: 'Authenticate before joining a portfolio'
+          });
+          return;
+        }
+
+        try {
+          const portfolio = await Portfolio.exists({ _id: data.portfolioId, userId: client.userId });
+          if (!portfolio) {
+            socket.emit('error', {
+              type: 'portfolio_access_denied',
+              message: `Portfolio ${data.portfolioId} not found`
+            });
+            return;
+          }
+
+          const room = `portfolio:${data.portfolioId}`;
+          socket.join(room);
+          client.rooms.add(room);
+          socket.emit('joinedPortfolio', { portfolioId: data.portfolioId });
+        } catch (error) {
+          socket.emit('error', {
+            type: 'portfolio_access_denied',
+            message: `Failed to join portfolio ${data.portfolioId}`,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
       });
 
       // Handle portfolio room leaving
@@ -102,7 +150,7 @@ export class WebSocketService {
       // Handle candlestick data request
       socket.on('getCandlestickData', async (data: {
         symbol: string;
-        timeframe: '1min' | '5min' | '15min' | '1hour' | '1day';
+        timeframe: string;
         limit?: number;
       }) => {
         try {
@@ -126,10 +174,85 @@ export class WebSocketService {
         }
       });
 
+      // Handle live candle subscription
+      socket.on('subscribeCandles', async (data: { symbol: string; timeframe: string }) => {
+        const symbol = data?.symbol;
+        const timeframe = parseTimeframe(data?.timeframe) || data?.timeframe;
+        if (!this.barAggregationService || !symbol || !this.barAggregationService.isSupportedTimeframe(timeframe)) {
+          socket.emit('error', {
+            type: 'candle_error',
+            message: `Live candles are not available for ${symbol} ${timeframe}`,
+            supportedTimeframes: this.barAggregationService?.getSupportedTimeframes() || []
+          });
+          return;
+        }
+
+        const key = `${symbol}:${timeframe}`;
+        const room = `candles:${key}`;
+        socket.join(room);
+        client.rooms.add(room);
+        if (!this.candleSubscriptions.has(key)) {
+          this.candleSubscriptions.set(key, new Set());
+        }
+        this.candleSubscriptions.get(key)!.add(socket.id);
+        this.marketDataService.subscribeToSymbol(symbol, `candles:${socket.id}`);
+
+        try {
+          const candle = await this.barAggregationService.follow(symbol, timeframe);
+          socket.emit('candleSubscribed', { symbol, timeframe });
+          if (candle) {
+            socket.emit('candleUpdate', candle);
+          }
+        } catch (error) {
+          socket.emit('error', {
+            type: 'candle_error',
+            message: `Failed to start live candles for ${symbol}`,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      });
+
+      // Handle live candle unsubscription
+      socket.on('unsubscribeCandles', (data: { symbol: string; timeframe: string }) => {
+        const timeframe = parseTimeframe(data.timeframe) || data.timeframe;
+        this.unsubscribeClientFromCandles(socket, client, data.symbol, timeframe);
+        socket.emit('candleUnsubscribed', { symbol: data.symbol, timeframe });
+      });
+
+      // Handle technical indicator request
+      socket.on('getTechnicalIndicators', async (data: { symbol: string; timeframe?: string }) => {
+        try {
+          if (!this.technicalIndicatorService) {
+            throw new Error('Technical indicators are not available');
+          }
+
+          const snapshot = await this.technicalIndicatorService.getIndicators(data.symbol, data.timeframe);
+          socket.emit('technicalIndicators', {
+            symbol: data.symbol,
+            timeframe: snapshot?.timeframe,
+            asOf: snapshot?.asOf,
+            indicators: snapshot?.indicators || []
+          });
+        } catch (error) {
+          socket.emit('error', {
+            type: 'indicator_error',
+            message: `Failed to compute technical indicators for ${data.symbol}`,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      });
+
       // Handle search requests
-      socket.on('searchSymbols', async (data: { query: string }) => {
+      socket.on('searchSymbols', (data: { query: string; assetClass?: string; type?: string; limit?: number }) => {
         try {
-          const results = await this.marketDataService.searchSymbols(data.query);
+          if (!this.symbolSearchService) {
+            throw new Error('Symbol search is not available');
+          }
+          const results = this.symbolSearchService.search(data.query || '', {
+            assetClass: data.assetClass,
+            type: data.type,
+            limit: data.limit
+          });
           socket.emit('searchResults', { query: data.query, results });
         } catch (error) {
           socket.emit('error', {
@@ -164,16 +287,8 @@ export class WebSocketService {
         serverTime: new Date().toISOString() 
       });
       
+      // No symbols are subscribed up front: each page asks for the ones it shows
       console.log(`✓ Client ${socket.id} connection setup complete`);
-      
-      // Auto-subscribe to popular symbols for demo
-      const popularSymbols = ['AAPL', 'GOOGL', 'MSFT', 'TSLA', 'BTC/USD', 'ETH/USD'];
-      popularSymbols.forEach(symbol => {
-        this.subscribeClientToSymbol(socket.id, symbol);
-      });
-      
-      socket.emit('subscribed', { symbols: popularSymbols });
-      console.log(`🎆 Auto-subscribed client ${socket.id} to popular symbols`);
     });
   }
 
@@ -193,13 +308,18 @@ export class WebSocketService {
     // Add to client's subscriptions
     client.subscribedSymbols.add(symbol);
 
-    // Add to symbol's subscriber list
+    // Add to symbol's subscriber list; each socket holds its own reference upstream
     if (!this.symbolSubscriptions.has(symbol)) {
       this.symbolSubscriptions.set(symbol, new Set());
-      // Subscribe to market data for this symbol
-      this.marketDataService.subscribeToSymbol(symbol);
     }
     this.symbolSubscriptions.get(symbol)!.add(clientId);
+    this.marketDataService.subscribeToSymbol(symbol, `socket:${clientId}`);
+
+    // Updates only go out on change, so start the client from the last one rather than waiting for the next
+    const latest = this.marketDataService.getLatestUpdate(symbol);
+    if (latest) {
+      this.io.sockets.sockets.get(clientId)?.emit('priceUpdate', latest);
+    }
 
     console.log(`Client ${clientId} subscribed to ${symbol}`);
   }
@@ -215,17 +335,45 @@ export class WebSocketService {
     const subscribers = this.symbolSubscriptions.get(symbol);
     if (subscribers) {
       subscribers.delete(clientId);
-      
-      // If no more subscribers for this symbol, unsubscribe from market data
       if (subscribers.size === 0) {
         this.symbolSubscriptions.delete(symbol);
-        this.marketDataService.unsubscribeFromSymbol(symbol);
       }
     }
+    this.marketDataService.unsubscribeFromSymbol(symbol, `socket:${clientId}`);
 
     console.log(`Client ${clientId} unsubscribed from ${symbol}`);
   }
 
+  private unsubscribeClientFromCandles(socket: Socket | undefined, client: SocketClient, symbol: string, timeframe: string): void {
+    const key = `${symbol}:${timeframe}`;
+    const room = `candles:${key}`;
+    socket?.leave(room);
+    client.rooms.delete(room);
+
+    const subscribers = this.candleSubscriptions.get(key);
+    if (!subscribers || !subscribers.delete(client.id)) return;
+
+    if (subscribers.size === 0) {
+      this.candleSubscriptions.delete(key);
+      this.barAggregationService?.unfollow(symbol, timeframe);
+    }
+
+    // The stream reference is per socket, so keep it while any other timeframe of the symbol is open
+    const stillWatching = Array.from(client.rooms).some(other => other.startsWith(`candles:${symbol}:`));
+    if (!stillWatching) {
+      this.marketDataService.unsubscribeFromSymbol(symbol, `candles:${client.id}`);
+    }
+  }
+
+  private leaveUserRooms(socket: Socket, client: SocketClient): void {
+    client.rooms.forEach(room => {
+      if (room.startsWith('user:') || room.startsWith('portfolio:')) {
+        socket.leave(room);
+        client.rooms.delete(room);
+      }
+    });
+  }
+
   private handleClientDisconnection(clientId: string): void {
     const client = this.clients.get(clientId);
     if (!client) return;
@@ -234,6 +382,16 @@ export class WebSocketService {
     client.subscribedSymbols.forEach(symbol => {
       this.unsubscribeClientFromSymbol(clientId, symbol);
     });
+    this.marketDataService.releaseSubscriptions(`socket:${clientId}`);
+
+    client.rooms.forEach(room => {
+      if (!room.startsWith('candles:')) return;
+      const [, symbol, timeframe] = room.match(/^candles:(.+):([^:]+)$/) || [];
+      if (symbol && timeframe) {
+        this.unsubscribeClientFromCandles(undefined, client, symbol, timeframe);
+      }
+    });
+    this.marketDataService.releaseSubscriptions(`candles:${clientId}`);
 
     // Remove client
     this.clients.delete(clientId);
@@ -260,20 +418,35 @@ export class WebSocketService {
 
   // Public methods for other services to use
 
+  // Set after construction because the indicator service broadcasts through this one
+  setTechnicalIndicatorService(service: TechnicalIndicatorService): void {
+    this.technicalIndicatorService = service;
+  }
+
+  // Set after construction for the same reason: the aggregator emits candles through this service
+  setBarAggregationService(service: BarAggregationService): void {
+    this.barAggregationService = service;
+  }
+
+  setSymbolSearchService(service: SymbolSearchService): void {
+    this.symbolSearchService = service;
+  }
+
+  hasSubscribers(symbol: string): boolean {
+    return (this.symbolSubscriptions.get(symbol)?.size || 0) > 0;
+  }
+
   broadcastPortfolioUpdate(portfolioId: string, portfolioData: any): void {
     this.io.to(`portfolio:${portfolioId}`).emit('portfolioUpdate', portfolioData);
   }
 
+  broadcastCandle(event: 'candleUpdate' | 'candleClosed', candle: Candle): void {
+    this.io.to(`candles:${candle.symbol}:${candle.timeframe}`).emit(event, candle);
+  }
+
   sendPriceAlert(userId: string, alert: any): void {
-    // Find all sockets for this user and send alert
-    this.clients.forEach((client, clientId) => {
-      if (client.userId === userId) {
-        const socket = this.io.sockets.sockets.get(clientId);
-        if (socket) {
-          socket.emit('priceAlert', alert);
-        }
-      }
-    });
+    // Every authenticated socket of this user is in its user room
+    this.io.to(`user:${userId}`).emit('priceAlert', alert);
   }
 
   broadcastSystemMessage(message: string, type: 'info' | 'warning' | 'error' = 'info'): void {
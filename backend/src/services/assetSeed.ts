@@ -0,0 +1,91 @@
+import type { AssetType } from '../models/Asset';
+
+export interface SeedAsset {
+  symbol: string;
+  name: string;
+  type: AssetType;
+  category: string;
+  featured?: boolean;
+}
+
+/**
+ * The curated starting catalog: categories and featured flags for a fresh
+ * database, names for when neither MongoDB nor the provider is reachable, and
+ * the forex pairs, which the provider doesn't list at all. Once assets carry
+ * categories in MongoDB, edits made there win over this list.
+ */
+export const seedAssets: SeedAsset[] = [
+  // STOCKS - Tech Giants
+  { symbol: 'AAPL', name: 'Apple Inc.', type: 'stock', category: 'Tech Giants', featured: true },
+  { symbol: 'GOOGL', name: 'Alphabet Inc.', type: 'stock', category: 'Tech Giants', featured: true },
+  { symbol: 'MSFT', name: 'Microsoft Corp.', type: 'stock', category: 'Tech Giants', featured: true },
+  { symbol: 'META', name: 'Meta Platforms Inc.', type: 'stock', category: 'Tech Giants', featured: true },
+  { symbol: 'NVDA', name: 'NVIDIA Corp.', type: 'stock', category: 'Tech Giants', featured: true },
+  { symbol: 'AMD', name: 'Advanced Micro Devices', type: 'stock', category: 'Tech Giants', featured: true },
+
+  // STOCKS - Growth & Media
+  { symbol: 'TSLA', name: 'Tesla Inc.', type: 'stock', category: 'Growth & Media', featured: true },
+  { symbol: 'AMZN', name: 'Amazon.com Inc.', type: 'stock', category: 'Growth & Media', featured: true },
+  { symbol: 'NFLX', name: 'Netflix Inc.', type: 'stock', category: 'Growth & Media' },
+  { symbol: 'DIS', name: 'Walt Disney Co.', type: 'stock', category: 'Growth & Media' },
+  { symbol: 'PYPL', name: 'PayPal Holdings Inc.', type: 'stock', category: 'Growth & Media' },
+  { symbol: 'ADBE', name: 'Adobe Inc.', type: 'stock', category: 'Growth & Media' },
+
+  // STOCKS - Enterprise
+  { symbol: 'CRM', name: 'Salesforce Inc.', type: 'stock', category: 'Enterprise' },
+  { symbol: 'ORCL', name: 'Oracle Corp.', type: 'stock', category: 'Enterprise' },
+  { symbol: 'INTC', name: 'Intel Corp.', type: 'stock', category: 'Enterprise' },
+  { symbol: 'IBM', name: 'IBM Corp.', type: 'stock', category: 'Enterprise' },
+
+  // STOCKS - Financial
+  { symbol: 'JPM', name: 'JPMorgan Chase & Co.', type: 'stock', category: 'Financial' },
+  { symbol: 'BAC', name: 'Bank of America Corp.', type: 'stock', category: 'Financial' },
+  { symbol: 'GS', name: 'Goldman Sachs Group Inc.', type: 'stock', category: 'Financial' },
+  { symbol: 'MS', name: 'Morgan Stanley', type: 'stock', category: 'Financial' },
+  { symbol: 'WFC', name: 'Wells Fargo & Co.', type: 'stock', category: 'Financial' },
+  { symbol: 'V', name: 'Visa Inc.', type: 'stock', category: 'Financial' },
+  { symbol: 'MA', name: 'Mastercard Inc.', type: 'stock', category: 'Financial' },
+
+  // INDICES - Major ETFs
+  { symbol: 'SPY', name: 'SPDR S&P 500 ETF', type: 'index', category: 'Major ETFs', featured: true },
+  { symbol: 'QQQ', name: 'Invesco QQQ Trust', type: 'index', category: 'Major ETFs' },
+  { symbol: 'IWM', name: 'iShares Russell 2000 ETF', type: 'index', category: 'Major ETFs' },
+
+  // INDICES - Broad Market
+  { symbol: 'VTI', name: 'Vanguard Total Stock Market ETF', type: 'index', category: 'Broad Market' },
+  { symbol: 'VOO', name: 'Vanguard S&P 500 ETF', type: 'index', category: 'Broad Market' },
+  { symbol: 'VEA', name: 'Vanguard FTSE Developed Markets ETF', type: 'index', category: 'Broad Market' },
+  { symbol: 'VWO', name: 'Vanguard FTSE Emerging Markets ETF', type: 'index', category: 'Broad Market' },
+
+  // CRYPTO - Major
+  { symbol: 'BTC/USD', name: 'Bitcoin', type: 'crypto', category: 'Major', featured: true },
+  { symbol: 'ETH/USD', name: 'Ethereum', type: 'crypto', category: 'Major', featured: true },
+
+  // CRYPTO - Altcoins
+  { symbol: 'LTC/USD', name: 'Litecoin', type: 'crypto', category: 'Altcoins' },
+  { symbol: 'BCH/USD', name: 'Bitcoin Cash', type: 'crypto', category: 'Altcoins' },
+  { symbol: 'LINK/USD', name: 'Chainlink', type: 'crypto', category: 'Altcoins' },
+  { symbol: 'UNI/USD', name: 'Uniswap', type: 'crypto', category: 'Altcoins' },
+
+  // CRYPTO - DeFi
+  { symbol: 'AAVE/USD', name: 'Aave', type: 'crypto', category: 'DeFi' },
+  { symbol: 'ALGO/USD', name: 'Algorand', type: 'crypto', category: 'DeFi' },
+  { symbol: 'DOT/USD', name: 'Polkadot', type: 'crypto', category: 'DeFi' },
+  { symbol: 'DOGE/USD', name: 'Dogecoin', type: 'crypto', category: 'DeFi' },
+
+  // FOREX - Major Pairs
+  { symbol: 'EUR/USD', name: 'Euro / US Dollar', type: 'forex', category: 'Major Pairs' },
+  { symbol: 'GBP/USD', name: 'British Pound / US Dollar', type: 'forex', category: 'Major Pairs' },
+  { symbol: 'USD/JPY', name: 'US Dollar / Japanese Yen', type: 'forex', category: 'Major Pairs' },
+  { symbol: 'USD/CHF', name: 'US Dollar / Swiss Franc', type: 'forex', category: 'Major Pairs' },
+
+  // FOREX - Commodity Pairs
+  { symbol: 'AUD/USD', name: 'Australian Dollar / US Dollar', type: 'forex', category: 'Commodity Pairs' },
+  { symbol: 'USD/CAD', name: 'US Dollar / Canadian Dollar', type: 'forex', category: 'Commodity Pairs' },
+  { symbol: 'NZD/USD', name: 'New Zealand Dollar / US Dollar', type: 'forex', category: 'Commodity Pairs' },
+
+  // FOREX - Cross Pairs
+  { symbol: 'EUR/GBP', name: 'Euro / British Pound', type: 'forex', category: 'Cross Pairs' },
+  { symbol: 'EUR/JPY', name: 'Euro / Japanese Yen', type: 'forex', category: 'Cross Pairs' },
+  { symbol: 'GBP/JPY', name: 'British Pound / Japanese Yen', type: 'forex', category: 'Cross Pairs' }
+];
@@ -0,0 +1,100 @@
+import { Bar } from '../providers/MarketDataProvider';
+import { SMA, EMA, RSI, MACD, BollingerBands, ATR, VWAP, IndicatorCalculator } from './calculators';
+
+const HOUR = 3600000;
+
+const bar = (close: number, index: number = 0, fields: Partial<Bar> = {}): Bar => ({
+  timestamp: index * HOUR,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1,
+  ...fields
+});
+
+const feed = <T>(calculator: IndicatorCalculator<T>, closes: number[]): (T | null)[] =>
+  closes.map((close, index) => calculator.update(bar(close, index)));
+
+describe('SMA', () => {
+  it('averages the last `period` closes once it has that many', () => {
+    expect(feed(new SMA(3), [1, 2, 3, 4, 5])).toEqual([null, null, 2, 3, 4]);
+  });
+});
+
+describe('EMA', () => {
+  it('seeds with the SMA and then smooths each new close', () => {
+    const values = feed(new EMA(3), [1, 2, 3, 4]);
+    expect(values.slice(0, 3)).toEqual([null, null, 2]);
+    expect(values[3]).toBeCloseTo(3); // (4 - 2) * 0.5 + 2
+  });
+});
+
+describe('RSI', () => {
+  it('needs `period` changes before producing a value', () => {
+    const values = feed(new RSI(3), [10, 11, 12, 13]);
+    expect(values.slice(0, 3)).toEqual([null, null, null]);
+    expect(values[3]).toBe(100);
+  });
+
+  it('is 50 for a flat series and 0 for a falling one', () => {
+    expect(feed(new RSI(2), [5, 5, 5])[2]).toBe(50);
+    expect(feed(new RSI(2), [5, 4, 3])[2]).toBe(0);
+  });
+
+  it('applies Wilder smoothing after the seed', () => {
+    // Seed: gains 1, 0 and losses 0, 1 -> 0.5 each; then a gain of 2 -> 1.25 vs 0.25
+    const values = feed(new RSI(2), [10, 11, 10, 12]);
+    expect(values[2]).toBeCloseTo(50);
+    expect(values[3]).toBeCloseTo(100 - 100 / (1 + 1.25 / 0.25));
+  });
+});
+
+describe('MACD', () => {
+  it('starts once the slow and signal averages are seeded', () => {
+    const closes = Array.from({ length: 6 }, (_, i) => 10 + i);
+    const values = feed(new MACD(2, 3, 2), closes);
+
+    expect(values.slice(0, 3)).toEqual([null, null, null]);
+    // On a steady rise both averages lag by a constant, so MACD settles at 0.5
+    values.slice(3).forEach(value => {
+      expect(value!.macd).toBeCloseTo(0.5);
+      expect(value!.histogram).toBeCloseTo(value!.macd - value!.signal);
+    });
+  });
+});
+
+describe('BollingerBands', () => {
+  it('puts the bands `multiplier` population deviations from the mean', () => {
+    const values = feed(new BollingerBands(4, 2), [2, 4, 4, 6, 6]);
+    expect(values.slice(0, 3)).toEqual([null, null, null]);
+    expect(values[3]!.middle).toBe(4);
+    expect(values[3]!.upper).toBeCloseTo(4 + 2 * Math.sqrt(2));
+    expect(values[4]!.lower).toBeCloseTo(5 - 2);
+  });
+});
+
+describe('ATR', () => {
+  it('includes gaps from the previous close in the true range', () => {
+    const atr = new ATR(2);
+    expect(atr.update(bar(10, 0, { high: 11, low: 9 }))).toBeNull();
+    // Gap up: high 14 is 4 above the previous close of 10
+    expect(atr.update(bar(13, 1, { high: 14, low: 12 }))).toBeCloseTo((2 + 4) / 2);
+    expect(atr.update(bar(13, 2, { high: 14, low: 13 }))).toBeCloseTo((3 + 1) / 2);
+  });
+});
+
+describe('VWAP', () => {
+  it('weights typical prices by volume and resets each session', () => {
+    const vwap = new VWAP(timestamp => String(Math.floor(timestamp / (24 * HOUR))));
+
+    expect(vwap.update(bar(10, 0, { high: 10, low: 10, volume: 1 }))).toBe(10);
+    expect(vwap.update(bar(20, 1, { high: 20, low: 20, volume: 3 }))).toBe(17.5);
+    expect(vwap.update(bar(30, 24, { high: 30, low: 30, volume: 2 }))).toBe(30);
+  });
+
+  it('has no value until some volume trades', () => {
+    const vwap = new VWAP(() => 'session');
+    expect(vwap.update(bar(10, 0, { volume: 0 }))).toBeNull();
+  });
+});
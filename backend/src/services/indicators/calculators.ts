@@ -0,0 +1,204 @@
+import { Bar } from '../providers/MarketDataProvider';
+
+/**
+ * Incremental indicator calculators. Each one is fed closed bars in time order
+ * through update() and keeps only the state it needs, so a new bar costs O(1)
+ * (O(period) for Bollinger's deviation) instead of a pass over the history.
+ * Values are null until enough bars have been seen.
+ */
+export interface IndicatorCalculator<T> {
+  update(bar: Bar): T | null;
+}
+
+export class SMA implements IndicatorCalculator<number> {
+  private window: number[] = [];
+  private sum = 0;
+
+  constructor(readonly period: number) {}
+
+  update(bar: Bar): number | null {
+    return this.next(bar.close);
+  }
+
+  next(value: number): number | null {
+    this.window.push(value);
+    this.sum += value;
+    if (this.window.length > this.period) {
+      this.sum -= this.window.shift()!;
+    }
+    return this.window.length === this.period ? this.sum / this.period : null;
+  }
+}
+
+// Seeded with the SMA of the first `period` values
+export class EMA implements IndicatorCalculator<number> {
+  private seed: SMA;
+  private value: number | null = null;
+  private multiplier: number;
+
+  constructor(readonly period: number) {
+    this.seed = new SMA(period);
+    this.multiplier = 2 / (period + 1);
+  }
+
+  update(bar: Bar): number | null {
+    return this.next(bar.close);
+  }
+
+  next(value: number): number | null {
+    if (this.value === null) {
+      this.value = this.seed.next(value);
+    } else {
+      this.value = (value - this.value) * this.multiplier + this.value;
+    }
+    return this.value;
+  }
+}
+
+// Wilder's RSI: averages seeded over the first `period` changes, then smoothed
+export class RSI implements IndicatorCalculator<number> {
+  private previousClose: number | null = null;
+  private count = 0;
+  private avgGain = 0;
+  private avgLoss = 0;
+
+  constructor(readonly period: number = 14) {}
+
+  update(bar: Bar): number | null {
+    if (this.previousClose === null) {
+      this.previousClose = bar.close;
+      return null;
+    }
+
+    const change = bar.close - this.previousClose;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    this.previousClose = bar.close;
+    this.count++;
+
+    if (this.count <= this.period) {
+      this.avgGain += gain / this.period;
+      this.avgLoss += loss / this.period;
+      if (this.count < this.period) return null;
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    if (this.avgLoss === 0) return this.avgGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + this.avgGain / this.avgLoss);
+  }
+}
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export class MACD implements IndicatorCalculator<MACDValue> {
+  private fast: EMA;
+  private slow: EMA;
+  private signalLine: EMA;
+
+  constructor(
+    readonly fastPeriod: number = 12,
+    readonly slowPeriod: number = 26,
+    readonly signalPeriod: number = 9
+  ) {
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signalLine = new EMA(signalPeriod);
+  }
+
+  update(bar: Bar): MACDValue | null {
+    const fast = this.fast.next(bar.close);
+    const slow = this.slow.next(bar.close);
+    if (fast === null || slow === null) return null;
+
+    const macd = fast - slow;
+    const signal = this.signalLine.next(macd);
+    if (signal === null) return null;
+
+    return { macd, signal, histogram: macd - signal };
+  }
+}
+
+export interface BollingerValue {
+  middle: number;
+  upper: number;
+  lower: number;
+}
+
+export class BollingerBands implements IndicatorCalculator<BollingerValue> {
+  private window: number[] = [];
+  private sum = 0;
+
+  constructor(readonly period: number = 20, readonly multiplier: number = 2) {}
+
+  update(bar: Bar): BollingerValue | null {
+    this.window.push(bar.close);
+    this.sum += bar.close;
+    if (this.window.length > this.period) {
+      this.sum -= this.window.shift()!;
+    }
+    if (this.window.length < this.period) return null;
+
+    const middle = this.sum / this.period;
+    const variance = this.window.reduce((acc, close) => acc + (close - middle) ** 2, 0) / this.period;
+    const deviation = Math.sqrt(variance) * this.multiplier;
+    return { middle, upper: middle + deviation, lower: middle - deviation };
+  }
+}
+
+// Wilder's ATR: true ranges averaged over the first `period` bars, then smoothed
+export class ATR implements IndicatorCalculator<number> {
+  private previousClose: number | null = null;
+  private count = 0;
+  private value = 0;
+
+  constructor(readonly period: number = 14) {}
+
+  update(bar: Bar): number | null {
+    const trueRange = this.previousClose === null
+      ? bar.high - bar.low
+      : Math.max(
+          bar.high - bar.low,
+          Math.abs(bar.high - this.previousClose),
+          Math.abs(bar.low - this.previousClose)
+        );
+    this.previousClose = bar.close;
+    this.count++;
+
+    if (this.count <= this.period) {
+      this.value += trueRange / this.period;
+      return this.count === this.period ? this.value : null;
+    }
+
+    this.value = (this.value * (this.period - 1) + trueRange) / this.period;
+    return this.value;
+  }
+}
+
+// Session VWAP; sessionKey maps a bar to its session so the sums reset each session
+export class VWAP implements IndicatorCalculator<number> {
+  private session: string | null = null;
+  private priceVolume = 0;
+  private volume = 0;
+
+  constructor(private sessionKey: (timestamp: number) => string) {}
+
+  update(bar: Bar): number | null {
+    const session = this.sessionKey(bar.timestamp);
+    if (session !== this.session) {
+      this.session = session;
+      this.priceVolume = 0;
+      this.volume = 0;
+    }
+
+    const typicalPrice = (bar.high + bar.low + bar.close) / 3;
+    this.priceVolume += typicalPrice * bar.volume;
+    this.volume += bar.volume;
+    return this.volume > 0 ? this.priceVolume / this.volume : null;
+  }
+}
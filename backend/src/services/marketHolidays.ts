@@ -0,0 +1,120 @@
+import { addDays, dayOfWeek } from './marketTime';
+
+/**
+ * The bundled NYSE schedule, used when the provider's calendar can't be
+ * reached and to name the holidays it leaves out (Alpaca's calendar only
+ * lists trading days).
+ *
+ * Holidays follow the exchange's rules: one falling on a Saturday is observed
+ * the Friday before, except New Year's Day, and one on a Sunday the Monday
+ * after. Early closes at 13:00 are the day before Independence Day, the day
+ * after Thanksgiving and Christmas Eve, when those fall on weekdays.
+ * One-off closures are listed in specialClosures.
+ */
+
+export interface MarketClosure {
+  date: string; // YYYY-MM-DD
+  name: string;
+  kind: 'holiday' | 'earlyClose';
+  close?: string; // New York HH:MM, early closes only
+}
+
+export const EARLY_CLOSE_TIME = '13:00';
+
+const specialClosures: MarketClosure[] = [
+  { date: '2025-01-09', name: 'National Day of Mourning for President Carter', kind: 'holiday' }
+];
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+const isoDate = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+// The `nth` `weekday` (0 Sunday) of a month; a negative nth counts from the end
+const nthWeekday = (year: number, month: number, weekday: number, nth: number): string => {
+  if (nth > 0) {
+    const first = isoDate(year, month, 1);
+    const offset = (weekday - dayOfWeek(first) + 7) % 7;
+    return addDays(first, offset + (nth - 1) * 7);
+  }
+  const last = addDays(month === 12 ? isoDate(year + 1, 1, 1) : isoDate(year, month + 1, 1), -1);
+  const offset = (dayOfWeek(last) - weekday + 7) % 7;
+  return addDays(last, -offset + (nth + 1) * 7);
+};
+
+// Saturday holidays move to Friday, Sunday holidays to Monday
+const observed = (date: string): string => {
+  const weekday = dayOfWeek(date);
+  if (weekday === 6) return addDays(date, -1);
+  if (weekday === 0) return addDays(date, 1);
+  return date;
+};
+
+// Anonymous Gregorian algorithm
+const easterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return isoDate(year, month, day);
+};
+
+const isWeekday = (date: string): boolean => {
+  const weekday = dayOfWeek(date);
+  return weekday >= 1 && weekday <= 5;
+};
+
+const closuresByYear: Map<number, MarketClosure[]> = new Map();
+
+export const getMarketClosures = (year: number): MarketClosure[] => {
+  const cached = closuresByYear.get(year);
+  if (cached) return cached;
+
+  const holiday = (date: string, name: string): MarketClosure => ({ date, name, kind: 'holiday' });
+  const earlyClose = (date: string, name: string): MarketClosure => ({ date, name, kind: 'earlyClose', close: EARLY_CLOSE_TIME });
+
+  const newYear = isoDate(year, 1, 1);
+  const independenceDay = isoDate(year, 7, 4);
+  const thanksgiving = nthWeekday(year, 11, 4, 4);
+  const christmas = isoDate(year, 12, 25);
+
+  const closures: MarketClosure[] = [
+    // No Friday observance when January 1st is a Saturday
+    ...(dayOfWeek(newYear) === 6 ? [] : [holiday(observed(newYear), "New Year's Day")]),
+    holiday(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day'),
+    holiday(nthWeekday(year, 2, 1, 3), "Washington's Birthday"),
+    holiday(addDays(easterSunday(year), -2), 'Good Friday'),
+    holiday(nthWeekday(year, 5, 1, -1), 'Memorial Day'),
+    ...(year >= 2022 ? [holiday(observed(isoDate(year, 6, 19)), 'Juneteenth National Independence Day')] : []),
+    holiday(observed(independenceDay), 'Independence Day'),
+    holiday(nthWeekday(year, 9, 1, 1), 'Labor Day'),
+    holiday(thanksgiving, 'Thanksgiving Day'),
+    holiday(observed(christmas), 'Christmas Day'),
+    ...specialClosures.filter(closure => closure.date.startsWith(`${year}-`))
+  ];
+
+  const eveOfIndependenceDay = isoDate(year, 7, 3);
+  if (isWeekday(eveOfIndependenceDay) && isWeekday(independenceDay)) {
+    closures.push(earlyClose(eveOfIndependenceDay, 'Independence Day (early close)'));
+  }
+  closures.push(earlyClose(addDays(thanksgiving, 1), 'Day after Thanksgiving (early close)'));
+  const christmasEve = isoDate(year, 12, 24);
+  if (isWeekday(christmasEve) && isWeekday(christmas)) {
+    closures.push(earlyClose(christmasEve, 'Christmas Eve (early close)'));
+  }
+
+  closures.sort((a, b) => a.date.localeCompare(b.date));
+  closuresByYear.set(year, closures);
+  return closures;
+};
+
+export const findMarketClosure = (date: string): MarketClosure | undefined =>
+  getMarketClosures(parseInt(date.slice(0, 4))).find(closure => closure.date === date);
@@ -0,0 +1,61 @@
+// New York wall-clock helpers: the US equity market's dates and session times are all Eastern
+
+export const MARKET_TIME_ZONE = 'America/New_York';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const newYorkParts = new Intl.DateTimeFormat('en-CA', {
+  timeZone: MARKET_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+});
+
+const partsOf = (timestamp: number): Record<string, string> => {
+  const parts: Record<string, string> = {};
+  newYorkParts.formatToParts(new Date(timestamp)).forEach(part => { parts[part.type] = part.value; });
+  return parts;
+};
+
+// The New York trading date (YYYY-MM-DD) and minutes past midnight at `timestamp`
+export const toNewYork = (timestamp: number): { date: string; minutes: number } => {
+  const parts = partsOf(timestamp);
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: parseInt(parts.hour) * 60 + parseInt(parts.minute)
+  };
+};
+
+// How far New York wall-clock time is ahead of UTC at `timestamp` (negative: -4h or -5h)
+const newYorkOffsetMs = (timestamp: number): number => {
+  const parts = partsOf(timestamp);
+  const wallClock = Date.UTC(
+    parseInt(parts.year), parseInt(parts.month) - 1, parseInt(parts.day),
+    parseInt(parts.hour), parseInt(parts.minute)
+  );
+  return wallClock - Math.floor(timestamp / 60000) * 60000;
+};
+
+// The instant a New York date and HH:MM wall-clock time happen, across DST changes
+export const newYorkTimeToDate = (date: string, time: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  const guess = wallClock - newYorkOffsetMs(wallClock);
+  return new Date(wallClock - newYorkOffsetMs(guess));
+};
+
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+};
+
+// 0 is Sunday, as with Date.getDay
+export const dayOfWeek = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
@@ -0,0 +1,79 @@
+import axios from 'axios';
+import { AlpacaMarketDataProvider } from './AlpacaMarketDataProvider';
+
+const DATA_URL = 'https://data.example';
+
+const snapshot = (price: number) => ({
+  latestTrade: { p: price, t: '2024-03-06T14:30:00Z' },
+  dailyBar: { o: price - 1, h: price + 1, l: price - 2, c: price, v: 1000 },
+  prevDailyBar: { c: price - 1 }
+});
+
+const stockSymbols = Array.from({ length: 150 }, (_, i) => `S${String(i).padStart(3, '0')}`);
+
+// Answers each snapshot request for the symbols it asked for, leaving out `missing`
+const answerSnapshots = (missing: string[] = [], failing: (url: string, symbols: string[]) => boolean = () => false) =>
+  jest.spyOn(axios, 'get').mockImplementation(async (url: string, config?: { params?: { symbols: string } }) => {
+    const symbols = config!.params!.symbols.split(',');
+    if (failing(url, symbols)) throw new Error('503 Service Unavailable');
+    const snapshots = Object.fromEntries(
+      symbols.filter(symbol => !missing.includes(symbol)).map((symbol, i) => [symbol, snapshot(100 + i)])
+    );
+    return { data: url.includes('/crypto/') ? { snapshots } : snapshots };
+  });
+
+const requestedSymbols = (get: jest.SpyInstance) =>
+  get.mock.calls.map(([url, config]) => [url.replace(DATA_URL, ''), config.params.symbols.split(',').length]);
+
+describe('AlpacaMarketDataProvider.getQuotes', () => {
+  beforeEach(() => {
+    process.env.ALPACA_API_KEY = 'key';
+    process.env.ALPACA_SECRET_KEY = 'secret';
+    process.env.ALPACA_DATA_URL = DATA_URL;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    delete process.env.ALPACA_API_KEY;
+    delete process.env.ALPACA_SECRET_KEY;
+    delete process.env.ALPACA_DATA_URL;
+    jest.restoreAllMocks();
+  });
+
+  it('splits more than 100 symbols into batches and merges what comes back, without the missing symbol', async () => {
+    const get = answerSnapshots(['S120']);
+    const provider = new AlpacaMarketDataProvider();
+
+    const quotes = await provider.getQuotes([...stockSymbols, 'BTC/USD', 'ETH/USD']);
+
+    expect(requestedSymbols(get)).toEqual([
+      ['/v2/stocks/snapshots', 100],
+      ['/v2/stocks/snapshots', 50],
+      ['/v1beta3/crypto/us/snapshots', 2]
+    ]);
+    expect(quotes.size).toBe(151);
+    expect(quotes.has('S120')).toBe(false);
+    expect(quotes.get('S149')).toMatchObject({ symbol: 'S149', changeBaseline: 'prevClose' });
+    expect(quotes.get('ETH/USD')).toMatchObject({ symbol: 'ETH/USD', price: 101 });
+  });
+
+  it('loses only the symbols of a batch that fails', async () => {
+    answerSnapshots([], (_url, symbols) => symbols.includes('S000'));
+    const provider = new AlpacaMarketDataProvider();
+
+    const quotes = await provider.getQuotes(stockSymbols);
+
+    expect(quotes.size).toBe(50);
+    expect(quotes.has('S099')).toBe(false);
+    expect(quotes.has('S100')).toBe(true);
+    expect(console.error).toHaveBeenCalledWith('❌ Snapshot batch failed:', '503 Service Unavailable');
+  });
+
+  it('fails when every batch fails', async () => {
+    answerSnapshots([], () => true);
+    const provider = new AlpacaMarketDataProvider();
+
+    await expect(provider.getQuotes(stockSymbols)).rejects.toThrow('503 Service Unavailable');
+  });
+});
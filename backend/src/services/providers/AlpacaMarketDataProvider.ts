@@ -0,0 +1,361 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import https from 'https';
+import { MarketData } from '../MarketDataService';
+import {
+  MarketDataProvider,
+  StreamHandlers,
+  StreamTrade,
+  StreamBar,
+  Bar,
+  BarsRequest,
+  BarPage,
+  BarFeed,
+  AssetInfo,
+  MarketClock,
+  TradingDayInfo,
+  StreamStatus,
+  RequestPriority
+} from './MarketDataProvider';
+import { AlpacaStreamConnection } from './AlpacaStreamConnection';
+import { RestRateLimiter, RateLimiterMetrics } from './RestRateLimiter';
+import { AssetClass, getAssetClass } from '../SubscriptionManager';
+
+// Ultra-optimized HTTP agent for maximum frequency calls
+const httpAgent = new https.Agent({
+  keepAlive: true,
+  keepAliveMsecs: 500, // Faster keep-alive
+  maxSockets: 100, // Higher concurrent connections for frequent updates
+  maxFreeSockets: 20, // More free sockets for rapid reuse
+  timeout: 1500, // Faster timeout for high-frequency calls
+  scheduling: 'fifo' // First-in-first-out for predictable performance
+});
+
+const MAX_PAGE_SIZE = 10000; // Alpaca's largest page of bars
+const SNAPSHOT_CHUNK_SIZE = 100; // Symbols per snapshot request, keeping the query string short
+const DEFAULT_REQUESTS_PER_MINUTE = 200; // Alpaca's free plan allowance
+
+// The allowance is per API key, so every provider instance in the process draws on one bucket
+let sharedLimiter: RestRateLimiter | undefined;
+
+const getSharedLimiter = (): RestRateLimiter => {
+  if (!sharedLimiter) {
+    const requestsPerMinute = parseInt(process.env.ALPACA_REQUESTS_PER_MINUTE || '') || DEFAULT_REQUESTS_PER_MINUTE;
+    // Polling and backfills are kept off the last few tokens so a user's request rarely waits
+    sharedLimiter = new RestRateLimiter({
+      requestsPerMinute,
+      burst: Math.max(Math.round(requestsPerMinute / 20), 5),
+      maxRetries: 3,
+      maxWaitMs: { user: 15000, high: 10000, low: 20000 },
+      reserve: { low: 2, background: 5 }
+    });
+  }
+  return sharedLimiter;
+};
+
+export class AlpacaMarketDataProvider implements MarketDataProvider {
+  readonly name = 'alpaca';
+  private alpacaApiKey: string;
+  private alpacaSecret: string;
+  private alpacaBaseUrl: string;
+  private alpacaDataBaseUrl: string;
+  private dataFeed: BarFeed;
+  private stockStream: AlpacaStreamConnection;
+  private cryptoStream: AlpacaStreamConnection;
+  private handlers?: StreamHandlers;
+  private limiter: RestRateLimiter;
+
+  constructor() {
+    this.alpacaApiKey = process.env.ALPACA_API_KEY || '';
+    this.alpacaSecret = process.env.ALPACA_SECRET_KEY || '';
+    this.alpacaBaseUrl = process.env.ALPACA_BASE_URL || 'https://paper-api.alpaca.markets';
+    this.alpacaDataBaseUrl = process.env.ALPACA_DATA_URL || 'https://data.alpaca.markets';
+    this.dataFeed = process.env.ALPACA_DATA_FEED === 'sip' ? 'sip' : 'iex';
+
+    if (!this.alpacaApiKey || !this.alpacaSecret) {
+      throw new Error('Alpaca API credentials are required. Set MARKET_DATA_PROVIDER=replay to run without them.');
+    }
+    console.log('✅ Alpaca API credentials loaded successfully. Using real-time data only.');
+
+    this.limiter = getSharedLimiter();
+
+    // Created up front so symbols subscribed before connect() go out with the first auth
+    const onTrade = (trade: StreamTrade) => this.handlers?.onTrade(trade);
+    const onBar = (bar: StreamBar) => this.handlers?.onBar?.(bar);
+    this.stockStream = new AlpacaStreamConnection({
+      name: 'stocks',
+      url: `wss://stream.data.alpaca.markets/v2/${this.dataFeed}`,
+      key: this.alpacaApiKey,
+      secret: this.alpacaSecret,
+      onTrade,
+      onBar
+    });
+    this.cryptoStream = new AlpacaStreamConnection({
+      name: 'crypto',
+      url: 'wss://stream.data.alpaca.markets/v1beta3/crypto/us',
+      key: this.alpacaApiKey,
+      secret: this.alpacaSecret,
+      onTrade,
+      onBar
+    });
+  }
+
+  // GET through the rate limiter; identical requests already queued or in flight share one response
+  private async get(url: string, config: AxiosRequestConfig, priority: RequestPriority): Promise<any> {
+    const key = `${url}?${JSON.stringify(config.params || {})}`;
+    const response = await this.limiter.schedule(priority, key, () =>
+      axios.get(url, { ...config, headers: { ...this.authHeaders, ...config.headers } })
+    );
+    return response.data;
+  }
+
+  getRequestMetrics(): RateLimiterMetrics {
+    return this.limiter.getMetrics();
+  }
+
+  private get authHeaders() {
+    return {
+      'APCA-API-KEY-ID': this.alpacaApiKey,
+      'APCA-API-SECRET-KEY': this.alpacaSecret
+    };
+  }
+
+  async connect(handlers: StreamHandlers): Promise<void> {
+    this.handlers = handlers;
+    this.stockStream.start();
+    this.cryptoStream.start();
+  }
+
+  async disconnect(): Promise<void> {
+    this.stockStream.stop();
+    this.cryptoStream.stop();
+  }
+
+  private streamFor(assetClass: AssetClass): AlpacaStreamConnection {
+    return assetClass === 'crypto' ? this.cryptoStream : this.stockStream;
+  }
+
+  // One message per stream rather than one per symbol
+  private groupByStream(symbols: string[]): Map<AlpacaStreamConnection, string[]> {
+    const groups = new Map<AlpacaStreamConnection, string[]>();
+    symbols.forEach(symbol => {
+      const stream = this.streamFor(getAssetClass(symbol));
+      groups.set(stream, [...(groups.get(stream) || []), symbol]);
+    });
+    return groups;
+  }
+
+  subscribe(symbols: string[]): void {
+    this.groupByStream(symbols).forEach((group, stream) => stream.subscribe(group));
+  }
+
+  unsubscribe(symbols: string[]): void {
+    this.groupByStream(symbols).forEach((group, stream) => stream.unsubscribe(group));
+  }
+
+  getStreamStatus(): StreamStatus[] {
+    return [this.stockStream.getStatus(), this.cryptoStream.getStatus()];
+  }
+
+  async getQuote(symbol: string, priority: RequestPriority = 'user'): Promise<MarketData | null> {
+    const quotes = await this.getQuotes([symbol], priority);
+    return quotes.get(symbol) || null;
+  }
+
+  // Stocks and crypto have separate snapshot endpoints; each takes a chunk of symbols per request
+  async getQuotes(symbols: string[], priority: RequestPriority = 'user'): Promise<Map<string, MarketData>> {
+    const stocks = symbols.filter(symbol => getAssetClass(symbol) !== 'crypto');
+    const crypto = symbols.filter(symbol => getAssetClass(symbol) === 'crypto');
+
+    const requests: Promise<Record<string, any>>[] = [];
+    for (let i = 0; i < stocks.length; i += SNAPSHOT_CHUNK_SIZE) {
+      // Multi-symbol stock snapshots come back keyed by symbol at the top level
+      requests.push(this.get(
+        `${this.alpacaDataBaseUrl}/v2/stocks/snapshots`,
+        {
+          params: { symbols: stocks.slice(i, i + SNAPSHOT_CHUNK_SIZE).join(','), feed: this.dataFeed },
+          httpsAgent: httpAgent,
+          timeout: 5000
+        },
+        priority
+      ));
+    }
+    for (let i = 0; i < crypto.length; i += SNAPSHOT_CHUNK_SIZE) {
+      requests.push(this.get(
+        `${this.alpacaDataBaseUrl}/v1beta3/crypto/us/snapshots`,
+        { params: { symbols: crypto.slice(i, i + SNAPSHOT_CHUNK_SIZE).join(',') } },
+        priority
+      ).then(data => data.snapshots || {}));
+    }
+
+    // A failed chunk only loses its own symbols, unless nothing came back at all
+    const results = await Promise.allSettled(requests);
+    const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failures.length === results.length && failures.length > 0) throw failures[0].reason;
+    failures.forEach(failure => console.error('❌ Snapshot batch failed:', failure.reason instanceof Error ? failure.reason.message : failure.reason));
+
+    const quotes = new Map<string, MarketData>();
+    results.forEach(result => {
+      if (result.status !== 'fulfilled') return;
+      Object.entries(result.value).forEach(([symbol, snapshot]) => {
+        const quote = this.toMarketData(symbol, snapshot);
+        if (quote) quotes.set(symbol, quote);
+      });
+    });
+    return quotes;
+  }
+
+  // Snapshot: latest trade and quote plus the latest minute bar and the current and previous daily bars
+  private toMarketData(symbol: string, snapshot: any): MarketData | null {
+    const isCrypto = getAssetClass(symbol) === 'crypto';
+    const trade = snapshot?.latestTrade;
+    const quote = snapshot?.latestQuote;
+    const minuteBar = snapshot?.minuteBar;
+    const dailyBar = snapshot?.dailyBar;
+    const prevDailyBar = snapshot?.prevDailyBar;
+    if (!trade && !quote) {
+      return null;
+    }
+
+    // Get current price
+    const currentPrice = trade?.p || quote?.ap || 0;
+
+    // Reference prices; change is reported against the previous close and callers re-base as needed.
+    // The latest minute bar opened about a minute ago, which saves a bars request per symbol for '1m'
+    const baselines: MarketData['baselines'] = {};
+    if (minuteBar?.o > 0) baselines['1m'] = minuteBar.o;
+    if (dailyBar?.o > 0) baselines.open = dailyBar.o;
+    if (prevDailyBar?.c > 0) baselines.prevClose = prevDailyBar.c;
+
+    const previousClose = prevDailyBar?.c || 0;
+    const change = previousClose > 0 ? currentPrice - previousClose : 0;
+
+    return {
+      symbol,
+      price: currentPrice,
+      change,
+      changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+      volume: dailyBar?.v || 0,
+      high: dailyBar?.h || 0,
+      low: dailyBar?.l || 0,
+      open: dailyBar?.o || 0,
+      previousClose,
+      changeBaseline: 'prevClose',
+      baselines,
+      timestamp: isCrypto ? new Date(trade?.t || Date.now()) : new Date()
+    };
+  }
+
+  // The latest `limit` bars in the range, like every other bar source: pages newest first
+  // until enough are collected or the range is exhausted, then returns them oldest first
+  async getBars(request: BarsRequest): Promise<Bar[]> {
+    const bars: Bar[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.getBarPage({
+        ...request,
+        limit: Math.min(request.limit - bars.length, MAX_PAGE_SIZE),
+        pageToken,
+        sort: 'desc'
+      });
+      bars.push(...page.bars);
+      pageToken = page.nextPageToken;
+    } while (pageToken && bars.length < request.limit);
+
+    return bars.slice(0, request.limit).reverse();
+  }
+
+  async getBarPage(request: BarsRequest): Promise<BarPage> {
+    const { symbol, timeframe, start, end, limit, adjustment = 'raw', feed = this.dataFeed, pageToken } = request;
+
+    let apiUrl: string;
+    const params: any = {
+      timeframe,
+      limit: Math.min(limit, MAX_PAGE_SIZE)
+    };
+
+    if (getAssetClass(symbol) === 'crypto') {
+      // Crypto bars are keyed by pair (BTC/USD) and have no feed or adjustment
+      apiUrl = `${this.alpacaDataBaseUrl}/v1beta3/crypto/us/bars`;
+      params.symbols = symbol;
+    } else {
+      apiUrl = `${this.alpacaDataBaseUrl}/v2/stocks/${encodeURIComponent(symbol)}/bars`;
+      params.feed = feed;
+      params.adjustment = adjustment;
+    }
+
+    if (start) params.start = start;
+    if (end) params.end = end;
+    if (pageToken) params.page_token = pageToken;
+    if (request.sort) params.sort = request.sort;
+
+    console.log(`Fetching bars for ${symbol}:`, { apiUrl, params });
+
+    const response = await this.get(apiUrl, { params }, request.priority || 'user');
+
+    // Single-symbol stock bars come back as an array, multi-symbol crypto bars keyed by pair
+    const data = response.bars;
+    const bars = (Array.isArray(data) ? data : data?.[symbol]) || [];
+
+    return {
+      bars: bars.map((bar: any) => ({
+        timestamp: new Date(bar.t).getTime(),
+        open: parseFloat(bar.o),
+        high: parseFloat(bar.h),
+        low: parseFloat(bar.l),
+        close: parseFloat(bar.c),
+        volume: Number(bar.v) || 0
+      })),
+      nextPageToken: response.next_page_token || undefined
+    };
+  }
+
+  // Every active US equity and crypto pair Alpaca offers
+  async listAssets(): Promise<AssetInfo[]> {
+    const assetClasses: AssetInfo['assetClass'][] = ['us_equity', 'crypto'];
+    const responses = await Promise.all(assetClasses.map(assetClass =>
+      this.get(`${this.alpacaBaseUrl}/v2/assets`, {
+        params: { status: 'active', asset_class: assetClass }
+      }, 'background')
+    ));
+
+    return responses.flatMap(response => response.map((asset: any) => ({
+      symbol: asset.symbol,
+      name: asset.name || asset.symbol,
+      assetClass: asset.class === 'crypto' ? 'crypto' : 'us_equity',
+      exchange: asset.exchange,
+      status: asset.status === 'active' ? 'active' : 'inactive',
+      tradable: Boolean(asset.tradable),
+      fractionable: Boolean(asset.fractionable),
+      marginable: Boolean(asset.marginable),
+      shortable: Boolean(asset.shortable)
+    })));
+  }
+
+  async getClock(): Promise<MarketClock> {
+    const clock = await this.get(`${this.alpacaBaseUrl}/v2/clock`, {}, 'low');
+    return {
+      timestamp: new Date(clock.timestamp),
+      isOpen: Boolean(clock.is_open),
+      nextOpen: new Date(clock.next_open),
+      nextClose: new Date(clock.next_close)
+    };
+  }
+
+  // Alpaca lists only the days the market trades; holidays are simply missing
+  async getCalendar(start: string, end: string): Promise<TradingDayInfo[]> {
+    const days = await this.get(`${this.alpacaBaseUrl}/v2/calendar`, { params: { start, end } }, 'background');
+
+    // Extended session bounds come as HHMM
+    const toClock = (value: string | undefined, fallback: string) =>
+      value && /^\d{4}$/.test(value) ? `${value.slice(0, 2)}:${value.slice(2)}` : fallback;
+
+    return days.map((day: any) => ({
+      date: day.date,
+      open: day.open,
+      close: day.close,
+      sessionOpen: toClock(day.session_open, '04:00'),
+      sessionClose: toClock(day.session_close, '20:00')
+    }));
+  }
+}
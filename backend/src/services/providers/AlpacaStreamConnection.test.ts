@@ -0,0 +1,197 @@
+import { AlpacaStreamConnection } from './AlpacaStreamConnection';
+
+// A socket the test drives by hand: it opens, receives messages and closes when told to
+jest.mock('ws', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  class MockWebSocket extends EventEmitter {
+    static OPEN = 1;
+    static instances: MockWebSocket[] = [];
+    readyState = 0;
+    send = jest.fn();
+    ping = jest.fn();
+    terminate = jest.fn(() => {
+      this.readyState = 3;
+      this.emit('close', 1006, Buffer.from(''));
+    });
+
+    constructor(public url: string) {
+      super();
+      MockWebSocket.instances.push(this);
+    }
+  }
+  return MockWebSocket;
+});
+
+interface MockSocket {
+  readyState: number;
+  send: jest.Mock;
+  ping: jest.Mock;
+  terminate: jest.Mock;
+  emit: (event: string, ...args: unknown[]) => boolean;
+}
+
+const sockets = (): MockSocket[] => jest.requireMock('ws').instances;
+const latest = () => sockets()[sockets().length - 1];
+
+const open = (socket = latest()) => {
+  socket.readyState = 1;
+  socket.emit('open');
+};
+const receive = (message: object, socket = latest()) =>
+  socket.emit('message', Buffer.from(JSON.stringify([message])));
+const authenticate = (socket = latest()) => receive({ T: 'success', msg: 'authenticated' }, socket);
+const sent = (socket = latest()) => socket.send.mock.calls.map(([data]) => JSON.parse(data));
+
+const createConnection = () => new AlpacaStreamConnection({
+  name: 'stocks',
+  url: 'wss://stream.example/v2/iex',
+  key: 'key',
+  secret: 'secret',
+  onTrade: jest.fn(),
+  onBar: jest.fn()
+});
+
+describe('AlpacaStreamConnection', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(Math, 'random').mockReturnValue(1); // Always wait the full backoff cap
+    sockets().length = 0;
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('authenticates on open and subscribes to the current symbols once authenticated', () => {
+    const connection = createConnection();
+    connection.subscribe(['AAPL', 'MSFT']);
+    connection.start();
+    open();
+
+    expect(sent()).toEqual([{ action: 'auth', key: 'key', secret: 'secret' }]);
+    expect(connection.getStatus().state).toBe('authenticating');
+
+    authenticate();
+    expect(connection.getStatus().state).toBe('connected');
+    expect(sent()[1]).toEqual({
+      action: 'subscribe',
+      trades: ['AAPL', 'MSFT'],
+      bars: ['AAPL', 'MSFT'],
+      updatedBars: ['AAPL', 'MSFT']
+    });
+    connection.stop();
+  });
+
+  it('reconnects with a doubling backoff and resets it after authenticating', () => {
+    const connection = createConnection();
+    connection.start();
+
+    latest().emit('close', 1006, Buffer.from(''));
+    expect(connection.getStatus()).toMatchObject({ state: 'reconnecting', reconnectAttempts: 1 });
+    jest.advanceTimersByTime(999);
+    expect(sockets()).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(sockets()).toHaveLength(2);
+
+    latest().emit('close', 1006, Buffer.from(''));
+    jest.advanceTimersByTime(1999);
+    expect(sockets()).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    expect(sockets()).toHaveLength(3);
+
+    open();
+    authenticate();
+    expect(connection.getStatus()).toMatchObject({ state: 'connected', reconnectAttempts: 0, totalReconnects: 2 });
+
+    latest().emit('close', 1006, Buffer.from(''));
+    jest.advanceTimersByTime(1000);
+    expect(sockets()).toHaveLength(4);
+    connection.stop();
+  });
+
+  it('subscribes the same symbols again on every reconnect', () => {
+    const connection = createConnection();
+    connection.start();
+    open();
+    authenticate();
+    connection.subscribe(['AAPL']);
+    connection.unsubscribe(['AAPL']);
+    connection.subscribe(['TSLA']);
+
+    latest().emit('close', 1006, Buffer.from(''));
+    jest.advanceTimersByTime(1000);
+    open();
+    authenticate();
+
+    expect(sent()).toEqual([
+      { action: 'auth', key: 'key', secret: 'secret' },
+      { action: 'subscribe', trades: ['TSLA'], bars: ['TSLA'], updatedBars: ['TSLA'] }
+    ]);
+    connection.stop();
+  });
+
+  it('gives up on a socket that never authenticates', () => {
+    const connection = createConnection();
+    connection.start();
+    open();
+
+    jest.advanceTimersByTime(10000);
+
+    expect(sockets()[0].terminate).toHaveBeenCalled();
+    expect(connection.getStatus()).toMatchObject({ state: 'reconnecting', lastError: 'authentication timed out' });
+    connection.stop();
+  });
+
+  it('tears down a socket that stops answering pings', () => {
+    const connection = createConnection();
+    connection.start();
+    open();
+    authenticate();
+
+    jest.advanceTimersByTime(15000);
+    expect(latest().ping).toHaveBeenCalledTimes(1);
+    latest().emit('pong');
+
+    jest.advanceTimersByTime(15000);
+    expect(latest().ping).toHaveBeenCalledTimes(2);
+    jest.advanceTimersByTime(9999);
+    expect(latest().terminate).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(sockets()[0].terminate).toHaveBeenCalled();
+    expect(connection.getStatus()).toMatchObject({ state: 'reconnecting', lastError: 'heartbeat timed out' });
+    connection.stop();
+  });
+
+  it('reconnects after a fatal error message but not after a recoverable one', () => {
+    const connection = createConnection();
+    connection.start();
+    open();
+    authenticate();
+
+    receive({ T: 'error', code: 405, msg: 'symbol limit exceeded' });
+    expect(latest().terminate).not.toHaveBeenCalled();
+
+    receive({ T: 'error', code: 406, msg: 'connection limit exceeded' });
+    expect(sockets()[0].terminate).toHaveBeenCalled();
+    expect(connection.getStatus().state).toBe('reconnecting');
+    connection.stop();
+  });
+
+  it('stays down once stopped', () => {
+    const connection = createConnection();
+    connection.start();
+    open();
+    connection.stop();
+
+    jest.advanceTimersByTime(60000);
+
+    expect(sockets()).toHaveLength(1);
+    expect(connection.getStatus().state).toBe('disconnected');
+  });
+});
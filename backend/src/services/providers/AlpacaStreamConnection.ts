@@ -0,0 +1,261 @@
+import WebSocket from 'ws';
+import { StreamTrade, StreamBar, StreamStatus, StreamState } from './MarketDataProvider';
+
+interface AlpacaStreamOptions {
+  name: string; // Used in logs and the status endpoint, e.g. 'stocks'
+  url: string;
+  key: string;
+  secret: string;
+  onTrade: (trade: StreamTrade) => void;
+  onBar: (bar: StreamBar) => void;
+}
+
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+const HEARTBEAT_INTERVAL_MS = 15000; // Ping this often...
+const HEARTBEAT_TIMEOUT_MS = 10000; // ...and give up on the socket if no pong arrives in time
+const AUTH_TIMEOUT_MS = 10000;
+
+// Alpaca error codes after which the socket is unusable: not authenticated, auth failed,
+// auth timeout, connection limit exceeded, slow client, internal error
+const FATAL_ERROR_CODES = new Set([401, 402, 404, 406, 407, 500]);
+
+/**
+ * One Alpaca market data WebSocket that stays up on its own.
+ *
+ * - Dropped connections, auth failures and fatal error messages close the socket
+ *   and reconnect with exponential backoff and full jitter.
+ * - A ping/pong watchdog terminates sockets that stall without closing.
+ * - After every (re)authentication the current symbol set is subscribed again,
+ *   so callers only ever maintain the set through subscribe/unsubscribe.
+ */
+export class AlpacaStreamConnection {
+  private options: AlpacaStreamOptions;
+  private ws?: WebSocket;
+  private state: StreamState = 'disconnected';
+  private symbols: Set<string> = new Set();
+  private reconnectAttempts = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private pongTimer?: NodeJS.Timeout;
+  private authTimer?: NodeJS.Timeout;
+  private stopped = true;
+  private connectedAt?: Date;
+  private lastMessageAt?: Date;
+  private lastError?: string;
+  private reconnects = 0;
+
+  constructor(options: AlpacaStreamOptions) {
+    this.options = options;
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.open();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.clearTimers();
+    if (this.ws) {
+      this.ws.removeAllListeners();
+      this.ws.on('error', () => undefined); // A close during CONNECTING still emits error
+      this.ws.terminate();
+      this.ws = undefined;
+    }
+    this.state = 'disconnected';
+  }
+
+  subscribe(symbols: string[]): void {
+    const added = symbols.filter(symbol => !this.symbols.has(symbol));
+    added.forEach(symbol => this.symbols.add(symbol));
+    if (added.length > 0 && this.state === 'connected') {
+      this.send({ action: 'subscribe', ...this.channels(added) });
+    }
+  }
+
+  unsubscribe(symbols: string[]): void {
+    const removed = symbols.filter(symbol => this.symbols.delete(symbol));
+    if (removed.length > 0 && this.state === 'connected') {
+      this.send({ action: 'unsubscribe', ...this.channels(removed) });
+    }
+  }
+
+  // Trades drive live prices; minute bars and their late corrections keep candles exact
+  private channels(symbols: string[]) {
+    return { trades: symbols, bars: symbols, updatedBars: symbols };
+  }
+
+  getStatus(): StreamStatus {
+    return {
+      name: this.options.name,
+      url: this.options.url,
+      state: this.state,
+      connectedAt: this.connectedAt,
+      lastMessageAt: this.lastMessageAt,
+      reconnectAttempts: this.reconnectAttempts,
+      totalReconnects: this.reconnects,
+      lastError: this.lastError,
+      subscribedSymbols: this.symbols.size
+    };
+  }
+
+  private open(): void {
+    this.state = this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting';
+    const ws = new WebSocket(this.options.url);
+    this.ws = ws;
+
+    ws.on('open', () => {
+      console.log(`Connected to Alpaca ${this.options.name} data stream`);
+      this.state = 'authenticating';
+      this.send({ action: 'auth', key: this.options.key, secret: this.options.secret });
+      this.authTimer = setTimeout(() => this.fail('authentication timed out'), AUTH_TIMEOUT_MS);
+      this.startHeartbeat();
+    });
+
+    ws.on('message', (data: Buffer) => {
+      this.lastMessageAt = new Date();
+      try {
+        const messages = JSON.parse(data.toString());
+        this.handleMessages(Array.isArray(messages) ? messages : [messages]);
+      } catch (error) {
+        console.error(`❌ Error parsing ${this.options.name} WebSocket message:`, error);
+      }
+    });
+
+    ws.on('pong', () => {
+      if (this.pongTimer) {
+        clearTimeout(this.pongTimer);
+        this.pongTimer = undefined;
+      }
+    });
+
+    ws.on('error', (error) => {
+      this.lastError = error.message;
+      console.error(`${this.options.name} WebSocket error:`, error.message);
+    });
+
+    ws.on('close', (code, reason) => {
+      if (ws !== this.ws) return; // Superseded by a newer socket
+      const detail = reason?.toString() || `code ${code}`;
+      console.warn(`⚠️ Alpaca ${this.options.name} stream closed (${detail})`);
+      this.scheduleReconnect();
+    });
+  }
+
+  private handleMessages(messages: any[]): void {
+    messages.forEach((message) => {
+      switch (message.T) {
+        case 'success':
+          if (message.msg === 'authenticated') {
+            this.onAuthenticated();
+          }
+          break;
+        case 'error':
+          if (FATAL_ERROR_CODES.has(message.code)) {
+            this.fail(`error ${message.code}: ${message.msg}`);
+          } else {
+            this.lastError = `error ${message.code}: ${message.msg}`;
+            console.error(`❌ Alpaca ${this.options.name} stream ${this.lastError}`);
+          }
+          break;
+        case 't':
+          this.options.onTrade({
+            symbol: message.S,
+            price: message.p,
+            size: message.s,
+            timestamp: new Date(message.t)
+          });
+          break;
+        case 'b':
+        case 'u':
+          this.options.onBar({
+            symbol: message.S,
+            timestamp: new Date(message.t).getTime(),
+            open: message.o,
+            high: message.h,
+            low: message.l,
+            close: message.c,
+            volume: message.v,
+            updated: message.T === 'u'
+          });
+          break;
+      }
+    });
+  }
+
+  private onAuthenticated(): void {
+    if (this.authTimer) {
+      clearTimeout(this.authTimer);
+      this.authTimer = undefined;
+    }
+
+    this.state = 'connected';
+    this.connectedAt = new Date();
+    this.reconnectAttempts = 0;
+    this.lastError = undefined;
+
+    console.log(`✅ ${this.options.name} stream authenticated, subscribing to ${this.symbols.size} symbols`);
+    if (this.symbols.size > 0) {
+      this.send({ action: 'subscribe', ...this.channels(Array.from(this.symbols)) });
+    }
+  }
+
+  // Close the current socket; the close handler takes care of reconnecting
+  private fail(reason: string): void {
+    this.lastError = reason;
+    console.warn(`⚠️ Alpaca ${this.options.name} stream: ${reason}`);
+    if (this.ws) {
+      this.ws.terminate();
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN || this.pongTimer) return;
+
+      this.pongTimer = setTimeout(() => {
+        this.pongTimer = undefined;
+        this.fail('heartbeat timed out');
+      }, HEARTBEAT_TIMEOUT_MS);
+      this.ws.ping();
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private scheduleReconnect(): void {
+    this.clearTimers();
+    this.ws = undefined;
+    if (this.stopped) {
+      this.state = 'disconnected';
+      return;
+    }
+
+    // Full jitter: a random delay up to the exponential cap spreads out reconnect storms
+    const cap = Math.min(MAX_BACKOFF_MS, INITIAL_BACKOFF_MS * 2 ** this.reconnectAttempts);
+    const delay = Math.round(Math.random() * cap);
+    this.reconnectAttempts++;
+    this.reconnects++;
+    this.state = 'reconnecting';
+
+    console.log(`🔄 Reconnecting Alpaca ${this.options.name} stream in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.open();
+    }, delay);
+  }
+
+  private send(message: object): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private clearTimers(): void {
+    [this.reconnectTimer, this.authTimer, this.pongTimer].forEach(timer => timer && clearTimeout(timer));
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.reconnectTimer = undefined;
+    this.authTimer = undefined;
+    this.pongTimer = undefined;
+    this.heartbeatTimer = undefined;
+  }
+}
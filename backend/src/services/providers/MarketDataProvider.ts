@@ -0,0 +1,152 @@
+import { MarketData } from '../MarketDataService';
+import type { RateLimiterMetrics } from './RestRateLimiter';
+
+// A single trade as delivered by a provider's streaming feed
+export interface StreamTrade {
+  symbol: string;
+  price: number;
+  size: number;
+  timestamp: Date;
+}
+
+// A one-minute bar from the stream; `updated` marks a late correction of a bar already sent
+export interface StreamBar {
+  symbol: string;
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  updated: boolean;
+}
+
+export interface Bar {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Corporate action adjustment applied to stock bars; crypto bars are never adjusted
+export type BarAdjustment = 'raw' | 'split' | 'dividend' | 'all';
+export const barAdjustments: BarAdjustment[] = ['raw', 'split', 'dividend', 'all'];
+
+// Stock data feed: IEX (free plan) or the full consolidated SIP tape
+export type BarFeed = 'iex' | 'sip';
+export const barFeeds: BarFeed[] = ['iex', 'sip'];
+
+// Who is waiting on a REST call, most urgent first: a user's request, the featured
+// polling tier, the rest of polling, and backfills and syncs nobody is waiting on
+export type RequestPriority = 'user' | 'high' | 'low' | 'background';
+export const requestPriorities: RequestPriority[] = ['user', 'high', 'low', 'background'];
+
+export interface BarsRequest {
+  symbol: string;
+  timeframe: string;
+  start?: string;
+  end?: string;
+  limit: number; // Total across pages for getBars, page size for getBarPage
+  adjustment?: BarAdjustment; // Defaults to raw
+  feed?: BarFeed; // Defaults to the provider's configured feed
+  pageToken?: string; // Continues a previous getBarPage call
+  sort?: 'asc' | 'desc'; // Order of getBarPage pages; defaults to oldest first
+  priority?: RequestPriority; // Defaults to user
+}
+
+export interface BarPage {
+  bars: Bar[];
+  nextPageToken?: string; // Set when more bars remain in the requested range
+}
+
+export interface AssetSearchResult {
+  symbol: string;
+  name: string;
+  type: 'stock' | 'crypto';
+  exchange?: string;
+}
+
+// One tradable instrument as the provider lists it
+export interface AssetInfo {
+  symbol: string;
+  name: string;
+  assetClass: 'us_equity' | 'crypto';
+  exchange?: string;
+  status: 'active' | 'inactive';
+  tradable: boolean;
+  fractionable: boolean;
+  marginable: boolean;
+  shortable: boolean;
+}
+
+// The exchange clock right now, as the provider reports it
+export interface MarketClock {
+  timestamp: Date;
+  isOpen: boolean; // Regular session only
+  nextOpen: Date;
+  nextClose: Date;
+}
+
+// One trading day; times are New York wall-clock HH:MM
+export interface TradingDayInfo {
+  date: string; // YYYY-MM-DD
+  open: string;
+  close: string;
+  sessionOpen: string; // Start of pre-market
+  sessionClose: string; // End of after-hours
+}
+
+export type StreamState = 'disconnected' | 'connecting' | 'authenticating' | 'connected' | 'reconnecting';
+
+// Health of one streaming connection, reported by the stream status endpoint
+export interface StreamStatus {
+  name: string;
+  url?: string;
+  state: StreamState;
+  connectedAt?: Date;
+  lastMessageAt?: Date;
+  reconnectAttempts: number; // Consecutive failures since the last successful auth
+  totalReconnects: number;
+  lastError?: string;
+  subscribedSymbols: number;
+}
+
+export interface StreamHandlers {
+  onTrade: (trade: StreamTrade) => void;
+  onBar?: (bar: StreamBar) => void; // Providers without bar channels never call it
+}
+
+/**
+ * Source of quotes, streaming trades, historical bars and the asset list.
+ * MarketDataService only talks to market data through this interface, so the
+ * backend can run against Alpaca or against recorded data with no network.
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+
+  // Latest quote for a symbol, or null when the provider has nothing for it
+  getQuote(symbol: string, priority?: RequestPriority): Promise<MarketData | null>;
+
+  // Latest quotes for many symbols in as few requests as the provider allows; symbols it has nothing for are left out
+  getQuotes(symbols: string[], priority?: RequestPriority): Promise<Map<string, MarketData>>;
+
+  // Open the stream; trades (and minute bars, if the feed has them) for subscribed symbols go to handlers
+  connect(handlers: StreamHandlers): Promise<void>;
+  disconnect(): Promise<void>;
+  subscribe(symbols: string[]): void;
+  unsubscribe(symbols: string[]): void;
+  getStreamStatus(): StreamStatus[];
+
+  getBars(request: BarsRequest): Promise<Bar[]>;
+  getBarPage(request: BarsRequest): Promise<BarPage>;
+  listAssets(): Promise<AssetInfo[]>;
+
+  // Null and [] when the provider has no exchange calendar; callers fall back to the bundled one
+  getClock(): Promise<MarketClock | null>;
+  getCalendar(start: string, end: string): Promise<TradingDayInfo[]>;
+
+  // Queueing and throttling of REST calls, or null when the provider makes none
+  getRequestMetrics(): RateLimiterMetrics | null;
+}
@@ -0,0 +1,104 @@
+import path from 'path';
+import { ReplayMarketDataProvider } from './ReplayMarketDataProvider';
+import { StreamTrade } from './MarketDataProvider';
+
+// The fixtures hold AAPL trades at 14:30:00, 14:30:30 and 14:31:10 (CSV, out of order), a
+// BTC/USD trade at 14:30:15 and minute bar at 14:29 (raw Alpaca messages), an AAPL daily
+// bar and an asset file. The first trade plays at NOW.
+const FIXTURES = path.join(__dirname, '__fixtures__', 'replay');
+const NOW = new Date('2024-06-03T10:00:00Z').getTime();
+
+const createProvider = (options: { speed?: number; loop?: boolean } = {}) =>
+  new ReplayMarketDataProvider({ directory: FIXTURES, speed: options.speed ?? 1, loop: options.loop ?? false });
+
+describe('ReplayMarketDataProvider', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('refuses a directory that does not exist', () => {
+    expect(() => new ReplayMarketDataProvider({ directory: path.join(FIXTURES, 'missing'), speed: 1, loop: false }))
+      .toThrow(/Replay directory not found/);
+  });
+
+  it('lists the recorded assets, reading quoted CSV fields', async () => {
+    const assets = await createProvider().listAssets();
+
+    expect(assets).toEqual([
+      expect.objectContaining({ symbol: 'AAPL', name: 'Apple Inc., "common"', assetClass: 'us_equity', exchange: 'NASDAQ', tradable: false }),
+      expect.objectContaining({ symbol: 'BTC/USD', name: 'Bitcoin', assetClass: 'crypto', exchange: undefined })
+    ]);
+  });
+
+  it('quotes the first recorded trade before anything has been replayed', async () => {
+    const provider = createProvider();
+
+    expect(await provider.getQuote('AAPL')).toMatchObject({ price: 100, open: 100, volume: 10, change: 0, changeBaseline: 'open' });
+    expect(await provider.getQuote('BTC/USD')).toMatchObject({ price: 60000, volume: 0.5 });
+    expect(await provider.getQuote('MSFT')).toBeNull();
+  });
+
+  it('serves recorded bars shifted by the same offset as the trades', async () => {
+    const provider = createProvider();
+
+    expect(await provider.getBars({ symbol: 'BTC/USD', timeframe: '1Min', limit: 10 })).toEqual([
+      { timestamp: NOW - 60 * 1000, open: 59900, high: 60100, low: 59800, close: 60000, volume: 12 }
+    ]);
+    expect(await provider.getBars({ symbol: 'AAPL', timeframe: '1Day', limit: 10 })).toEqual([
+      expect.objectContaining({ timestamp: NOW - (33 * 60 + 30) * 60 * 1000, close: 99 })
+    ]);
+  });
+
+  it('replays trades on their recorded schedule to subscribed symbols only', async () => {
+    const provider = createProvider();
+    const received: StreamTrade[] = [];
+    provider.subscribe(['AAPL']);
+    await provider.connect({ onTrade: trade => received.push(trade) });
+
+    jest.advanceTimersByTime(0);
+    expect(received.map(trade => trade.price)).toEqual([100]);
+
+    jest.advanceTimersByTime(70 * 1000);
+    expect(received.map(trade => [trade.price, trade.timestamp.getTime() - NOW])).toEqual([
+      [100, 0],
+      [102, 30 * 1000],
+      [101, 70 * 1000]
+    ]);
+    expect(await provider.getQuote('AAPL')).toMatchObject({ price: 101, open: 100, high: 102, low: 100, volume: 20 });
+    await provider.disconnect();
+  });
+
+  it('builds bars from replayed trades when none were recorded at the timeframe', async () => {
+    const provider = createProvider();
+    await provider.connect({ onTrade: () => undefined });
+    jest.advanceTimersByTime(70 * 1000);
+
+    expect(await provider.getBars({ symbol: 'AAPL', timeframe: '1Min', limit: 10 })).toEqual([
+      { timestamp: NOW, open: 100, high: 102, low: 100, close: 102, volume: 15 },
+      { timestamp: NOW + 60 * 1000, open: 101, high: 101, low: 101, close: 101, volume: 5 }
+    ]);
+    await provider.disconnect();
+  });
+
+  it('plays faster at a higher speed and starts over when looping', async () => {
+    const provider = createProvider({ speed: 2, loop: true });
+    const received: number[] = [];
+    provider.subscribe(['AAPL']);
+    await provider.connect({ onTrade: trade => received.push(trade.price) });
+
+    jest.advanceTimersByTime(35 * 1000);
+    expect(received).toEqual([100, 102, 101]);
+
+    jest.advanceTimersByTime(15 * 1000);
+    expect(received).toEqual([100, 102, 101, 100, 102]);
+    await provider.disconnect();
+  });
+});
@@ -0,0 +1,462 @@
+import fs from 'fs';
+import path from 'path';
+import { MarketData } from '../MarketDataService';
+import {
+  MarketDataProvider,
+  StreamHandlers,
+  StreamTrade,
+  StreamStatus,
+  Bar,
+  BarsRequest,
+  BarPage,
+  AssetSearchResult,
+  AssetInfo,
+  MarketClock,
+  TradingDayInfo
+} from './MarketDataProvider';
+
+export interface ReplayOptions {
+  directory: string;
+  speed: number; // 2 replays twice as fast as recorded
+  loop: boolean; // Start again from the first trade when the recording ends
+}
+
+interface ReplayBar extends Bar {
+  symbol: string;
+  timeframe: string;
+}
+
+interface SessionState {
+  open: number;
+  high: number;
+  low: number;
+  last: number;
+  volume: number;
+  timestamp: Date;
+}
+
+/**
+ * Replays recorded market data from .ndjson/.jsonl/.csv files in a directory.
+ *
+ * Every record carries a `type` of `trade`, `bar` or `asset`:
+ *   trade: symbol, timestamp, price, size
+ *   bar:   symbol, timeframe, timestamp, open, high, low, close, volume
+ *   asset: symbol, name, assetClass ('stock' | 'crypto'), exchange
+ * CSV files use these names as header columns. Raw Alpaca stream messages
+ * (`{"T":"t",...}` trades and `{"T":"b",...}` minute bars) are also accepted
+ * in NDJSON files, so a captured stream can be replayed as-is.
+ *
+ * Recorded timestamps are shifted so the first trade plays at startup; bars
+ * are shifted by the same offset and only those already in the past are served.
+ */
+export class ReplayMarketDataProvider implements MarketDataProvider {
+  readonly name = 'replay';
+  private options: ReplayOptions;
+  private trades: StreamTrade[] = [];
+  private bars: ReplayBar[] = [];
+  private assets: AssetSearchResult[] = [];
+  private offsetMs: number = 0;
+  private handlers?: StreamHandlers;
+  private subscribedSymbols: Set<string> = new Set();
+  private sessions: Map<string, SessionState> = new Map();
+  private replayedTrades: StreamTrade[] = [];
+  private maxReplayedTrades: number = 50000; // Bounds memory when looping
+  private cursor: number = 0;
+  private cycleStart: number = 0;
+  private timer?: NodeJS.Timeout;
+  private connectedAt?: Date;
+  private lastTradeAt?: Date;
+
+  constructor(options: ReplayOptions) {
+    this.options = options;
+    this.load();
+    console.log(`✅ Replay provider loaded ${this.trades.length} trades, ${this.bars.length} bars and ${this.assets.length} assets from ${options.directory}`);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.options.directory)) {
+      throw new Error(`Replay directory not found: ${this.options.directory}`);
+    }
+
+    const files = fs.readdirSync(this.options.directory)
+      .filter(file => /\.(ndjson|jsonl|csv)$/i.test(file))
+      .sort();
+
+    for (const file of files) {
+      const content = fs.readFileSync(path.join(this.options.directory, file), 'utf8');
+      const records = file.toLowerCase().endsWith('.csv')
+        ? this.parseCsv(content)
+        : this.parseNdjson(content);
+      records.forEach(record => this.addRecord(record));
+    }
+
+    this.trades.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    this.bars.sort((a, b) => a.timestamp - b.timestamp);
+
+    // Anchor the recording to now: the first trade plays at startup, or the
+    // last bar closes now when there are no trades to replay
+    const now = Date.now();
+    if (this.trades.length > 0) {
+      this.offsetMs = now - this.trades[0].timestamp.getTime();
+    } else if (this.bars.length > 0) {
+      this.offsetMs = now - this.bars[this.bars.length - 1].timestamp;
+    }
+    this.bars.forEach(bar => { bar.timestamp += this.offsetMs; });
+  }
+
+  private parseNdjson(content: string): any[] {
+    return content
+      .split(/\r?\n/)
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line));
+  }
+
+  private parseCsv(content: string): any[] {
+    const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (lines.length === 0) return [];
+
+    const header = this.splitCsvLine(lines[0]).map(column => column.trim());
+    return lines.slice(1).map(line => {
+      const values = this.splitCsvLine(line);
+      const record: any = {};
+      header.forEach((column, i) => {
+        record[column] = values[i] !== undefined ? values[i].trim() : '';
+      });
+      return record;
+    });
+  }
+
+  private splitCsvLine(line: string): string[] {
+    const values: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') {
+        if (quoted && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          quoted = !quoted;
+        }
+      } else if (char === ',' && !quoted) {
+        values.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    values.push(current);
+    return values;
+  }
+
+  private addRecord(record: any): void {
+    // Raw Alpaca stream messages
+    if (record.T === 't') {
+      this.trades.push({
+        symbol: record.S,
+        price: Number(record.p),
+        size: Number(record.s) || 0,
+        timestamp: new Date(record.t)
+      });
+      return;
+    }
+    if (record.T === 'b') {
+      this.bars.push({
+        symbol: record.S,
+        timeframe: '1Min',
+        timestamp: new Date(record.t).getTime(),
+        open: Number(record.o),
+        high: Number(record.h),
+        low: Number(record.l),
+        close: Number(record.c),
+        volume: Number(record.v) || 0
+      });
+      return;
+    }
+
+    switch (record.type) {
+      case 'trade':
+        this.trades.push({
+          symbol: record.symbol,
+          price: Number(record.price),
+          size: Number(record.size) || 0,
+          timestamp: new Date(record.timestamp)
+        });
+        break;
+      case 'bar':
+        this.bars.push({
+          symbol: record.symbol,
+          timeframe: record.timeframe || '1Day',
+          timestamp: new Date(record.timestamp).getTime(),
+          open: Number(record.open),
+          high: Number(record.high),
+          low: Number(record.low),
+          close: Number(record.close),
+          volume: Number(record.volume) || 0
+        });
+        break;
+      case 'asset':
+        this.assets.push({
+          symbol: record.symbol,
+          name: record.name || record.symbol,
+          type: record.assetClass === 'crypto' || record.symbol.includes('/') ? 'crypto' : 'stock',
+          exchange: record.exchange || undefined
+        });
+        break;
+      default:
+        console.warn('⚠️ Skipping replay record with unknown type:', record.type);
+    }
+  }
+
+  async connect(handlers: StreamHandlers): Promise<void> {
+    this.handlers = handlers;
+    if (this.trades.length === 0) {
+      console.log('⚠️ Replay recording has no trades, streaming disabled');
+      return;
+    }
+
+    this.cursor = 0;
+    this.cycleStart = Date.now();
+    this.connectedAt = new Date();
+    this.scheduleNext();
+    console.log(`▶️ Replaying ${this.trades.length} trades at ${this.options.speed}x`);
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.handlers = undefined;
+    this.connectedAt = undefined;
+  }
+
+  private scheduleNext(): void {
+    if (this.cursor >= this.trades.length) {
+      if (!this.options.loop) {
+        console.log('⏹️ Replay finished');
+        return;
+      }
+      this.cursor = 0;
+      this.cycleStart = Date.now();
+    }
+
+    const firstTime = this.trades[0].timestamp.getTime();
+    const trade = this.trades[this.cursor];
+    const dueAt = this.cycleStart + (trade.timestamp.getTime() - firstTime) / this.options.speed;
+
+    this.timer = setTimeout(() => {
+      this.cursor++;
+      this.emitTrade({ ...trade, timestamp: new Date(dueAt) });
+      this.scheduleNext();
+    }, Math.max(0, dueAt - Date.now()));
+  }
+
+  private emitTrade(trade: StreamTrade): void {
+    const session = this.sessions.get(trade.symbol);
+    if (session) {
+      session.high = Math.max(session.high, trade.price);
+      session.low = Math.min(session.low, trade.price);
+      session.last = trade.price;
+      session.volume += trade.size;
+      session.timestamp = trade.timestamp;
+    } else {
+      this.sessions.set(trade.symbol, {
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
+        last: trade.price,
+        volume: trade.size,
+        timestamp: trade.timestamp
+      });
+    }
+    this.replayedTrades.push(trade);
+    if (this.replayedTrades.length > this.maxReplayedTrades) {
+      this.replayedTrades.splice(0, this.replayedTrades.length - this.maxReplayedTrades);
+    }
+
+    this.lastTradeAt = new Date();
+    if (this.subscribedSymbols.has(trade.symbol)) {
+      this.handlers?.onTrade(trade);
+    }
+  }
+
+  subscribe(symbols: string[]): void {
+    symbols.forEach(symbol => this.subscribedSymbols.add(symbol));
+  }
+
+  unsubscribe(symbols: string[]): void {
+    symbols.forEach(symbol => this.subscribedSymbols.delete(symbol));
+  }
+
+  // The replay never drops, so it is either playing or stopped
+  getStreamStatus(): StreamStatus[] {
+    return [{
+      name: 'replay',
+      state: this.connectedAt ? 'connected' : 'disconnected',
+      connectedAt: this.connectedAt,
+      lastMessageAt: this.lastTradeAt,
+      reconnectAttempts: 0,
+      totalReconnects: 0,
+      subscribedSymbols: this.subscribedSymbols.size
+    }];
+  }
+
+  async getQuote(symbol: string): Promise<MarketData | null> {
+    let session = this.sessions.get(symbol);
+
+    // Nothing replayed yet for this symbol: quote its first recorded trade
+    if (!session) {
+      const first = this.trades.find(trade => trade.symbol === symbol);
+      if (!first) return null;
+      session = {
+        open: first.price,
+        high: first.price,
+        low: first.price,
+        last: first.price,
+        volume: first.size,
+        timestamp: new Date()
+      };
+    }
+
+    // A recording has no prior session, so the replay's first price is the only reference
+    const change = session.last - session.open;
+    return {
+      symbol,
+      price: session.last,
+      change,
+      changePercent: session.open > 0 ? (change / session.open) * 100 : 0,
+      volume: session.volume,
+      high: session.high,
+      low: session.low,
+      open: session.open,
+      previousClose: 0,
+      changeBaseline: 'open',
+      baselines: { open: session.open },
+      timestamp: session.timestamp
+    };
+  }
+
+  async getQuotes(symbols: string[]): Promise<Map<string, MarketData>> {
+    const quotes = new Map<string, MarketData>();
+    for (const symbol of symbols) {
+      const quote = await this.getQuote(symbol);
+      if (quote) quotes.set(symbol, quote);
+    }
+    return quotes;
+  }
+
+  async getBars(request: BarsRequest): Promise<Bar[]> {
+    const { symbol, timeframe, start, end, limit } = request;
+    const now = Date.now();
+    const from = start ? new Date(start).getTime() : 0;
+    const to = Math.min(end ? new Date(end).getTime() : now, now);
+    const timeframeMs = this.getTimeframeMs(timeframe);
+
+    let bars: Bar[] = this.bars
+      .filter(bar => bar.symbol === symbol && this.getTimeframeMs(bar.timeframe) === timeframeMs)
+      .map(({ timestamp, open, high, low, close, volume }) => ({ timestamp, open, high, low, close, volume }));
+
+    // No recorded bars at this timeframe: build them from replayed trades
+    if (bars.length === 0) {
+      bars = this.aggregateTrades(symbol, timeframeMs);
+    }
+
+    return bars
+      .filter(bar => bar.timestamp >= from && bar.timestamp <= to)
+      .slice(-limit);
+  }
+
+  // Recordings are held in memory, so the whole range always fits in one page
+  async getBarPage(request: BarsRequest): Promise<BarPage> {
+    const bars = await this.getBars(request);
+    return { bars: request.sort === 'desc' ? bars.reverse() : bars };
+  }
+
+  private aggregateTrades(symbol: string, timeframeMs: number): Bar[] {
+    const buckets: Map<number, Bar> = new Map();
+
+    for (const trade of this.replayedTrades) {
+      if (trade.symbol !== symbol) continue;
+      const bucket = Math.floor(trade.timestamp.getTime() / timeframeMs) * timeframeMs;
+      const bar = buckets.get(bucket);
+      if (bar) {
+        bar.high = Math.max(bar.high, trade.price);
+        bar.low = Math.min(bar.low, trade.price);
+        bar.close = trade.price;
+        bar.volume += trade.size;
+      } else {
+        buckets.set(bucket, {
+          timestamp: bucket,
+          open: trade.price,
+          high: trade.price,
+          low: trade.price,
+          close: trade.price,
+          volume: trade.size
+        });
+      }
+    }
+
+    return Array.from(buckets.values());
+  }
+
+  private getTimeframeMs(timeframe: string): number {
+    const match = /^(\d+)\s*(min|hour|day|week)$/i.exec(timeframe);
+    if (!match) return 24 * 60 * 60 * 1000;
+
+    const amount = parseInt(match[1]);
+    switch (match[2].toLowerCase()) {
+      case 'min': return amount * 60 * 1000;
+      case 'hour': return amount * 60 * 60 * 1000;
+      case 'week': return amount * 7 * 24 * 60 * 60 * 1000;
+      case 'day':
+      default: return amount * 24 * 60 * 60 * 1000;
+    }
+  }
+
+  // Recorded symbols are listed as active but not tradable: nothing can be executed against a replay
+  async listAssets(): Promise<AssetInfo[]> {
+    return this.recordedAssets().map(asset => ({
+      symbol: asset.symbol,
+      name: asset.name,
+      assetClass: asset.type === 'crypto' ? 'crypto' : 'us_equity',
+      exchange: asset.exchange,
+      status: 'active',
+      tradable: false,
+      fractionable: false,
+      marginable: false,
+      shortable: false
+    }));
+  }
+
+  // Without an asset file, every recorded symbol is an asset
+  private recordedAssets(): AssetSearchResult[] {
+    if (this.assets.length > 0) return this.assets;
+
+    const symbols = new Set([
+      ...this.trades.map(trade => trade.symbol),
+      ...this.bars.map(bar => bar.symbol)
+    ]);
+    return Array.from(symbols).map(symbol => ({
+      symbol,
+      name: symbol,
+      type: symbol.includes('/') ? 'crypto' as const : 'stock' as const
+    }));
+  }
+
+  // Recordings carry no exchange calendar
+  async getClock(): Promise<MarketClock | null> {
+    return null;
+  }
+
+  async getCalendar(): Promise<TradingDayInfo[]> {
+    return [];
+  }
+
+  // Everything is served from the recording; nothing to throttle
+  getRequestMetrics(): null {
+    return null;
+  }
+}
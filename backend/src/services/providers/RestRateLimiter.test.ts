@@ -0,0 +1,193 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { RestRateLimiter, RestRateLimiterOptions, RateLimitError } from './RestRateLimiter';
+
+// One token a second, two at most
+const createLimiter = (options: Partial<RestRateLimiterOptions> = {}) => new RestRateLimiter({
+  requestsPerMinute: 60,
+  burst: 2,
+  maxRetries: 2,
+  maxWaitMs: {},
+  reserve: {},
+  ...options
+});
+
+const throttled = (retryAfter?: string) => new AxiosError('Too Many Requests', '429', undefined, undefined, {
+  status: 429,
+  headers: retryAfter === undefined ? {} : { 'retry-after': retryAfter }
+} as AxiosResponse);
+
+// Records the order tasks actually ran in
+const recorder = () => {
+  const ran: string[] = [];
+  const task = (name: string) => async () => {
+    ran.push(name);
+    return name;
+  };
+  return { ran, task };
+};
+
+describe('RestRateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('sends a burst straight away and then one request per refill', async () => {
+    const limiter = createLimiter();
+    const { ran, task } = recorder();
+
+    ['a', 'b', 'c', 'd'].forEach(name => limiter.schedule('low', undefined, task(name)));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(ran).toEqual(['a', 'b']);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(ran).toEqual(['a', 'b', 'c']);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(ran).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('serves the most urgent queue first', async () => {
+    const limiter = createLimiter({ burst: 1 });
+    const { ran, task } = recorder();
+
+    limiter.schedule('background', undefined, task('first'));
+    limiter.schedule('background', undefined, task('backfill'));
+    limiter.schedule('low', undefined, task('alert'));
+    limiter.schedule('user', undefined, task('chart'));
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(ran).toEqual(['first', 'chart', 'alert', 'backfill']);
+  });
+
+  it('keeps reserved tokens for more urgent requests', async () => {
+    const limiter = createLimiter({ reserve: { background: 1 } });
+    const { ran, task } = recorder();
+
+    limiter.schedule('background', undefined, task('backfill-1'));
+    limiter.schedule('background', undefined, task('backfill-2'));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(ran).toEqual(['backfill-1']);
+
+    limiter.schedule('user', undefined, task('chart'));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(ran).toEqual(['backfill-1', 'chart']);
+  });
+
+  it('shares one request between callers with the same key', async () => {
+    const limiter = createLimiter();
+    const task = jest.fn().mockResolvedValue('quote');
+
+    const results = Promise.all([
+      limiter.schedule('low', 'quote:AAPL', task),
+      limiter.schedule('user', 'quote:AAPL', task)
+    ]);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(await results).toEqual(['quote', 'quote']);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(limiter.getMetrics().byPriority.user.coalesced).toBe(1);
+  });
+
+  it('promotes a queued request when a more urgent caller shares it', async () => {
+    const limiter = createLimiter({ burst: 1 });
+    const { ran, task } = recorder();
+
+    limiter.schedule('background', undefined, task('first'));
+    limiter.schedule('high', undefined, task('high'));
+    limiter.schedule('background', 'bars:AAPL', task('bars'));
+    limiter.schedule('user', 'bars:AAPL', task('bars'));
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(ran).toEqual(['first', 'bars', 'high']);
+  });
+
+  it('gives a promoted request the wait limit of its new class', async () => {
+    const limiter = createLimiter({ burst: 1, maxWaitMs: { user: 60000, low: 500 } });
+    const { task } = recorder();
+
+    limiter.schedule('user', undefined, task('first'));
+    const shared = limiter.schedule('low', 'bars:AAPL', task('bars'));
+    shared.catch(() => undefined);
+    limiter.schedule('user', 'bars:AAPL', task('bars'));
+
+    // Served after one refill, past the low class's 500ms limit it queued with
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(shared).resolves.toBe('bars');
+  });
+
+  it('rejects requests that wait longer than their class allows', async () => {
+    const limiter = createLimiter({ burst: 1, maxWaitMs: { low: 500 } });
+    const { task } = recorder();
+
+    limiter.schedule('user', undefined, task('first'));
+    const late = limiter.schedule('low', undefined, task('late'));
+    late.catch(() => undefined);
+
+    await jest.advanceTimersByTimeAsync(500);
+    await expect(late).rejects.toBeInstanceOf(RateLimitError);
+    expect(limiter.getMetrics().byPriority.low.timedOut).toBe(1);
+  });
+
+  it('pauses for Retry-After after a 429 and retries', async () => {
+    const limiter = createLimiter();
+    const task = jest.fn()
+      .mockRejectedValueOnce(throttled('3'))
+      .mockResolvedValueOnce('bars');
+
+    const result = limiter.schedule('low', undefined, task);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(limiter.getMetrics().pausedUntil).not.toBeNull();
+
+    await jest.advanceTimersByTimeAsync(2900);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1100);
+    expect(task).toHaveBeenCalledTimes(2);
+    await expect(result).resolves.toBe('bars');
+  });
+
+  it('backs off exponentially when Retry-After is missing or blank', async () => {
+    const limiter = createLimiter({ burst: 5 });
+    const task = jest.fn()
+      .mockRejectedValueOnce(throttled(''))
+      .mockRejectedValueOnce(throttled())
+      .mockResolvedValueOnce('bars');
+
+    const result = limiter.schedule('low', undefined, task);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    // 1s pause, then a second for the bucket to refill
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    // 2s pause this time
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(task).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(3);
+    await expect(result).resolves.toBe('bars');
+  });
+
+  it('gives up after maxRetries and passes other errors straight through', async () => {
+    const limiter = createLimiter({ maxRetries: 0 });
+    const failure = new Error('Network Error');
+
+    const rateLimited = limiter.schedule('low', undefined, jest.fn().mockRejectedValue(throttled('1')));
+    const broken = limiter.schedule('low', undefined, jest.fn().mockRejectedValue(failure));
+    rateLimited.catch(() => undefined);
+    broken.catch(() => undefined);
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(rateLimited).rejects.toBeInstanceOf(AxiosError);
+    await expect(broken).rejects.toBe(failure);
+    expect(limiter.getMetrics().byPriority.low).toMatchObject({ throttled: 1, failed: 2 });
+  });
+});
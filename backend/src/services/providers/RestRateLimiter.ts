@@ -0,0 +1,306 @@
+import axios from 'axios';
+import { RequestPriority, requestPriorities } from './MarketDataProvider';
+
+export class RateLimitError extends Error {
+  statusCode = 503;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+export interface RestRateLimiterOptions {
+  requestsPerMinute: number;
+  burst: number; // Bucket size: requests that can go out back to back after a quiet spell
+  maxRetries: number; // Per request, after a 429
+  maxWaitMs: Partial<Record<RequestPriority, number>>; // Longest a request may queue; unset waits indefinitely
+  reserve: Partial<Record<RequestPriority, number>>; // Tokens left untouched for more urgent classes
+}
+
+interface PriorityMetrics {
+  requested: number;
+  coalesced: number; // Answered by an identical request already queued or in flight
+  sent: number;
+  succeeded: number;
+  failed: number;
+  throttled: number; // 429 responses
+  timedOut: number; // Gave up waiting in the queue
+  totalWaitMs: number;
+  totalLatencyMs: number;
+}
+
+export interface RateLimiterMetrics {
+  requestsPerMinute: number;
+  burst: number;
+  tokens: number;
+  pausedUntil: string | null; // Set while honouring a Retry-After
+  lastThrottledAt: string | null;
+  inFlight: number;
+  queued: Record<RequestPriority, number>;
+  byPriority: Record<RequestPriority, PriorityMetrics & { averageWaitMs: number; averageLatencyMs: number }>;
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  retry: boolean; // Retries have already waited once and never time out
+  deadline?: number;
+  grant: () => void;
+  reject: (error: Error) => void;
+}
+
+interface Pending {
+  promise: Promise<unknown>;
+  waiter?: Waiter; // Present while the request is still queued for a token
+}
+
+const DEFAULT_RETRY_MS = 1000;
+const MIN_DRAIN_DELAY_MS = 20;
+
+const emptyMetrics = (): PriorityMetrics => ({
+  requested: 0,
+  coalesced: 0,
+  sent: 0,
+  succeeded: 0,
+  failed: 0,
+  throttled: 0,
+  timedOut: 0,
+  totalWaitMs: 0,
+  totalLatencyMs: 0
+});
+
+const byPriority = <T>(create: () => T): Record<RequestPriority, T> =>
+  Object.fromEntries(requestPriorities.map(priority => [priority, create()])) as Record<RequestPriority, T>;
+
+// Retry-After is either delay-seconds or an HTTP date; an empty header counts as missing
+const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  if (String(value).trim() === '') return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * Token bucket in front of a REST API, shared by every call a provider makes.
+ *
+ * Tokens refill at requestsPerMinute up to `burst`. Requests wait in one queue
+ * per priority and the most urgent non-empty queue is always served first;
+ * lower classes may also be kept off the last few tokens (`reserve`) so a
+ * user request arriving mid-backfill doesn't wait for a whole refill.
+ *
+ * Requests made with the same key while one is already queued or in flight
+ * share its result, and promote it if the newcomer is more urgent. A 429
+ * empties the bucket until the server's Retry-After has passed (exponential
+ * backoff without one) and the request is retried ahead of its class.
+ */
+export class RestRateLimiter {
+  private options: RestRateLimiterOptions;
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private pausedUntil: number = 0;
+  private lastThrottledAt?: number;
+  private queues: Record<RequestPriority, Waiter[]> = byPriority<Waiter[]>(() => []);
+  private pending: Map<string, Pending> = new Map();
+  private inFlight: number = 0;
+  private drainTimer?: NodeJS.Timeout;
+  private metrics: Record<RequestPriority, PriorityMetrics> = byPriority(emptyMetrics);
+
+  constructor(options: RestRateLimiterOptions) {
+    this.options = options;
+    this.tokens = options.burst;
+  }
+
+  schedule<T>(priority: RequestPriority, key: string | undefined, task: () => Promise<T>): Promise<T> {
+    this.metrics[priority].requested++;
+
+    const existing = key ? this.pending.get(key) : undefined;
+    if (existing) {
+      this.metrics[priority].coalesced++;
+      if (existing.waiter) this.promote(existing.waiter, priority);
+      return existing.promise as Promise<T>;
+    }
+
+    const entry: Pending = { promise: Promise.resolve() };
+    const promise = this.execute(priority, task, entry);
+    entry.promise = promise;
+    if (key) {
+      this.pending.set(key, entry);
+      const forget = () => {
+        if (this.pending.get(key) === entry) this.pending.delete(key);
+      };
+      promise.then(forget, forget);
+    }
+    return promise;
+  }
+
+  getMetrics(): RateLimiterMetrics {
+    this.refill();
+    return {
+      requestsPerMinute: this.options.requestsPerMinute,
+      burst: this.options.burst,
+      tokens: Math.floor(this.tokens * 100) / 100,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+      lastThrottledAt: this.lastThrottledAt ? new Date(this.lastThrottledAt).toISOString() : null,
+      inFlight: this.inFlight,
+      queued: Object.fromEntries(
+        requestPriorities.map(priority => [priority, this.queues[priority].length])
+      ) as Record<RequestPriority, number>,
+      byPriority: Object.fromEntries(requestPriorities.map(priority => {
+        const metrics = this.metrics[priority];
+        return [priority, {
+          ...metrics,
+          averageWaitMs: metrics.sent > 0 ? Math.round(metrics.totalWaitMs / metrics.sent) : 0,
+          averageLatencyMs: metrics.sent > 0 ? Math.round(metrics.totalLatencyMs / metrics.sent) : 0
+        }];
+      })) as RateLimiterMetrics['byPriority']
+    };
+  }
+
+  private async execute<T>(priority: RequestPriority, task: () => Promise<T>, entry: Pending): Promise<T> {
+    const enqueuedAt = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      // A retry goes to the front: it has already waited its turn once
+      const granted = await this.acquire(priority, attempt > 0, entry);
+      priority = granted;
+      entry.waiter = undefined;
+
+      const metrics = this.metrics[priority];
+      const sentAt = Date.now();
+      if (attempt === 0) metrics.totalWaitMs += sentAt - enqueuedAt;
+      metrics.sent++;
+      this.inFlight++;
+
+      try {
+        const result = await task();
+        metrics.succeeded++;
+        metrics.totalLatencyMs += Date.now() - sentAt;
+        return result;
+      } catch (error) {
+        metrics.totalLatencyMs += Date.now() - sentAt;
+        const response = axios.isAxiosError(error) ? error.response : undefined;
+        if (response?.status !== 429) {
+          metrics.failed++;
+          throw error;
+        }
+
+        metrics.throttled++;
+        this.lastThrottledAt = Date.now();
+        const retryAfter = parseRetryAfter(response.headers['retry-after'])
+          ?? DEFAULT_RETRY_MS * 2 ** attempt;
+        this.pause(retryAfter);
+        console.warn(`🚦 Rate limited by the API, pausing requests for ${Math.ceil(retryAfter / 1000)}s`);
+
+        if (attempt >= this.options.maxRetries) {
+          metrics.failed++;
+          throw error;
+        }
+      } finally {
+        this.inFlight--;
+      }
+    }
+  }
+
+  // Resolves with the priority the request was finally served at, which a coalesced caller may have raised
+  private acquire(priority: RequestPriority, retry: boolean, entry: Pending): Promise<RequestPriority> {
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        priority,
+        retry,
+        deadline: this.getDeadline(priority, retry),
+        grant: () => resolve(waiter.priority),
+        reject
+      };
+      entry.waiter = waiter;
+
+      if (retry) this.queues[priority].unshift(waiter);
+      else this.queues[priority].push(waiter);
+      this.drain();
+    });
+  }
+
+  private promote(waiter: Waiter, priority: RequestPriority): void {
+    const current = requestPriorities.indexOf(waiter.priority);
+    if (requestPriorities.indexOf(priority) >= current) return;
+
+    const queue = this.queues[waiter.priority];
+    const index = queue.indexOf(waiter);
+    if (index === -1) return;
+
+    queue.splice(index, 1);
+    waiter.priority = priority;
+    waiter.deadline = this.getDeadline(priority, waiter.retry);
+    this.queues[priority].push(waiter);
+    this.drain();
+  }
+
+  // A promoted waiter gets the new class's full wait, counted from the promotion
+  private getDeadline(priority: RequestPriority, retry: boolean): number | undefined {
+    const maxWait = this.options.maxWaitMs[priority];
+    return maxWait && !retry ? Date.now() + maxWait : undefined;
+  }
+
+  private pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      this.lastRefill = now;
+      return;
+    }
+
+    const perMs = this.options.requestsPerMinute / 60000;
+    this.tokens = Math.min(this.options.burst, this.tokens + (now - Math.max(this.lastRefill, this.pausedUntil)) * perMs);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = undefined;
+    }
+
+    this.expireWaiters();
+    this.refill();
+
+    for (const priority of requestPriorities) {
+      const queue = this.queues[priority];
+      const reserve = this.options.reserve[priority] || 0;
+      while (queue.length > 0 && this.tokens >= 1 + reserve) {
+        this.tokens -= 1;
+        queue.shift()!.grant();
+      }
+      // Reserves only grow down the list, so nothing below can be served either
+      if (queue.length > 0) break;
+    }
+
+    // Wake up when the first waiting class can be served, or the first waiter gives up
+    const next = requestPriorities.find(priority => this.queues[priority].length > 0);
+    if (next) {
+      const now = Date.now();
+      const perMs = this.options.requestsPerMinute / 60000;
+      const needed = 1 + (this.options.reserve[next] || 0) - this.tokens;
+      const untilServed = Math.max(this.pausedUntil - now, 0) + Math.max(needed, 0) / perMs;
+      const deadlines = requestPriorities.flatMap(priority => this.queues[priority].map(waiter => waiter.deadline || Infinity));
+      const untilExpiry = Math.min(...deadlines) - now;
+      this.drainTimer = setTimeout(() => this.drain(), Math.max(Math.min(untilServed, untilExpiry), MIN_DRAIN_DELAY_MS));
+    }
+  }
+
+  private expireWaiters(): void {
+    const now = Date.now();
+    requestPriorities.forEach(priority => {
+      this.queues[priority] = this.queues[priority].filter(waiter => {
+        if (!waiter.deadline || now < waiter.deadline) return true;
+        this.metrics[priority].timedOut++;
+        waiter.reject(new RateLimitError(`Request waited over ${this.options.maxWaitMs[priority]}ms for the ${priority} rate limit queue`));
+        return false;
+      });
+    });
+  }
+}
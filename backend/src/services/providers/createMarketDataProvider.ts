@@ -0,0 +1,22 @@
+import path from 'path';
+import { MarketDataProvider } from './MarketDataProvider';
+import { AlpacaMarketDataProvider } from './AlpacaMarketDataProvider';
+import { ReplayMarketDataProvider } from './ReplayMarketDataProvider';
+
+// Pick the provider named by MARKET_DATA_PROVIDER (alpaca | replay), defaulting to Alpaca
+export const createMarketDataProvider = (): MarketDataProvider => {
+  const providerName = (process.env.MARKET_DATA_PROVIDER || 'alpaca').toLowerCase();
+
+  switch (providerName) {
+    case 'replay':
+      return new ReplayMarketDataProvider({
+        directory: path.resolve(process.env.MARKET_DATA_REPLAY_DIR || path.resolve(__dirname, '../../../replay')),
+        speed: parseFloat(process.env.MARKET_DATA_REPLAY_SPEED || '1') || 1,
+        loop: process.env.MARKET_DATA_REPLAY_LOOP !== 'false'
+      });
+    case 'alpaca':
+      return new AlpacaMarketDataProvider();
+    default:
+      throw new Error(`Unknown MARKET_DATA_PROVIDER "${providerName}". Valid options: alpaca, replay`);
+  }
+};
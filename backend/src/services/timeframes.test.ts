@@ -0,0 +1,66 @@
+import { Bar } from './providers/MarketDataProvider';
+import { bucketStart, aggregateBars, parseTimeframe } from './timeframes';
+
+const at = (iso: string) => new Date(iso).getTime();
+
+const bar = (iso: string, open: number, high: number, low: number, close: number, volume: number): Bar =>
+  ({ timestamp: at(iso), open, high, low, close, volume });
+
+describe('parseTimeframe', () => {
+  it('accepts the common spellings', () => {
+    expect(parseTimeframe('1m')).toBe('1Min');
+    expect(parseTimeframe('15min')).toBe('15Min');
+    expect(parseTimeframe('1hours')).toBe('1Hour');
+    expect(parseTimeframe('1M')).toBe('1Month');
+    expect(parseTimeframe('1mo')).toBe('1Month');
+  });
+
+  it('rejects unsupported timeframes', () => {
+    expect(parseTimeframe('2Hour')).toBeNull();
+    expect(parseTimeframe('day')).toBeNull();
+    expect(parseTimeframe(15)).toBeNull();
+  });
+});
+
+describe('bucketStart', () => {
+  it('floors intraday timeframes to their interval', () => {
+    expect(bucketStart(at('2024-03-06T14:37:12Z'), '15Min')).toBe(at('2024-03-06T14:30:00Z'));
+    expect(bucketStart(at('2024-03-06T14:37:12Z'), '1Hour')).toBe(at('2024-03-06T14:00:00Z'));
+    expect(bucketStart(at('2024-03-06T14:37:12Z'), '1Day')).toBe(at('2024-03-06T00:00:00Z'));
+  });
+
+  it('starts weeks on Monday', () => {
+    expect(bucketStart(at('2024-03-06T14:37:00Z'), '1Week')).toBe(at('2024-03-04T00:00:00Z'));
+    expect(bucketStart(at('2024-03-10T23:59:00Z'), '1Week')).toBe(at('2024-03-04T00:00:00Z'));
+    expect(bucketStart(at('2024-03-11T00:00:00Z'), '1Week')).toBe(at('2024-03-11T00:00:00Z'));
+  });
+
+  it('starts months on the 1st, whatever their length', () => {
+    expect(bucketStart(at('2024-02-29T12:00:00Z'), '1Month')).toBe(at('2024-02-01T00:00:00Z'));
+    expect(bucketStart(at('2024-03-31T23:00:00Z'), '1Month')).toBe(at('2024-03-01T00:00:00Z'));
+  });
+});
+
+describe('aggregateBars', () => {
+  it('folds daily bars into calendar weeks', () => {
+    const weeks = aggregateBars([
+      bar('2024-03-11T00:00:00Z', 20, 22, 19, 21, 5), // Next week, given out of order
+      bar('2024-03-04T00:00:00Z', 10, 12, 9, 11, 1),
+      bar('2024-03-05T00:00:00Z', 11, 15, 10, 14, 2),
+      bar('2024-03-08T00:00:00Z', 14, 14, 8, 9, 3)
+    ], '1Week');
+
+    expect(weeks).toEqual([
+      { timestamp: at('2024-03-04T00:00:00Z'), open: 10, high: 15, low: 8, close: 9, volume: 6 },
+      { timestamp: at('2024-03-11T00:00:00Z'), open: 20, high: 22, low: 19, close: 21, volume: 5 }
+    ]);
+  });
+
+  it('does not modify the bars it is given', () => {
+    const bars = [bar('2024-03-04T00:00:00Z', 10, 12, 9, 11, 1), bar('2024-03-05T00:00:00Z', 11, 15, 10, 14, 2)];
+    const copy = bars.map(original => ({ ...original }));
+
+    aggregateBars(bars, '1Month');
+    expect(bars).toEqual(copy);
+  });
+});
@@ -0,0 +1,92 @@
+import { Bar } from './providers/MarketDataProvider';
+
+// Bar timeframes in the provider's spelling; every other spelling is parsed into one of these
+export type Timeframe = '1Min' | '5Min' | '15Min' | '1Hour' | '1Day' | '1Week' | '1Month';
+export const timeframes: Timeframe[] = ['1Min', '5Min', '15Min', '1Hour', '1Day', '1Week', '1Month'];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Nominal length of one bar; weeks and months are calendar buckets, see bucketStart
+export const timeframeMs: Record<string, number> = {
+  '1Min': MINUTE_MS,
+  '5Min': 5 * MINUTE_MS,
+  '15Min': 15 * MINUTE_MS,
+  '1Hour': 60 * MINUTE_MS,
+  '1Day': DAY_MS,
+  '1Week': 7 * DAY_MS,
+  '1Month': 30 * DAY_MS
+};
+
+// Wall-clock span that still holds `limit` bars once nights, weekends and holidays are skipped;
+// every bar source returns the latest `limit` in the range, so erring wide costs nothing but a larger fetch
+const LOOKBACK_PADDING = 2;
+const MIN_LOOKBACK_MS = 4 * DAY_MS; // Friday's close from the Tuesday after a long weekend
+export const defaultLookbackMs = (timeframe: string, limit: number): number =>
+  Math.max(limit * (timeframeMs[timeframe] || timeframeMs['1Day']) * LOOKBACK_PADDING, MIN_LOOKBACK_MS);
+
+const unitAliases: Record<string, string> = {
+  m: 'Min', min: 'Min', minute: 'Min',
+  h: 'Hour', hr: 'Hour', hour: 'Hour',
+  d: 'Day', day: 'Day',
+  w: 'Week', wk: 'Week', week: 'Week',
+  mo: 'Month', month: 'Month'
+};
+
+/**
+ * Accepts '1Min', '1min', '1m', '1hour', '1h', '1day', '1week', '1Month',
+ * '1mo'... and returns the canonical timeframe, or null when the value isn't
+ * a supported timeframe. Like the provider, a bare uppercase 'M' is a month.
+ */
+export const parseTimeframe = (value: unknown): Timeframe | null => {
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().match(/^(\d+)\s*([A-Za-z]+)$/);
+  if (!match) return null;
+
+  const unit = match[2] === 'M' ? 'Month' : unitAliases[match[2].toLowerCase().replace(/s$/, '')];
+  const candidate = `${parseInt(match[1])}${unit}` as Timeframe;
+  return unit && timeframes.includes(candidate) ? candidate : null;
+};
+
+// Weekly and monthly bars are folded from daily bars here rather than fetched
+export const isCalendarTimeframe = (timeframe: string): boolean =>
+  timeframe === '1Week' || timeframe === '1Month';
+
+// Start of the bar containing `timestamp`: weeks start Monday 00:00 UTC, months on the 1st
+export const bucketStart = (timestamp: number, timeframe: string): number => {
+  const date = new Date(timestamp);
+
+  if (timeframe === '1Week') {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday);
+  }
+  if (timeframe === '1Month') {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+
+  const interval = timeframeMs[timeframe];
+  return Math.floor(timestamp / interval) * interval;
+};
+
+// Fold sorted or unsorted bars into `timeframe` buckets
+export const aggregateBars = (bars: Bar[], timeframe: string): Bar[] => {
+  const buckets: Map<number, Bar> = new Map();
+
+  [...bars]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(bar => {
+      const start = bucketStart(bar.timestamp, timeframe);
+      const bucket = buckets.get(start);
+      if (bucket) {
+        bucket.high = Math.max(bucket.high, bar.high);
+        bucket.low = Math.min(bucket.low, bar.low);
+        bucket.close = bar.close;
+        bucket.volume += bar.volume;
+      } else {
+        buckets.set(start, { ...bar, timestamp: start });
+      }
+    });
+
+  return Array.from(buckets.values());
+};
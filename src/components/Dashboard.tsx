@@ -9,8 +9,12 @@ import {
 } from '@heroicons/react/24/outline';
 import { useMarketStore } from '../stores/marketStore';
 import { useMarketData } from '../hooks/useMarketData';
-import { formatCurrency, formatPercentage, formatTimeAgo } from '../utils/formatters';
+import { useAssetStore } from '../stores/assetStore';
+import { formatCurrency, formatPercentage, formatTimeAgo, formatChangeBaseline } from '../utils/formatters';
 import { MarketTrend } from './charts/MarketTrend';
+import { CHART_RANGES } from '../utils/timeframes';
+import ChangeBaselineSelect from './common/ChangeBaselineSelect';
+import { AssetCategory, ChangeBaseline } from '../types';
 
 
 
@@ -76,10 +80,11 @@ interface MarketCategoryItemProps {
   lastPrice: number;
   change: number;
   changePercent: number;
+  changeBaseline?: ChangeBaseline;
   icon?: string;
 }
 
-function MarketCategoryItem({ symbol, lastPrice, change, changePercent, icon }: MarketCategoryItemProps) {
+function MarketCategoryItem({ symbol, lastPrice, change, changePercent, changeBaseline, icon }: MarketCategoryItemProps) {
   const isPositive = change >= 0;
   
   return (
@@ -112,7 +117,7 @@ function MarketCategoryItem({ symbol, lastPrice, change, changePercent, icon }:
       <div className="text-right min-w-0 overflow-hidden">
         <span className={`text-sm font-medium truncate block ${
           isPositive ? 'text-green-500' : 'text-red-500'
-        }`} title="1 Hour Change">
+        }`} title={`Change ${formatChangeBaseline(changeBaseline)}`}>
           {formatPercentage(changePercent)}
         </span>
       </div>
@@ -122,8 +127,9 @@ function MarketCategoryItem({ symbol, lastPrice, change, changePercent, icon }:
 
 export default function Dashboard() {
   const { isConnected, getAllMarketData, lastUpdated } = useMarketStore();
-  // Initialize market data hook for WebSocket connection
-  useMarketData();
+  const { categories, featured, loadAssets, getAssetName } = useAssetStore();
+  // Stream the catalog's featured symbols while the dashboard is open
+  useMarketData(featured);
   const [timeRange, setTimeRange] = useState('1D');
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
@@ -136,34 +142,27 @@ export default function Dashboard() {
     return () => clearInterval(interval);
   }, []);
 
+  useEffect(() => {
+    loadAssets();
+  }, [loadAssets]);
+
   // Get live market data from Alpaca
   const liveMarketData = getAllMarketData();
   const hasLiveData = liveMarketData.length > 0;
 
-  // Organize market data by categories
-  const marketCategories = {
-    STOCKS: {
-      'Tech Giants': ['AAPL', 'GOOGL', 'MSFT', 'META', 'NVDA', 'AMD'],
-      'Growth & Media': ['TSLA', 'AMZN', 'NFLX', 'DIS', 'PYPL', 'ADBE'],
-      'Enterprise': ['CRM', 'ORCL', 'INTC', 'IBM'],
-      'Financial': ['JPM', 'BAC', 'GS', 'MS', 'WFC', 'V', 'MA']
-    },
-    INDICES: {
-      'Major ETFs': ['SPY', 'QQQ', 'IWM'],
-      'Broad Market': ['VTI', 'VOO', 'VEA', 'VWO']
-    },
-    CRYPTO: {
-      'Major': ['BTC/USD', 'ETH/USD'],
-      'Altcoins': ['LTC/USD', 'BCH/USD', 'LINK/USD', 'UNI/USD'],
-      'DeFi': ['AAVE/USD', 'ALGO/USD', 'DOT/USD', 'DOGE/USD']
-    },
-    FOREX: {
-      'Major Pairs': ['EUR/USD', 'GBP/USD', 'USD/JPY', 'USD/CHF'],
-      'Commodity Pairs': ['AUD/USD', 'USD/CAD', 'NZD/USD'],
-      'Cross Pairs': ['EUR/GBP', 'EUR/JPY', 'GBP/JPY']
-    }
-  };
-  
+  // Organize market data by the catalog's curated categories
+  const marketCategories = useMemo(() => {
+    const byType = (type: AssetCategory['type']) => Object.fromEntries(
+      categories.filter(category => category.type === type).map(category => [category.category, category.symbols])
+    );
+    return {
+      STOCKS: byType('stock'),
+      INDICES: byType('index'),
+      CRYPTO: byType('crypto'),
+      FOREX: byType('forex')
+    };
+  }, [categories]);
+
   // Create market data map for quick lookup
   const marketDataMap = new Map();
   liveMarketData.forEach(data => {
@@ -172,6 +171,7 @@ export default function Dashboard() {
       lastPrice: data.price,
       change: data.change,
       changePercent: data.changePercent,
+      changeBaseline: data.changeBaseline,
       icon: getSymbolIcon(data.symbol)
     });
   });
@@ -196,53 +196,6 @@ export default function Dashboard() {
     return stockIcons[symbol] || '📈';
   }
 
-  // Symbol name mapping for display
-  const symbolNames: { [key: string]: string } = {
-    // Major Stocks
-    'AAPL': 'Apple Inc.',
-    'GOOGL': 'Alphabet Inc.',
-    'MSFT': 'Microsoft Corp.',
-    'TSLA': 'Tesla Inc.',
-    'AMZN': 'Amazon.com Inc.',
-    'META': 'Meta Platforms Inc.',
-    'NVDA': 'NVIDIA Corp.',
-    'AMD': 'Advanced Micro Devices',
-    'NFLX': 'Netflix Inc.',
-    'DIS': 'Walt Disney Co.',
-    'PYPL': 'PayPal Holdings',
-    'ADBE': 'Adobe Inc.',
-    'CRM': 'Salesforce Inc.',
-    'ORCL': 'Oracle Corp.',
-    'INTC': 'Intel Corp.',
-    'IBM': 'IBM Corp.',
-    // Financial Stocks
-    'JPM': 'JPMorgan Chase',
-    'BAC': 'Bank of America',
-    'GS': 'Goldman Sachs',
-    'MS': 'Morgan Stanley',
-    'WFC': 'Wells Fargo',
-    'V': 'Visa Inc.',
-    'MA': 'Mastercard Inc.',
-    // ETFs and Indices
-    'SPY': 'SPDR S&P 500 ETF',
-    'QQQ': 'Invesco QQQ Trust',
-    'IWM': 'iShares Russell 2000',
-    'VTI': 'Vanguard Total Stock Market',
-    'VOO': 'Vanguard S&P 500 ETF',
-    'VEA': 'Vanguard FTSE Developed Markets',
-    'VWO': 'Vanguard Emerging Markets',
-    // Cryptocurrencies
-    'BTC/USD': 'Bitcoin',
-    'ETH/USD': 'Ethereum',
-    'LTC/USD': 'Litecoin',
-    'BCH/USD': 'Bitcoin Cash',
-    'LINK/USD': 'Chainlink',
-    'UNI/USD': 'Uniswap',
-    'AAVE/USD': 'Aave',
-    'ALGO/USD': 'Algorand',
-    'DOT/USD': 'Polkadot',
-    'DOGE/USD': 'Dogecoin'
-  };
 
 
 
@@ -256,7 +209,7 @@ export default function Dashboard() {
   const displayData = useMemo(() => {
     return liveMarketData.map(data => ({
       symbol: data.symbol,
-      name: symbolNames[data.symbol] || data.symbol,
+      name: getAssetName(data.symbol),
       price: data.price,
       change: data.change,
       changePercent: data.changePercent,
@@ -305,9 +258,7 @@ export default function Dashboard() {
             data.symbol === 'VWO' ? '🌏' : '📈'
     }));
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [liveMarketData, refreshTrigger, symbolNames]);
-
-  const timeRanges = ['1D', '1W', '1M', '3M', '6M', '1Y'];
+  }, [liveMarketData, refreshTrigger, getAssetName]);
 
   return (
     <div className="p-6 space-y-6 max-w-full overflow-hidden">
@@ -321,17 +272,18 @@ export default function Dashboard() {
         </div>
         <div className="flex items-center space-x-2 flex-shrink-0">
           <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1 overflow-x-auto">
-            {timeRanges.map((range) => (
+            {CHART_RANGES.map((range) => (
               <button
-                key={range}
-                onClick={() => setTimeRange(range)}
+                key={range.value}
+                onClick={() => setTimeRange(range.value)}
+                title={range.label}
                 className={`px-3 py-1 text-sm font-medium rounded-md transition-colors whitespace-nowrap flex-shrink-0 ${
-                  timeRange === range
+                  timeRange === range.value
                     ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm'
                     : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
                 }`}
               >
-                {range}
+                {range.value}
               </button>
             ))}
           </div>
@@ -433,7 +385,7 @@ export default function Dashboard() {
         </div>
 
         {/* Market Trend */}
-        <MarketTrend />
+        <MarketTrend range={timeRange} onRangeChange={setTimeRange} />
       </div>
 
       {/* Full Width Live Market Data */}
@@ -444,6 +396,7 @@ export default function Dashboard() {
             <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
               Live Market Data
             </h2>
+            <ChangeBaselineSelect className="ml-auto mr-3" />
             <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
               isConnected 
                 ? 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300'
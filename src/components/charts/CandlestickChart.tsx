@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  createChart,
+  IChartApi,
+  ISeriesApi,
+  CandlestickData as ChartCandle,
+  HistogramData,
+  UTCTimestamp,
+  ColorType
+} from 'lightweight-charts';
+import { ChartBarIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { apiService } from '../../services/api';
+import { websocketService } from '../../services/websocket';
+import { Bar, Candle, MarketData } from '../../types';
+import { ChartRange, candleStart, getChartWindow } from '../../utils/timeframes';
+
+interface CandlestickChartProps {
+  symbol: string;
+  range: ChartRange; // Bar timeframe, count and window, e.g. daily bars over three months
+  className?: string;
+}
+
+// Timeframes the server builds live candles for; daily and longer still fold ticks here
+const LIVE_CANDLE_TIMEFRAMES = ['1Min', '5Min', '15Min', '1Hour'];
+
+const UP_COLOR = '#22c55e';
+const DOWN_COLOR = '#ef4444';
+
+const toCandle = (bar: Bar): ChartCandle => ({
+  time: Math.floor(bar.timestamp / 1000) as UTCTimestamp,
+  open: bar.open,
+  high: bar.high,
+  low: bar.low,
+  close: bar.close
+});
+
+const toVolume = (bar: Bar): HistogramData => ({
+  time: Math.floor(bar.timestamp / 1000) as UTCTimestamp,
+  value: bar.volume,
+  color: bar.close >= bar.open ? `${UP_COLOR}80` : `${DOWN_COLOR}80`
+});
+
+const isDarkMode = () => document.documentElement.classList.contains('dark');
+
+/**
+ * Candlestick + volume chart for one symbol. History comes from
+ * /api/market/bars/:symbol once; afterwards intraday timeframes follow the
+ * server's candleUpdate/candleClosed stream, while daily charts fold real
+ * (non-simulated) priceUpdate ticks into the forming candle. If history cannot
+ * be loaded the chart says so instead of drawing anything.
+ */
+export function CandlestickChart({ symbol, range, className = '' }: CandlestickChartProps) {
+  const { timeframe } = range;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const candleSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
+  const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
+  const lastBarRef = useRef<Bar | null>(null);
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [barCount, setBarCount] = useState(0);
+
+  // Create the chart once
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const dark = isDarkMode();
+    const chart = createChart(containerRef.current, {
+      autoSize: true,
+      layout: {
+        background: { type: ColorType.Solid, color: 'transparent' },
+        textColor: dark ? '#d1d5db' : '#374151'
+      },
+      grid: {
+        vertLines: { color: dark ? '#374151' : '#e5e7eb' },
+        horzLines: { color: dark ? '#374151' : '#e5e7eb' }
+      },
+      timeScale: { timeVisible: true, secondsVisible: false },
+      rightPriceScale: { scaleMargins: { top: 0.1, bottom: 0.25 } }
+    });
+
+    candleSeriesRef.current = chart.addCandlestickSeries({
+      upColor: UP_COLOR,
+      downColor: DOWN_COLOR,
+      borderUpColor: UP_COLOR,
+      borderDownColor: DOWN_COLOR,
+      wickUpColor: UP_COLOR,
+      wickDownColor: DOWN_COLOR
+    });
+
+    // Volume sits on its own overlay scale along the bottom quarter
+    volumeSeriesRef.current = chart.addHistogramSeries({
+      priceFormat: { type: 'volume' },
+      priceScaleId: ''
+    });
+    volumeSeriesRef.current.priceScale().applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
+
+    chartRef.current = chart;
+
+    return () => {
+      chart.remove();
+      chartRef.current = null;
+      candleSeriesRef.current = null;
+      volumeSeriesRef.current = null;
+    };
+  }, []);
+
+  // Load history whenever the symbol or timeframe changes
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadBars = async () => {
+      setIsLoading(true);
+      setError(null);
+      lastBarRef.current = null;
+      candleSeriesRef.current?.setData([]);
+      volumeSeriesRef.current?.setData([]);
+
+      try {
+        const { bars } = await apiService.getBars(symbol, { timeframe, limit: range.limit, ...getChartWindow(range) });
+        if (cancelled) return;
+
+        const sorted = [...bars].sort((a, b) => a.timestamp - b.timestamp);
+        candleSeriesRef.current?.setData(sorted.map(toCandle));
+        volumeSeriesRef.current?.setData(sorted.map(toVolume));
+        chartRef.current?.timeScale().fitContent();
+
+        lastBarRef.current = sorted.length > 0 ? { ...sorted[sorted.length - 1] } : null;
+        setBarCount(sorted.length);
+      } catch (err: any) {
+        if (cancelled) return;
+        setBarCount(0);
+        setError(err?.response?.data?.message || `Could not load ${symbol} history`);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadBars();
+    return () => { cancelled = true; };
+  }, [symbol, timeframe, range]);
+
+  // Apply server-built candles; corrections to earlier candles replace them in place
+  useEffect(() => {
+    if (!LIVE_CANDLE_TIMEFRAMES.includes(timeframe)) return;
+
+    const handleCandle = (candle: Candle) => {
+      const lastBar = lastBarRef.current;
+      if (candle.symbol !== symbol || candle.timeframe !== timeframe || !candleSeriesRef.current) return;
+      // The chart can only update its latest candle, so older corrections wait for the next reload
+      if (lastBar && candle.timestamp < lastBar.timestamp) return;
+
+      const bar: Bar = {
+        timestamp: candle.timestamp,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume
+      };
+
+      lastBarRef.current = bar;
+      candleSeriesRef.current.update(toCandle(bar));
+      volumeSeriesRef.current?.update(toVolume(bar));
+      if (!lastBar || candle.timestamp > lastBar.timestamp) setBarCount(count => count + 1);
+    };
+
+    websocketService.on('candleUpdate', handleCandle);
+    websocketService.on('candleClosed', handleCandle);
+    websocketService.subscribeCandles(symbol, timeframe);
+
+    return () => {
+      websocketService.unsubscribeCandles(symbol, timeframe);
+      websocketService.off('candleUpdate', handleCandle);
+      websocketService.off('candleClosed', handleCandle);
+    };
+  }, [symbol, timeframe]);
+
+  // Daily candles have no server stream: hold a subscription so ticks flow
+  useEffect(() => {
+    if (LIVE_CANDLE_TIMEFRAMES.includes(timeframe)) return;
+
+    websocketService.subscribe([symbol]);
+    return () => websocketService.unsubscribe([symbol]);
+  }, [symbol, timeframe]);
+
+  // Fold live ticks into the forming daily candle
+  useEffect(() => {
+    if (LIVE_CANDLE_TIMEFRAMES.includes(timeframe)) return;
+
+    const handlePriceUpdate = (data: MarketData) => {
+      const lastBar = lastBarRef.current;
+      if (data.symbol !== symbol || !lastBar || !candleSeriesRef.current || !(data.price > 0)) return;
+      if (data.simulated) return; // Never draw a made-up price into a real candle
+
+      const tickTime = new Date(data.timestamp).getTime();
+      const bucket = candleStart(tickTime, timeframe, lastBar.timestamp);
+      if (bucket < lastBar.timestamp) return; // Late tick for a closed candle
+
+      // Tick volume is not cumulative per candle, so volume only comes from loaded bars
+      const bar: Bar = bucket > lastBar.timestamp
+        ? { timestamp: bucket, open: data.price, high: data.price, low: data.price, close: data.price, volume: 0 }
+        : {
+            ...lastBar,
+            high: Math.max(lastBar.high, data.price),
+            low: Math.min(lastBar.low, data.price),
+            close: data.price
+          };
+
+      lastBarRef.current = bar;
+      candleSeriesRef.current.update(toCandle(bar));
+      volumeSeriesRef.current?.update(toVolume(bar));
+      if (bucket > lastBar.timestamp) setBarCount(count => count + 1);
+    };
+
+    websocketService.on('priceUpdate', handlePriceUpdate);
+    return () => websocketService.off('priceUpdate', handlePriceUpdate);
+  }, [symbol, timeframe]);
+
+  return (
+    <div className={`relative h-full ${className}`}>
+      <div ref={containerRef} className="absolute inset-0" />
+
+      {(isLoading || error || barCount === 0) && (
+        <div className="absolute inset-0 flex items-center justify-center bg-white/80 dark:bg-gray-800/80">
+          <div className="text-center">
+            {isLoading ? (
+              <>
+                <ChartBarIcon className="w-16 h-16 text-gray-400 mx-auto mb-4 animate-pulse" />
+                <p className="text-gray-500 dark:text-gray-400">Loading chart data...</p>
+              </>
+            ) : error ? (
+              <>
+                <ExclamationTriangleIcon className="w-16 h-16 text-yellow-500 mx-auto mb-4" />
+                <p className="text-gray-700 dark:text-gray-300">{error}</p>
+                <p className="text-sm text-gray-400 dark:text-gray-500 mt-2">
+                  No chart is shown rather than made-up prices
+                </p>
+              </>
+            ) : (
+              <>
+                <ChartBarIcon className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500 dark:text-gray-400">No bars for {symbol} in this range</p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
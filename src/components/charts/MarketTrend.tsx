@@ -1,11 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { ChartBarIcon, ArrowTrendingUpIcon, ArrowTrendingDownIcon } from '@heroicons/react/24/outline';
 import { useMarketStore } from '../../stores/marketStore';
-import { formatCurrency, formatPercentage } from '../../utils/formatters';
-// import { apiService } from '../../services/api'; // Temporarily disabled
+import { useAssetStore } from '../../stores/assetStore';
+import { formatCurrency, formatPercentage, formatChangeBaseline } from '../../utils/formatters';
+import { apiService } from '../../services/api';
+import { CHART_RANGES, getChartRange, getChartWindow, isIntradayTimeframe } from '../../utils/timeframes';
 
 interface MarketTrendProps {
   className?: string;
+  range?: string; // Controlled chart range, e.g. the Dashboard's selector
+  onRangeChange?: (range: string) => void;
 }
 
 interface TrendData {
@@ -14,121 +18,69 @@ interface TrendData {
   volume: number;
 }
 
-const timeRanges = [
-  { value: '1D', label: '1 Day', timeframe: '1hour' as const },
-  { value: '1W', label: '1 Week', timeframe: '1hour' as const },
-  { value: '1M', label: '1 Month', timeframe: '1day' as const },
-  { value: '3M', label: '3 Months', timeframe: '1day' as const },
-];
-
-export function MarketTrend({ className = '' }: MarketTrendProps) {
+export function MarketTrend({ className = '', range, onRangeChange }: MarketTrendProps) {
   const { marketData, isConnected } = useMarketStore();
-  const [selectedSymbol, setSelectedSymbol] = useState('AAPL');
-  const [timeRange, setTimeRange] = useState('1D');
+  const [pickedSymbol, setPickedSymbol] = useState<string | null>(null);
+  const [ownTimeRange, setOwnTimeRange] = useState('1D');
   const [trendData, setTrendData] = useState<TrendData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
-  // Available symbols for selection
-  const availableSymbols = [
-    'AAPL', 'GOOGL', 'MSFT', 'TSLA', 'AMZN', 'META', 'NVDA', 'AMD',
-    'BTC/USD', 'ETH/USD'
-  ];
+  const timeRange = range ?? ownTimeRange;
+  const setTimeRange = onRangeChange ?? setOwnTimeRange;
+
+  // The catalog's featured symbols, keeping the current selection listed; until
+  // the user picks one the chart follows the first featured symbol
+  const { featured, loadAssets } = useAssetStore();
+  const selectedSymbol = pickedSymbol ?? featured[0] ?? '';
+  const availableSymbols = !selectedSymbol || featured.includes(selectedSymbol) ? featured : [selectedSymbol, ...featured];
+
+  useEffect(() => {
+    loadAssets();
+  }, [loadAssets]);
 
   // Get current market data for selected symbol
   const currentData = marketData.get(selectedSymbol);
   const isPositive = currentData ? currentData.changePercent >= 0 : true;
 
-  // Fetch real trend data from backend
+  // Fetch bars for the selected range; nothing is drawn if they can't be loaded
   useEffect(() => {
+    if (!selectedSymbol) return;
+    let cancelled = false;
+    const currentRange = getChartRange(timeRange);
+
     const fetchTrendData = async () => {
       setIsLoading(true);
-      
+
       try {
-        const currentRange = timeRanges.find(r => r.value === timeRange);
-        if (!currentRange) return;
+        const { bars } = await apiService.getBars(selectedSymbol, {
+          timeframe: currentRange.timeframe,
+          limit: currentRange.limit,
+          ...getChartWindow(currentRange)
+        });
+        if (cancelled) return;
 
-        // Temporarily disabled - Alpaca paper account doesn't have SIP data access
-        // const limit = timeRange === '1D' ? 24 : timeRange === '1W' ? 168 : timeRange === '1M' ? 30 : 90;
-        // 
-        // const response = await apiService.getCandlestickData(
-        //   selectedSymbol,
-        //   currentRange.timeframe,
-        //   limit
-        // );
-        // 
-        // const candlestickData = response.data;
-        // 
-        // if (candlestickData?.data && candlestickData.data.length > 0) {
-        //   const formattedData: TrendData[] = candlestickData.data.map((bar, index) => {
-        //     const date = new Date(bar.time);
-        //     let timeLabel = '';
-        //     
-        //     if (currentRange.timeframe === '1hour') {
-        //       timeLabel = date.getHours().toString().padStart(2, '0') + ':00';
-        //     } else {
-        //       timeLabel = `${date.getMonth() + 1}/${date.getDate()}`;
-        //     }
-        //     
-        //     return {
-        //       time: timeLabel,
-        //       price: bar.close,
-        //       volume: bar.volume
-        //     };
-        //   });
-        //   
-        //   setTrendData(formattedData);
-        // } else {
-        //   // Fallback to simulated data if no real data available
-        //   generateFallbackData();
-        // }
-        
-        // Use fallback data for now (until we get SIP data access)
-        generateFallbackData();
-        
+        const intraday = isIntradayTimeframe(currentRange.timeframe);
+        setTrendData(bars.map(bar => {
+          const date = new Date(bar.timestamp);
+          const time = intraday
+            ? `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`
+            : currentRange.timeframe === '1Month'
+              ? `${date.getMonth() + 1}/${date.getFullYear().toString().slice(-2)}`
+              : `${date.getMonth() + 1}/${date.getDate()}`;
+
+          return { time, price: bar.close, volume: bar.volume };
+        }));
       } catch (error) {
         console.error('Failed to fetch trend data:', error);
-        // Fallback to simulated data on error
-        generateFallbackData();
+        if (!cancelled) setTrendData([]);
       } finally {
-        setIsLoading(false);
-      }
-    };
-
-    const generateFallbackData = () => {
-      const basePrice = currentData?.price || 150;
-      const points = timeRange === '1D' ? 24 : timeRange === '1W' ? 7 * 24 : 30;
-      const interval = timeRange === '1D' ? 'hour' : 'day';
-      
-      const data: TrendData[] = [];
-      let currentPrice = basePrice * 0.95; // Start slightly lower
-      
-      for (let i = 0; i < Math.min(points, 50); i++) {
-        const change = (Math.random() - 0.5) * (basePrice * 0.02); // 2% max change
-        currentPrice += change;
-        
-        let timeLabel = '';
-        const now = new Date();
-        
-        if (interval === 'hour') {
-          const time = new Date(now.getTime() - (points - i) * 60 * 60 * 1000);
-          timeLabel = time.getHours().toString().padStart(2, '0') + ':00';
-        } else {
-          const time = new Date(now.getTime() - (points - i) * 24 * 60 * 60 * 1000);
-          timeLabel = `${time.getMonth() + 1}/${time.getDate()}`;
-        }
-        
-        data.push({
-          time: timeLabel,
-          price: Math.max(currentPrice, basePrice * 0.8), // Don't go too low
-          volume: Math.floor(Math.random() * 1000000) + 100000
-        });
+        if (!cancelled) setIsLoading(false);
       }
-      
-      setTrendData(data);
     };
 
     fetchTrendData();
-  }, [selectedSymbol, timeRange, currentData]);
+    return () => { cancelled = true; };
+  }, [selectedSymbol, timeRange]);
 
   // Simple line chart component
   const SimpleLineChart = ({ data }: { data: TrendData[] }) => {
@@ -235,7 +187,7 @@ export function MarketTrend({ className = '' }: MarketTrendProps) {
           </label>
           <select
             value={selectedSymbol}
-            onChange={(e) => setSelectedSymbol(e.target.value)}
+            onChange={(e) => setPickedSymbol(e.target.value)}
             aria-label="Select symbol for market trend"
             className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent min-w-0 max-w-full"
           >
@@ -250,10 +202,11 @@ export function MarketTrend({ className = '' }: MarketTrendProps) {
             Period:
           </label>
           <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1 overflow-x-auto">
-            {timeRanges.map(({ value, label }) => (
+            {CHART_RANGES.map(({ value, label }) => (
               <button
                 key={value}
                 onClick={() => setTimeRange(value)}
+                title={label}
                 className={`px-2 py-1 text-xs font-medium rounded-md transition-colors whitespace-nowrap flex-shrink-0 ${
                   timeRange === value
                     ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm'
@@ -294,7 +247,7 @@ export function MarketTrend({ className = '' }: MarketTrendProps) {
               </span>
             </div>
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">
-              {timeRange} change
+              Change {formatChangeBaseline(currentData.changeBaseline)}
             </p>
           </div>
         </div>
@@ -323,7 +276,7 @@ export function MarketTrend({ className = '' }: MarketTrendProps) {
       {trendData.length > 0 && (
         <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600">
           <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 gap-2 min-w-0">
-            <span className="truncate">Period: {timeRanges.find(r => r.value === timeRange)?.label}</span>
+            <span className="truncate">Period: {getChartRange(timeRange).label} ({getChartRange(timeRange).timeframe} bars)</span>
             <span className="whitespace-nowrap">{trendData.length} data points</span>
             <span className="truncate">Updated: {new Date().toLocaleTimeString()}</span>
           </div>
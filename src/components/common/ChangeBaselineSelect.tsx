@@ -0,0 +1,34 @@
+import React from 'react';
+import { useMarketStore, ChangeBaselinePreference } from '../../stores/marketStore';
+
+interface ChangeBaselineSelectProps {
+  className?: string;
+}
+
+const OPTIONS: { value: ChangeBaselinePreference; label: string }[] = [
+  { value: 'auto', label: 'Auto (24h crypto, prev close stocks)' },
+  { value: 'prevClose', label: 'Since previous close' },
+  { value: 'open', label: 'Since open' },
+  { value: '24h', label: 'Rolling 24h' },
+  { value: '1m', label: 'Last minute' },
+];
+
+// Picks what price changes are measured against; the choice is remembered per browser
+const ChangeBaselineSelect: React.FC<ChangeBaselineSelectProps> = ({ className = '' }) => {
+  const { changeBaseline, setChangeBaseline } = useMarketStore();
+
+  return (
+    <select
+      value={changeBaseline}
+      onChange={(e) => setChangeBaseline(e.target.value as ChangeBaselinePreference)}
+      title="Change measured against"
+      className={`text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-2 py-1 ${className}`}
+    >
+      {OPTIONS.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+  );
+};
+
+export default ChangeBaselineSelect;
@@ -13,6 +13,7 @@ import {
   SunIcon
 } from '@heroicons/react/24/outline';
 import { useAuthStore } from '../../stores/authStore';
+import SymbolSearch from './SymbolSearch';
 
 const navigation = [
   { name: 'Dashboard', href: '/', current: true },
@@ -98,28 +99,7 @@ export default function Header() {
               
               {/* Search Bar */}
               <div className="hidden md:flex flex-1 max-w-md mx-8">
-                <div className="relative w-full">
-                  <input
-                    type="text"
-                    className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 py-2 pl-10 pr-4 text-sm text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                    placeholder="Search stocks, crypto..."
-                  />
-                  <div className="absolute inset-y-0 left-0 flex items-center pl-3">
-                    <svg
-                      className="h-4 w-4 text-gray-400"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-                      />
-                    </svg>
-                  </div>
-                </div>
+                <SymbolSearch />
               </div>
 
               <div className="hidden md:block">
@@ -42,6 +42,8 @@ function classNames(...classes: string[]) {
   return classes.filter(Boolean).join(' ');
 }
 
+const OVERVIEW_SYMBOLS = ['SPY', 'BTC/USD', 'ETH/USD'];
+
 interface SidebarProps {
   isCollapsed?: boolean;
   onToggle?: () => void;
@@ -49,7 +51,8 @@ interface SidebarProps {
 
 export default function Sidebar({ isCollapsed = false }: SidebarProps) {
   const { marketData, isConnected } = useMarketStore();
-  useMarketData(); // Initialize market data connection
+  // The overview's symbols only stream while it is shown
+  useMarketData(isCollapsed ? [] : OVERVIEW_SYMBOLS);
 
   // Get real-time market data
   const btcData = marketData.get('BTC/USD');
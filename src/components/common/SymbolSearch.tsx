@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { apiService } from '../../services/api';
+import { Asset, SearchResult } from '../../types';
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+const CLASS_FILTERS: { value: Asset['assetClass'] | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'us_equity', label: 'Stocks' },
+  { value: 'crypto', label: 'Crypto' },
+  { value: 'forex', label: 'Forex' },
+];
+
+// Header search box: catalog matches as you type, opening the chosen symbol on the Markets page
+export default function SymbolSearch() {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [assetClass, setAssetClass] = useState<Asset['assetClass'] | 'all'>('all');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const requestRef = useRef(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Debounced search; stale responses are ignored
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      return;
+    }
+
+    const requestId = ++requestRef.current;
+    const timer = setTimeout(async () => {
+      try {
+        const { results } = await apiService.searchSymbols(trimmed, {
+          assetClass: assetClass === 'all' ? undefined : assetClass,
+          limit: 8
+        });
+        if (requestId === requestRef.current) {
+          setResults(results);
+          setHighlighted(0);
+        }
+      } catch {
+        if (requestId === requestRef.current) {
+          setResults([]);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, assetClass]);
+
+  // Close the dropdown on any click outside it
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const openSymbol = (result: SearchResult) => {
+    navigate(`/markets?symbol=${encodeURIComponent(result.symbol)}`);
+    setQuery('');
+    setResults([]);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && results[highlighted]) {
+      e.preventDefault();
+      openSymbol(results[highlighted]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 py-2 pl-10 pr-4 text-sm text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+        placeholder="Search stocks, crypto..."
+        aria-label="Search symbols"
+      />
+      <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+        <MagnifyingGlassIcon className="h-4 w-4 text-gray-400" />
+      </div>
+
+      {isOpen && query.trim() && (
+        <div className="absolute z-20 mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg overflow-hidden">
+          <div className="flex gap-1 px-2 py-2 border-b border-gray-200 dark:border-gray-700">
+            {CLASS_FILTERS.map(filter => (
+              <button
+                key={filter.value}
+                onClick={() => setAssetClass(filter.value)}
+                className={`px-2 py-0.5 rounded text-xs font-medium ${
+                  assetClass === filter.value
+                    ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200'
+                    : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+
+          {results.length === 0 ? (
+            <div className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">No matching symbols</div>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto">
+              {results.map((result, index) => (
+                <li key={result.symbol}>
+                  <button
+                    onClick={() => openSymbol(result)}
+                    onMouseEnter={() => setHighlighted(index)}
+                    className={`w-full flex items-center justify-between px-4 py-2 text-left ${
+                      index === highlighted ? 'bg-gray-50 dark:bg-gray-700' : ''
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm font-semibold text-gray-900 dark:text-white">{result.symbol}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{result.name}</div>
+                    </div>
+                    <span className="ml-2 text-xs text-gray-400 whitespace-nowrap">
+                      {result.exchange || result.type.toUpperCase()}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
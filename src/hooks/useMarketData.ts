@@ -3,7 +3,10 @@ import { useMarketStore } from '../stores/marketStore';
 import { websocketService } from '../services/websocket';
 import { MarketData } from '../types';
 
-export function useMarketData() {
+// Subscribes to exactly `symbols` (kept in sync as it changes) and releases them on
+// unmount. Without symbols the hook only keeps the connection and store up to date;
+// nothing streams unless some page asks for it
+export function useMarketData(symbols: string[] = []) {
   const { 
     setMarketData, 
     setConnected, 
@@ -16,6 +19,7 @@ export function useMarketData() {
   // Use ref to prevent double initialization in React StrictMode
   const initializedRef = useRef(false);
   const handlersSetupRef = useRef(false);
+  const subscribedRef = useRef<Set<string>>(new Set());
 
   useEffect(() => {
     // Prevent double initialization in React StrictMode
@@ -67,17 +71,7 @@ export function useMarketData() {
     // Ensure connection is established
     websocketService.ensureConnection();
 
-    // Subscribe to only reliable symbols that work with Alpaca API
     console.log('🔗 useMarketData: Current connection status:', isConnected);
-    const defaultSymbols = [
-      // Reliable stock symbols
-      'AAPL', 'GOOGL', 'MSFT', 'TSLA', 'AMZN', 'META', 'NVDA', 'AMD', 'SPY',
-      // Only working crypto symbols
-      'BTC/USD', 'ETH/USD'
-    ];
-    
-    console.log('📡 useMarketData: Subscribing to symbols:', defaultSymbols);
-    websocketService.subscribe(defaultSymbols);
 
     // Cleanup function
     return () => {
@@ -95,6 +89,35 @@ export function useMarketData() {
     };
   }, []); // Empty dependency array - setters are stable, prevent re-runs
 
+  // Follow the caller's symbol set, only sending the difference on each change
+  const symbolsKey = symbols.join(',');
+  useEffect(() => {
+    const next = new Set(symbolsKey ? symbolsKey.split(',') : []);
+    const previous = subscribedRef.current;
+    const added = Array.from(next).filter(symbol => !previous.has(symbol));
+    const removed = Array.from(previous).filter(symbol => !next.has(symbol));
+
+    if (removed.length > 0) {
+      console.log('🔕 useMarketData: Unsubscribing from symbols:', removed);
+      websocketService.unsubscribe(removed);
+    }
+    if (added.length > 0) {
+      console.log('📡 useMarketData: Subscribing to symbols:', added);
+      websocketService.subscribe(added);
+    }
+    subscribedRef.current = next;
+  }, [symbolsKey]);
+
+  useEffect(() => {
+    const subscribed = subscribedRef;
+    return () => {
+      if (subscribed.current.size > 0) {
+        websocketService.unsubscribe(Array.from(subscribed.current));
+        subscribed.current = new Set();
+      }
+    };
+  }, []);
+
   // Subscribe to a specific symbol
   const subscribeToSymbol = (symbol: string) => {
     console.log('📡 useMarketData: Subscribing to symbol:', symbol);
@@ -1,13 +1,25 @@
 import axios, { AxiosInstance } from 'axios';
 import { 
   MarketData, 
+  ChangeBaseline,
   CandlestickData, 
   Portfolio, 
   PriceAlert, 
+  Transaction,
+  TransactionType,
+  CostBasisMethod,
+  RealizedPnL,
   User, 
   Watchlist,
   SearchResult,
-  TimeFrame 
+  TimeFrame,
+  Bar,
+  IndicatorSnapshot,
+  Asset,
+  AssetCategory,
+  MarketStatus,
+  CalendarDay,
+  MarketClosure
 } from '../types';
 
 class ApiService {
@@ -97,13 +109,18 @@ class ApiService {
   }
 
   // Market data endpoints
-  async getQuote(symbol: string): Promise<{ data: MarketData }> {
-    const response = await this.api.get(`/market/quote/${symbol}`);
+  async getQuote(symbol: string, baseline?: ChangeBaseline): Promise<{ data: MarketData }> {
+    const response = await this.api.get(`/market/quote/${symbol}`, {
+      params: { baseline }
+    });
     return response.data;
   }
 
-  async getMultipleQuotes(symbols: string[]): Promise<{ quotes: Array<{ symbol: string; data: MarketData }> }> {
-    const response = await this.api.post('/market/quotes', { symbols });
+  async getMultipleQuotes(
+    symbols: string[],
+    baseline?: ChangeBaseline
+  ): Promise<{ quotes: Array<{ symbol: string; data: MarketData }> }> {
+    const response = await this.api.post('/market/quotes', { symbols, baseline });
     return response.data;
   }
 
@@ -118,33 +135,89 @@ class ApiService {
     return response.data;
   }
 
-  async searchSymbols(query: string): Promise<{ results: SearchResult[] }> {
+  async getBars(
+    symbol: string,
+    params: {
+      timeframe: string;
+      start?: string;
+      end?: string;
+      limit?: number;
+      adjustment?: 'raw' | 'split' | 'dividend' | 'all';
+      feed?: 'iex' | 'sip';
+    }
+  ): Promise<{ symbol: string; timeframe: string; adjustment: string; bars: Bar[] }> {
+    // Crypto pairs contain a slash
+    const response = await this.api.get(`/market/bars/${encodeURIComponent(symbol)}`, { params });
+    return response.data;
+  }
+
+  async getTechnicalIndicators(symbol: string, timeframe: string = '1Min'): Promise<IndicatorSnapshot> {
+    const response = await this.api.get(`/market/indicators/${encodeURIComponent(symbol)}`, {
+      params: { timeframe }
+    });
+    return response.data;
+  }
+
+  async searchSymbols(
+    query: string,
+    options: { assetClass?: Asset['assetClass']; type?: Asset['type']; limit?: number } = {}
+  ): Promise<{ results: SearchResult[]; tookMs: number }> {
     const response = await this.api.get('/market/search', {
-      params: { q: query }
+      params: { q: query, class: options.assetClass, type: options.type, limit: options.limit }
     });
     return response.data;
   }
 
-  async getMarketSummary(): Promise<{
+  async getAssets(params: {
+    class?: Asset['assetClass'];
+    type?: Asset['type'];
+    category?: string;
+    q?: string;
+    curated?: boolean;
+    tradable?: boolean;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<{ assets: Asset[]; total: number }> {
+    const response = await this.api.get('/market/assets', { params });
+    return response.data;
+  }
+
+  async getAsset(symbol: string): Promise<{ asset: Asset }> {
+    const response = await this.api.get(`/market/assets/${encodeURIComponent(symbol)}`);
+    return response.data;
+  }
+
+  async getAssetCategories(): Promise<{ categories: AssetCategory[]; featured: string[] }> {
+    const response = await this.api.get('/market/assets/categories');
+    return response.data;
+  }
+
+  async getMarketSummary(baseline?: ChangeBaseline): Promise<{
     marketSummary: Array<{ symbol: string; data: MarketData }>;
     indices: Array<{ symbol: string; name: string; price: number; change: number; changePercent: number }>;
     lastUpdated: string;
   }> {
-    const response = await this.api.get('/market/summary');
+    const response = await this.api.get('/market/summary', {
+      params: { baseline }
+    });
     return response.data;
   }
 
-  async getMarketStatus(): Promise<{
-    isOpen: boolean;
-    nextOpen?: string;
-    nextClose?: string;
-    timezone: string;
-    currentTime: string;
-  }> {
+  async getMarketStatus(): Promise<MarketStatus> {
     const response = await this.api.get('/market/status');
     return response.data;
   }
 
+  async getMarketCalendar(start?: string, end?: string): Promise<{
+    start: string;
+    end: string;
+    days: CalendarDay[];
+    closures: MarketClosure[];
+  }> {
+    const response = await this.api.get('/market/calendar', { params: { start, end } });
+    return response.data;
+  }
+
   // Portfolio endpoints
   async getPortfolios(): Promise<{ portfolios: Portfolio[] }> {
     const response = await this.api.get('/portfolio');
@@ -159,6 +232,7 @@ class ApiService {
   async createPortfolio(portfolioData: {
     name: string;
     description?: string;
+    costBasisMethod?: CostBasisMethod;
   }): Promise<{ portfolio: Portfolio }> {
     const response = await this.api.post('/portfolio', portfolioData);
     return response.data;
@@ -166,7 +240,7 @@ class ApiService {
 
   async updatePortfolio(
     id: string,
-    portfolioData: { name: string; description?: string }
+    portfolioData: { name?: string; description?: string; costBasisMethod?: CostBasisMethod }
   ): Promise<{ portfolio: Portfolio }> {
     const response = await this.api.put(`/portfolio/${id}`, portfolioData);
     return response.data;
@@ -190,20 +264,61 @@ class ApiService {
     return response.data;
   }
 
-  async updatePortfolioAsset(
+  async removeAssetFromPortfolio(portfolioId: string, symbol: string): Promise<void> {
+    await this.api.delete(`/portfolio/${portfolioId}/assets/${symbol}`);
+  }
+
+  // Transaction ledger endpoints (positions are derived from these)
+  async getTransactions(
     portfolioId: string,
-    symbol: string,
-    assetData: {
+    params?: { symbol?: string; includeVoided?: boolean }
+  ): Promise<{ transactions: Transaction[] }> {
+    const response = await this.api.get(`/portfolio/${portfolioId}/transactions`, { params });
+    return response.data;
+  }
+
+  async createTransaction(
+    portfolioId: string,
+    transactionData: {
+      type: TransactionType;
+      symbol?: string;
+      name?: string;
+      assetType?: 'stock' | 'crypto';
       quantity?: number;
-      avgCostBasis?: number;
+      price?: number;
+      fee?: number;
+      amount?: number;
+      transferDirection?: 'in' | 'out';
+      lotSelections?: Array<{ transactionId: string; quantity: number }>;
+      executedAt?: string;
+      notes?: string;
     }
-  ): Promise<{ portfolio: Portfolio }> {
-    const response = await this.api.put(`/portfolio/${portfolioId}/assets/${symbol}`, assetData);
+  ): Promise<{ transaction: Transaction; portfolio: Portfolio }> {
+    const response = await this.api.post(`/portfolio/${portfolioId}/transactions`, transactionData);
     return response.data;
   }
 
-  async removeAssetFromPortfolio(portfolioId: string, symbol: string): Promise<void> {
-    await this.api.delete(`/portfolio/${portfolioId}/assets/${symbol}`);
+  async correctTransaction(
+    portfolioId: string,
+    transactionId: string,
+    changes: Partial<Omit<Transaction, '_id' | 'portfolioId' | 'userId'>> & { reason?: string }
+  ): Promise<{ transaction: Transaction; portfolio: Portfolio }> {
+    const response = await this.api.put(`/portfolio/${portfolioId}/transactions/${transactionId}`, changes);
+    return response.data;
+  }
+
+  async voidTransaction(portfolioId: string, transactionId: string, reason?: string): Promise<{ portfolio: Portfolio }> {
+    const response = await this.api.delete(`/portfolio/${portfolioId}/transactions/${transactionId}`, {
+      data: { reason }
+    });
+    return response.data;
+  }
+
+  async getRealizedPnL(portfolioId: string, year?: number): Promise<{ realized: RealizedPnL }> {
+    const response = await this.api.get(`/portfolio/${portfolioId}/realized`, {
+      params: year !== undefined ? { year } : undefined
+    });
+    return response.data;
   }
 
   async getPortfolioPerformance(portfolioId: string): Promise<{
@@ -262,20 +377,38 @@ class ApiService {
     await this.api.delete(`/alerts/${id}`);
   }
 
-  // Watchlist endpoints (placeholder)
+  // Watchlist endpoints
   async getWatchlists(): Promise<{ watchlists: Watchlist[] }> {
     const response = await this.api.get('/watchlists');
     return response.data;
   }
 
+  async getWatchlist(id: string): Promise<{ watchlist: Watchlist }> {
+    const response = await this.api.get(`/watchlists/${id}`);
+    return response.data;
+  }
+
   async createWatchlist(watchlistData: {
     name: string;
     description?: string;
+    isDefault?: boolean;
   }): Promise<{ watchlist: Watchlist }> {
     const response = await this.api.post('/watchlists', watchlistData);
     return response.data;
   }
 
+  async updateWatchlist(
+    id: string,
+    watchlistData: { name?: string; description?: string; isDefault?: boolean }
+  ): Promise<{ watchlist: Watchlist }> {
+    const response = await this.api.put(`/watchlists/${id}`, watchlistData);
+    return response.data;
+  }
+
+  async deleteWatchlist(id: string): Promise<void> {
+    await this.api.delete(`/watchlists/${id}`);
+  }
+
   async addToWatchlist(
     watchlistId: string,
     symbolData: {
@@ -288,8 +421,15 @@ class ApiService {
     return response.data;
   }
 
-  async removeFromWatchlist(watchlistId: string, symbol: string): Promise<void> {
-    await this.api.delete(`/watchlists/${watchlistId}/symbols/${symbol}`);
+  async reorderWatchlist(watchlistId: string, symbols: string[]): Promise<{ watchlist: Watchlist }> {
+    const response = await this.api.put(`/watchlists/${watchlistId}/symbols`, { symbols });
+    return response.data;
+  }
+
+  async removeFromWatchlist(watchlistId: string, symbol: string): Promise<{ watchlist: Watchlist }> {
+    // Crypto pairs contain a slash
+    const response = await this.api.delete(`/watchlists/${watchlistId}/symbols/${encodeURIComponent(symbol)}`);
+    return response.data;
   }
 
   // Utility methods
@@ -0,0 +1,59 @@
+import { websocketService } from './websocket';
+
+// A socket whose server-side events the test fires by hand
+const mockHandlers = {};
+const mockSocket = {
+  connected: true,
+  on: (event, handler) => { mockHandlers[event] = handler; },
+  off: () => {},
+  emit: jest.fn(),
+  connect: () => {},
+  disconnect: () => {}
+};
+
+jest.mock('socket.io-client', () => ({
+  io: () => mockSocket
+}));
+
+const update = (symbol, price, sequence) => ({ symbol, price, sequence, timestamp: new Date() });
+
+describe('websocketService price sequences', () => {
+  const received = [];
+  const onPrice = data => received.push(data.sequence);
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    websocketService.on('priceUpdate', onPrice);
+    websocketService.subscribe(['AAPL']);
+    websocketService.ensureConnection();
+    mockHandlers.connect();
+  });
+
+  afterAll(() => {
+    websocketService.off('priceUpdate', onPrice);
+    websocketService.disconnect();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    mockSocket.emit.mockClear();
+  });
+
+  it('passes consecutive updates and drops late duplicates', () => {
+    mockHandlers.priceUpdate(update('AAPL', 100, 1));
+    mockHandlers.priceUpdate(update('AAPL', 101, 2));
+    mockHandlers.priceUpdate(update('AAPL', 100, 1));
+
+    expect(received).toEqual([1, 2]);
+    expect(mockSocket.emit).not.toHaveBeenCalledWith('subscribe', expect.anything());
+  });
+
+  it('resyncs a symbol from the server when updates were skipped', () => {
+    mockHandlers.priceUpdate(update('AAPL', 105, 5));
+
+    expect(received).toEqual([5]);
+    expect(mockSocket.emit).toHaveBeenCalledWith('subscribe', { symbols: ['AAPL'] });
+  });
+});
@@ -1,5 +1,5 @@
 import { io, Socket } from 'socket.io-client';
-import { MarketData, SearchResult, TimeFrame } from '../types';
+import { Candle, MarketData, SearchResult, TimeFrame } from '../types';
 
 export class WebSocketService {
   private static instance: WebSocketService | null = null;
@@ -9,8 +9,10 @@ export class WebSocketService {
   private reconnectDelay = 1000;
   private isConnected = false;
   private isConnecting = false;
-  private subscriptions: Set<string> = new Set();
+  private subscriptions: Map<string, number> = new Map(); // Symbol -> components holding it
+  private candleSubscriptions: Map<string, { symbol: string; timeframe: string }> = new Map();
   private eventListeners: Map<string, Function[]> = new Map();
+  private lastSequence: Map<string, number> = new Map(); // Latest priceUpdate sequence seen per symbol
   private reconnectTimer: NodeJS.Timeout | null = null;
   private healthCheckTimer: NodeJS.Timeout | null = null;
 
@@ -109,11 +111,17 @@ export class WebSocketService {
         this.authenticate(token);
       }
 
+      // Sequences restart with the server, and the resubscribe below brings a fresh snapshot anyway
+      this.lastSequence.clear();
+
       // Resubscribe to previous subscriptions
       if (this.subscriptions.size > 0) {
         console.log(`🔄 Resubscribing to ${this.subscriptions.size} symbols...`);
-        this.socket?.emit('subscribe', { symbols: Array.from(this.subscriptions) });
+        this.socket?.emit('subscribe', { symbols: Array.from(this.subscriptions.keys()) });
       }
+      this.candleSubscriptions.forEach(subscription => {
+        this.socket?.emit('subscribeCandles', subscription);
+      });
 
       this.emit('connected');
     });
@@ -146,6 +154,7 @@ export class WebSocketService {
 
     this.socket.on('priceUpdate', (data: MarketData) => {
       // Ultra-fast processing with minimal logging for maximum performance
+      if (!this.acceptSequence(data)) return;
       this.emit('priceUpdate', data);
     });
 
@@ -153,6 +162,14 @@ export class WebSocketService {
       this.emit('candlestickData', data);
     });
 
+    this.socket.on('candleUpdate', (data: Candle) => {
+      this.emit('candleUpdate', data);
+    });
+
+    this.socket.on('candleClosed', (data: Candle) => {
+      this.emit('candleClosed', data);
+    });
+
     this.socket.on('searchResults', (data: { query: string; results: SearchResult[] }) => {
       this.emit('searchResults', data);
     });
@@ -166,8 +183,11 @@ export class WebSocketService {
       
       // Show browser notification if supported
       if ('Notification' in window && Notification.permission === 'granted') {
+        const body = data.alertType === 'change_percent'
+          ? `${data.symbol} moved ${data.changePercent}% to $${data.triggeredPrice}`
+          : `${data.symbol} is ${data.alertType} your target of $${data.targetPrice} at $${data.triggeredPrice}`;
         new Notification(`Price Alert: ${data.symbol}`, {
-          body: `${data.symbol} has ${data.alertType} your target of $${data.targetPrice}`,
+          body,
           icon: '/logo192.png',
           tag: `alert-${data._id}`,
         });
@@ -219,22 +239,64 @@ export class WebSocketService {
     }
   }
 
+  // Reference-counted: every subscribe needs a matching unsubscribe, and the server
+  // only hears about the first holder of a symbol and the last one letting go
   subscribe(symbols: string[]): void {
+    const added = symbols.filter(symbol => !this.subscriptions.has(symbol));
+    symbols.forEach(symbol => this.subscriptions.set(symbol, (this.subscriptions.get(symbol) || 0) + 1));
+    if (added.length === 0) return;
+
     if (this.socket && this.isConnected) {
-      this.socket.emit('subscribe', { symbols });
-      symbols.forEach(symbol => this.subscriptions.add(symbol));
+      this.socket.emit('subscribe', { symbols: added });
     } else {
       // Store subscriptions for when connection is established
-      symbols.forEach(symbol => this.subscriptions.add(symbol));
-      console.log('📝 Stored subscription for later:', symbols);
+      console.log('📝 Stored subscription for later:', added);
     }
   }
 
   unsubscribe(symbols: string[]): void {
-    if (this.socket && this.isConnected) {
-      this.socket.emit('unsubscribe', { symbols });
+    const removed: string[] = [];
+    symbols.forEach(symbol => {
+      const count = this.subscriptions.get(symbol);
+      if (count === undefined) return;
+      if (count > 1) {
+        this.subscriptions.set(symbol, count - 1);
+        return;
+      }
+      this.subscriptions.delete(symbol);
+      this.lastSequence.delete(symbol);
+      removed.push(symbol);
+    });
+
+    if (removed.length > 0 && this.socket && this.isConnected) {
+      this.socket.emit('unsubscribe', { symbols: removed });
+    }
+  }
+
+  // One at or below the last seen is a late duplicate (e.g. the snapshot sent on subscribe) and is dropped;
+  // a skipped sequence means updates were lost on the way, so the symbol is resynced from the server
+  private acceptSequence(data: MarketData): boolean {
+    if (data.sequence === undefined) return true;
+
+    const last = this.lastSequence.get(data.symbol);
+    if (last !== undefined && data.sequence <= last) return false;
+    this.lastSequence.set(data.symbol, data.sequence);
+    if (last !== undefined && data.sequence > last + 1) {
+      console.warn(`⚠️ Missed ${data.sequence - last - 1} price updates for ${data.symbol}, resyncing`);
+      this.resync(data.symbol);
+    }
+    return true;
+  }
+
+  // Subscribing again is idempotent on the server and answers with its latest snapshot of the symbol
+  private resync(symbol: string): void {
+    if (this.socket && this.isConnected && this.subscriptions.has(symbol)) {
+      this.socket.emit('subscribe', { symbols: [symbol] });
     }
-    symbols.forEach(symbol => this.subscriptions.delete(symbol));
+  }
+
+  isSubscribed(symbol: string): boolean {
+    return this.subscriptions.has(symbol);
   }
 
   searchSymbols(query: string): void {
@@ -249,6 +311,39 @@ export class WebSocketService {
     }
   }
 
+  // Live candles for one symbol/timeframe; remembered so they survive reconnects
+  subscribeCandles(symbol: string, timeframe: string): void {
+    this.candleSubscriptions.set(`${symbol}:${timeframe}`, { symbol, timeframe });
+    if (this.socket && this.isConnected) {
+      this.socket.emit('subscribeCandles', { symbol, timeframe });
+    }
+  }
+
+  unsubscribeCandles(symbol: string, timeframe: string): void {
+    this.candleSubscriptions.delete(`${symbol}:${timeframe}`);
+    if (this.socket && this.isConnected) {
+      this.socket.emit('unsubscribeCandles', { symbol, timeframe });
+    }
+  }
+
+  getTechnicalIndicators(symbol: string, timeframe?: string): void {
+    if (this.socket && this.isConnected) {
+      this.socket.emit('getTechnicalIndicators', { symbol, timeframe });
+    }
+  }
+
+  joinPortfolio(portfolioId: string): void {
+    if (this.socket && this.isConnected) {
+      this.socket.emit('joinPortfolio', { portfolioId });
+    }
+  }
+
+  leavePortfolio(portfolioId: string): void {
+    if (this.socket && this.isConnected) {
+      this.socket.emit('leavePortfolio', { portfolioId });
+    }
+  }
+
   getPortfolioData(): void {
     if (this.socket && this.isConnected) {
       this.socket.emit('getPortfolioData');
@@ -322,6 +417,7 @@ export class WebSocketService {
     this.isConnected = false;
     this.isConnecting = false;
     this.subscriptions.clear();
+    this.lastSequence.clear();
     this.eventListeners.clear();
   }
 
@@ -345,7 +441,7 @@ export class WebSocketService {
   } {
     return {
       connected: this.isConnected,
-      subscriptions: Array.from(this.subscriptions),
+      subscriptions: Array.from(this.subscriptions.keys()),
       reconnectAttempts: this.reconnectAttempts,
     };
   }
@@ -3,3 +3,36 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+// The API client pulls in axios, which ships as an ES module that CRA's Jest
+// doesn't transform. Components under test get a client whose requests never
+// settle, so they render their loading states without touching the network.
+jest.mock('./services/api', () => ({
+  apiService: new Proxy({}, {
+    get: () => jest.fn(() => new Promise(() => {}))
+  })
+}));
+
+// Likewise the market data socket never connects, instead of retrying against a server that isn't there
+jest.mock('socket.io-client', () => ({
+  io: () => ({
+    connected: false,
+    on: () => {},
+    off: () => {},
+    emit: () => {},
+    connect: () => {},
+    disconnect: () => {}
+  })
+}));
+
+// jsdom has no matchMedia; App reads it to pick the initial theme
+window.matchMedia = window.matchMedia || ((query) => ({
+  matches: false,
+  media: query,
+  onchange: null,
+  addListener: () => {},
+  removeListener: () => {},
+  addEventListener: () => {},
+  removeEventListener: () => {},
+  dispatchEvent: () => false
+}));
@@ -0,0 +1,48 @@
+import { create } from 'zustand';
+import { Asset, AssetCategory } from '../types';
+import { apiService } from '../services/api';
+
+interface AssetState {
+  assets: Asset[]; // The curated catalog: everything with at least one category
+  categories: AssetCategory[];
+  featured: string[];
+  isLoaded: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadAssets: (force?: boolean) => Promise<void>;
+
+  // Getters
+  getAsset: (symbol: string) => Asset | undefined;
+  getAssetName: (symbol: string) => string;
+}
+
+export const useAssetStore = create<AssetState>((set, get) => ({
+  assets: [],
+  categories: [],
+  featured: [],
+  isLoaded: false,
+  isLoading: false,
+  error: null,
+
+  loadAssets: async (force = false) => {
+    const { isLoaded, isLoading } = get();
+    if (isLoading || (isLoaded && !force)) return;
+
+    set({ isLoading: true, error: null });
+    try {
+      const [{ assets }, { categories, featured }] = await Promise.all([
+        apiService.getAssets({ curated: true, limit: 1000 }),
+        apiService.getAssetCategories()
+      ]);
+      set({ assets, categories, featured, isLoaded: true, isLoading: false });
+    } catch (error: any) {
+      set({ error: error?.response?.data?.message || 'Failed to load assets', isLoading: false });
+    }
+  },
+
+  getAsset: (symbol: string) => get().assets.find(asset => asset.symbol === symbol),
+
+  getAssetName: (symbol: string) => get().getAsset(symbol)?.name || symbol
+}));
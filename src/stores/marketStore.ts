@@ -1,5 +1,27 @@
 import { create } from 'zustand';
-import { MarketData, SearchResult, MarketStatus } from '../types';
+import { MarketData, SearchResult, MarketStatus, ChangeBaseline } from '../types';
+
+// 'auto' keeps the server's per-asset default: 24h for crypto, previous close for stocks
+export type ChangeBaselinePreference = ChangeBaseline | 'auto';
+
+const BASELINE_STORAGE_KEY = 'changeBaseline';
+
+const loadBaselinePreference = (): ChangeBaselinePreference => {
+  const saved = localStorage.getItem(BASELINE_STORAGE_KEY);
+  return saved === '1m' || saved === '24h' || saved === 'open' || saved === 'prevClose' ? saved : 'auto';
+};
+
+// Re-measure change against the preferred reference price, if the update carries it
+const rebase = (data: MarketData, preference: ChangeBaselinePreference): MarketData => {
+  const baseline = preference === 'auto'
+    ? (data.symbol.includes('/') ? '24h' : 'prevClose')
+    : preference;
+  const reference = data.baselines?.[baseline];
+  if (!reference || data.changeBaseline === baseline) return data;
+
+  const change = data.price - reference;
+  return { ...data, change, changePercent: (change / reference) * 100, changeBaseline: baseline };
+};
 
 interface MarketState {
   marketData: Map<string, MarketData>;
@@ -10,6 +32,7 @@ interface MarketState {
   isConnected: boolean;
   error: string | null;
   lastUpdated: Date | null;
+  changeBaseline: ChangeBaselinePreference;
 
   // Actions
   setMarketData: (symbol: string, data: MarketData) => void;
@@ -23,6 +46,7 @@ interface MarketState {
   setConnected: (connected: boolean) => void;
   setError: (error: string | null) => void;
   clearError: () => void;
+  setChangeBaseline: (preference: ChangeBaselinePreference) => void;
   
   // Getters
   getMarketData: (symbol: string) => MarketData | null;
@@ -40,11 +64,12 @@ export const useMarketStore = create<MarketState>((set, get) => ({
   isConnected: false,
   error: null,
   lastUpdated: null,
+  changeBaseline: loadBaselinePreference(),
 
   setMarketData: (symbol: string, data: MarketData) =>
     set((state) => {
       // Ultra-fast in-place update for maximum performance
-      state.marketData.set(symbol, data);
+      state.marketData.set(symbol, rebase(data, state.changeBaseline));
       return {
         marketData: state.marketData,
         lastUpdated: new Date(),
@@ -56,7 +81,7 @@ export const useMarketStore = create<MarketState>((set, get) => ({
     set((state) => {
       // Ultra-fast batch update with in-place modifications
       dataMap.forEach((data, symbol) => {
-        state.marketData.set(symbol, data);
+        state.marketData.set(symbol, rebase(data, state.changeBaseline));
       });
       return {
         marketData: state.marketData,
@@ -100,6 +125,14 @@ export const useMarketStore = create<MarketState>((set, get) => ({
   clearError: () =>
     set({ error: null }),
 
+  setChangeBaseline: (preference: ChangeBaselinePreference) =>
+    set((state) => {
+      localStorage.setItem(BASELINE_STORAGE_KEY, preference);
+      const marketData = new Map<string, MarketData>();
+      state.marketData.forEach((data, symbol) => marketData.set(symbol, rebase(data, preference)));
+      return { changeBaseline: preference, marketData };
+    }),
+
   // Getters
   getMarketData: (symbol: string) =>
     get().marketData.get(symbol) || null,
@@ -0,0 +1,159 @@
+import { create } from 'zustand';
+import { Watchlist, WatchlistItem } from '../types';
+import { apiService } from '../services/api';
+
+interface WatchlistState {
+  watchlists: Watchlist[];
+  activeWatchlistId: string | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadWatchlists: () => Promise<void>;
+  createWatchlist: (name: string) => Promise<void>;
+  renameWatchlist: (id: string, name: string) => Promise<void>;
+  makeDefault: (id: string) => Promise<void>;
+  deleteWatchlist: (id: string) => Promise<void>;
+  setActiveWatchlist: (id: string) => void;
+  addSymbol: (item: Omit<WatchlistItem, 'addedAt'>) => Promise<void>;
+  removeSymbol: (symbol: string) => Promise<void>;
+  reorderSymbols: (fromIndex: number, toIndex: number) => Promise<void>;
+  setError: (error: string | null) => void;
+  clearError: () => void;
+
+  // Getters
+  getActiveWatchlist: () => Watchlist | null;
+}
+
+const getErrorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.message || fallback;
+
+const replaceWatchlist = (watchlists: Watchlist[], updated: Watchlist): Watchlist[] =>
+  watchlists.map(w => (w._id === updated._id ? updated : w));
+
+export const useWatchlistStore = create<WatchlistState>((set, get) => ({
+  watchlists: [],
+  activeWatchlistId: null,
+  isLoading: false,
+  error: null,
+
+  loadWatchlists: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const { watchlists } = await apiService.getWatchlists();
+      const activeId = get().activeWatchlistId;
+      const active = watchlists.find(w => w._id === activeId)
+        || watchlists.find(w => w.isDefault)
+        || watchlists[0];
+      set({ watchlists, activeWatchlistId: active?._id || null, isLoading: false });
+    } catch (error) {
+      set({ error: getErrorMessage(error, 'Failed to load watchlists'), isLoading: false });
+    }
+  },
+
+  createWatchlist: async (name: string) => {
+    try {
+      const { watchlist } = await apiService.createWatchlist({ name });
+      set((state) => ({
+        watchlists: [...state.watchlists, watchlist],
+        activeWatchlistId: watchlist._id,
+        error: null
+      }));
+    } catch (error) {
+      set({ error: getErrorMessage(error, 'Failed to create watchlist') });
+    }
+  },
+
+  renameWatchlist: async (id: string, name: string) => {
+    try {
+      const { watchlist } = await apiService.updateWatchlist(id, { name });
+      set((state) => ({ watchlists: replaceWatchlist(state.watchlists, watchlist), error: null }));
+    } catch (error) {
+      set({ error: getErrorMessage(error, 'Failed to rename watchlist') });
+    }
+  },
+
+  makeDefault: async (id: string) => {
+    try {
+      const { watchlist } = await apiService.updateWatchlist(id, { isDefault: true });
+      set((state) => ({
+        watchlists: state.watchlists.map(w =>
+          w._id === watchlist._id ? watchlist : { ...w, isDefault: false }
+        ),
+        error: null
+      }));
+    } catch (error) {
+      set({ error: getErrorMessage(error, 'Failed to update default watchlist') });
+    }
+  },
+
+  deleteWatchlist: async (id: string) => {
+    try {
+      await apiService.deleteWatchlist(id);
+      // The server may have promoted or created another default list
+      await get().loadWatchlists();
+    } catch (error) {
+      set({ error: getErrorMessage(error, 'Failed to delete watchlist') });
+    }
+  },
+
+  setActiveWatchlist: (id: string) =>
+    set({ activeWatchlistId: id }),
+
+  addSymbol: async (item: Omit<WatchlistItem, 'addedAt'>) => {
+    const active = get().getActiveWatchlist();
+    if (!active) return;
+
+    try {
+      const { watchlist } = await apiService.addToWatchlist(active._id, item);
+      set((state) => ({ watchlists: replaceWatchlist(state.watchlists, watchlist), error: null }));
+    } catch (error) {
+      set({ error: getErrorMessage(error, `Failed to add ${item.symbol}`) });
+    }
+  },
+
+  removeSymbol: async (symbol: string) => {
+    const active = get().getActiveWatchlist();
+    if (!active) return;
+
+    try {
+      const { watchlist } = await apiService.removeFromWatchlist(active._id, symbol);
+      set((state) => ({ watchlists: replaceWatchlist(state.watchlists, watchlist), error: null }));
+    } catch (error) {
+      set({ error: getErrorMessage(error, `Failed to remove ${symbol}`) });
+    }
+  },
+
+  // Reorder optimistically so dragging feels instant; roll back if the save fails
+  reorderSymbols: async (fromIndex: number, toIndex: number) => {
+    const active = get().getActiveWatchlist();
+    if (!active || fromIndex === toIndex) return;
+
+    const symbols = [...active.symbols];
+    const [moved] = symbols.splice(fromIndex, 1);
+    symbols.splice(toIndex, 0, moved);
+    set((state) => ({ watchlists: replaceWatchlist(state.watchlists, { ...active, symbols }) }));
+
+    try {
+      const { watchlist } = await apiService.reorderWatchlist(active._id, symbols.map(item => item.symbol));
+      set((state) => ({ watchlists: replaceWatchlist(state.watchlists, watchlist), error: null }));
+    } catch (error) {
+      set((state) => ({
+        watchlists: replaceWatchlist(state.watchlists, active),
+        error: getErrorMessage(error, 'Failed to save the new order')
+      }));
+    }
+  },
+
+  setError: (error: string | null) =>
+    set({ error }),
+
+  clearError: () =>
+    set({ error: null }),
+
+  // Getters
+  getActiveWatchlist: () => {
+    const { watchlists, activeWatchlistId } = get();
+    return watchlists.find(w => w._id === activeWatchlistId) || null;
+  },
+}));
@@ -1,3 +1,6 @@
+// Reference price that change/changePercent are measured against
+export type ChangeBaseline = '1m' | '24h' | 'open' | 'prevClose';
+
 export interface MarketData {
   symbol: string;
   price: number;
@@ -8,7 +11,11 @@ export interface MarketData {
   low: number;
   open: number;
   previousClose: number;
+  changeBaseline?: ChangeBaseline;
+  baselines?: Partial<Record<ChangeBaseline, number>>;
   marketCap?: number;
+  sequence?: number; // Per-symbol count of streamed updates; a jump means some were missed
+  simulated?: boolean; // Made up by the server when it has no real quote
   timestamp: Date;
 }
 
@@ -25,6 +32,22 @@ export interface CandlestickData {
   }[];
 }
 
+export interface Bar {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Live candle built server-side from the trade stream (subscribeCandles)
+export interface Candle extends Bar {
+  symbol: string;
+  timeframe: string;
+  closed: boolean;
+}
+
 export interface Portfolio {
   _id: string;
   userId: string;
@@ -34,6 +57,9 @@ export interface Portfolio {
   totalCost: number;
   totalPnL: number;
   totalPnLPercent: number;
+  cashBalance: number;
+  costBasisMethod: CostBasisMethod;
+  realizedPnL: number;
   assets: PortfolioAsset[];
   createdAt: Date;
   updatedAt: Date;
@@ -49,9 +75,77 @@ export interface PortfolioAsset {
   marketValue: number;
   unrealizedPnL: number;
   unrealizedPnLPercent: number;
+  lots: PortfolioLot[];
   lastUpdated: Date;
 }
 
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo' | 'specific';
+
+export interface PortfolioLot {
+  transactionId: string;
+  quantity: number;
+  costPerUnit: number;
+  acquiredAt: Date;
+}
+
+export interface RealizedLot {
+  transactionId: string;
+  lotTransactionId: string;
+  symbol: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  acquiredAt: Date;
+  disposedAt: Date;
+  term: 'short' | 'long';
+}
+
+export interface RealizedTermSummary {
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+}
+
+export interface RealizedPnL {
+  costBasisMethod: CostBasisMethod;
+  totalGain: number;
+  years: Array<{
+    year: number;
+    shortTerm: RealizedTermSummary;
+    longTerm: RealizedTermSummary;
+    total: RealizedTermSummary;
+  }>;
+  lots?: RealizedLot[];
+}
+
+export type TransactionType = 'buy' | 'sell' | 'deposit' | 'withdraw' | 'fee' | 'transfer';
+
+export interface Transaction {
+  _id: string;
+  portfolioId: string;
+  userId: string;
+  type: TransactionType;
+  symbol?: string;
+  name?: string;
+  assetType?: 'stock' | 'crypto';
+  quantity?: number;
+  price?: number;
+  fee: number;
+  amount?: number;
+  transferDirection?: 'in' | 'out';
+  lotSelections?: Array<{ transactionId: string; quantity: number }>;
+  executedAt: Date;
+  notes?: string;
+  source: 'manual' | 'migration';
+  voidedAt?: Date;
+  voidReason?: string;
+  replacesTransactionId?: string;
+  replacedByTransactionId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface PriceAlert {
   _id: string;
   userId: string;
@@ -65,6 +159,7 @@ export interface PriceAlert {
   isActive: boolean;
   isTriggered: boolean;
   triggeredAt?: Date;
+  triggeredPrice?: number;
   notificationMethod: 'browser' | 'email' | 'both';
   message?: string;
   createdAt: Date;
@@ -103,8 +198,32 @@ export interface WatchlistItem {
 export interface SearchResult {
   symbol: string;
   name: string;
-  type: 'stock' | 'crypto';
+  type: Asset['type'];
+  assetClass: Asset['assetClass'];
   exchange?: string;
+  score: number;
+}
+
+// An entry in the server's asset catalog
+export interface Asset {
+  symbol: string;
+  name: string;
+  assetClass: 'us_equity' | 'crypto' | 'forex';
+  type: 'stock' | 'index' | 'crypto' | 'forex';
+  exchange?: string;
+  status: 'active' | 'inactive';
+  tradable: boolean;
+  fractionable: boolean;
+  marginable: boolean;
+  shortable: boolean;
+  categories: string[];
+  featured: boolean;
+}
+
+export interface AssetCategory {
+  type: Asset['type'];
+  category: string;
+  symbols: string[];
 }
 
 export interface TechnicalIndicator {
@@ -112,14 +231,60 @@ export interface TechnicalIndicator {
   value: number;
   signal: 'buy' | 'sell' | 'hold';
   period: number;
+  values?: Record<string, number>;
+}
+
+export interface IndicatorSnapshot {
+  symbol: string;
+  timeframe: string;
+  asOf: number;
+  close: number;
+  indicators: TechnicalIndicator[];
+}
+
+// US equity session; crypto trades around the clock
+export type MarketPhase = 'pre' | 'regular' | 'after' | 'closed';
+
+export interface MarketSession {
+  date: string;
+  preMarketOpen: string;
+  open: string;
+  close: string;
+  afterHoursClose: string;
+  earlyClose: boolean;
 }
 
 export interface MarketStatus {
-  isOpen: boolean;
-  nextOpen?: string;
-  nextClose?: string;
+  phase: MarketPhase;
+  isOpen: boolean; // Regular session
   timezone: string;
   currentTime: string;
+  session: MarketSession | null;
+  holiday?: string;
+  nextOpen: string | null;
+  nextClose: string | null;
+  nextPhaseChange: string | null;
+  source: 'provider' | 'bundled';
+}
+
+// A New York trading date; times are wall-clock HH:MM
+export interface CalendarDay {
+  date: string;
+  isOpen: boolean;
+  holiday?: string;
+  open?: string;
+  close?: string;
+  sessionOpen?: string;
+  sessionClose?: string;
+  earlyClose: boolean;
+  source: 'provider' | 'bundled';
+}
+
+export interface MarketClosure {
+  date: string;
+  name: string;
+  kind: 'holiday' | 'earlyClose';
+  close?: string;
 }
 
 export interface NotificationSettings {
@@ -131,7 +296,8 @@ export interface NotificationSettings {
   marketNews: boolean;
 }
 
-export type TimeFrame = '1min' | '5min' | '15min' | '1hour' | '1day' | '1week' | '1month';
+// Bar timeframes as the backend names them; it also accepts '1min', '1h', '1week'...
+export type TimeFrame = '1Min' | '5Min' | '15Min' | '1Hour' | '1Day' | '1Week' | '1Month';
 
 export type AssetType = 'stock' | 'crypto';
 
@@ -151,7 +317,9 @@ export interface SocketEvents {
     timeframe: TimeFrame;
     limit?: number;
   };
-  searchSymbols: { query: string };
+  searchSymbols: { query: string; assetClass?: Asset['assetClass']; type?: Asset['type']; limit?: number };
+  subscribeCandles: { symbol: string; timeframe: string };
+  unsubscribeCandles: { symbol: string; timeframe: string };
   ping: void;
 
   // Server to Client
@@ -168,9 +336,12 @@ export interface SocketEvents {
     data: CandlestickData | null;
   };
   searchResults: { query: string; results: SearchResult[] };
+  candleSubscribed: { symbol: string; timeframe: string };
+  candleUpdate: Candle;
+  candleClosed: Candle;
   portfolioUpdate: Portfolio;
   priceAlert: PriceAlert;
-  technicalIndicators: { symbol: string; indicators: TechnicalIndicator[] };
+  technicalIndicators: { symbol: string; timeframe?: string; asOf?: number; indicators: TechnicalIndicator[] };
   systemMessage: { message: string; type: 'info' | 'warning' | 'error'; timestamp: string };
   marketData: MarketData;
   pong: { timestamp: number };
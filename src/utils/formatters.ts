@@ -1,3 +1,5 @@
+import { ChangeBaseline } from '../types';
+
 export function formatCurrency(value: number, currency = 'USD', locale = 'en-US'): string {
   return new Intl.NumberFormat(locale, {
     style: 'currency',
@@ -88,4 +90,16 @@ export function formatTime(date: Date, locale = 'en-US'): string {
     minute: '2-digit',
     second: '2-digit',
   }).format(date);
-}
\ No newline at end of file
+}
+
+const changeBaselineLabels: Record<ChangeBaseline, string> = {
+  '1m': '1m',
+  '24h': '24h',
+  open: 'since open',
+  prevClose: 'since prev close',
+};
+
+// Short label for what a change figure is measured against, e.g. "24h"
+export function formatChangeBaseline(baseline?: ChangeBaseline): string {
+  return baseline ? changeBaselineLabels[baseline] : '';
+}
@@ -0,0 +1,29 @@
+import { candleStart, getChartRange, getChartWindow } from './timeframes';
+
+const at = (iso) => new Date(iso).getTime();
+
+describe('candleStart', () => {
+  it('puts ticks in the same weekly and monthly candles as the server', () => {
+    expect(candleStart(at('2024-03-10T20:00:00Z'), '1Week', 0)).toBe(at('2024-03-04T00:00:00Z'));
+    expect(candleStart(at('2024-02-29T20:00:00Z'), '1Month', 0)).toBe(at('2024-02-01T00:00:00Z'));
+  });
+
+  it('counts shorter candles from the last loaded bar', () => {
+    // Daily bars stamped at 05:00 UTC (midnight New York) stay on that boundary
+    const lastBar = at('2024-03-05T05:00:00Z');
+    expect(candleStart(at('2024-03-05T20:00:00Z'), '1Day', lastBar)).toBe(lastBar);
+    expect(candleStart(at('2024-03-06T06:00:00Z'), '1Day', lastBar)).toBe(at('2024-03-06T05:00:00Z'));
+    expect(candleStart(at('2024-03-05T14:44:59Z'), '15Min', at('2024-03-05T14:00:00Z'))).toBe(at('2024-03-05T14:30:00Z'));
+  });
+});
+
+describe('getChartWindow', () => {
+  it('spans the range back from now', () => {
+    const now = new Date('2024-03-31T12:00:00Z');
+    expect(getChartWindow(getChartRange('1W'), now)).toEqual({
+      start: '2024-03-24T12:00:00.000Z',
+      end: '2024-03-31T12:00:00.000Z'
+    });
+    expect(getChartWindow(getChartRange('5Y'), now).start).toBe('2019-03-31T12:00:00.000Z');
+  });
+});
@@ -0,0 +1,73 @@
+import { TimeFrame } from '../types';
+
+export interface ChartRange {
+  value: string; // What the range buttons show, e.g. '3M'
+  label: string;
+  timeframe: TimeFrame; // Bars the range is drawn from
+  limit: number; // Most bars drawn; the backend returns the latest ones in the window
+  span: { days?: number; months?: number; years?: number }; // How far back the window reaches
+}
+
+// Every chart range and the bars behind it; weekly and monthly bars are built by the backend
+export const CHART_RANGES: ChartRange[] = [
+  // A day of 15-minute bars, looking back far enough to find the last session over a long weekend
+  { value: '1D', label: '1 Day', timeframe: '15Min', limit: 96, span: { days: 4 } },
+  { value: '1W', label: '1 Week', timeframe: '1Hour', limit: 168, span: { days: 7 } },
+  { value: '1M', label: '1 Month', timeframe: '1Day', limit: 31, span: { months: 1 } },
+  { value: '3M', label: '3 Months', timeframe: '1Day', limit: 92, span: { months: 3 } },
+  { value: '6M', label: '6 Months', timeframe: '1Day', limit: 184, span: { months: 6 } },
+  { value: '1Y', label: '1 Year', timeframe: '1Week', limit: 53, span: { years: 1 } },
+  { value: '5Y', label: '5 Years', timeframe: '1Month', limit: 61, span: { years: 5 } },
+];
+
+export function getChartRange(value: string): ChartRange {
+  return CHART_RANGES.find(range => range.value === value) || CHART_RANGES[0];
+}
+
+// The range's window ending at `now`, sent with every bar request so no range depends on backend defaults
+export function getChartWindow(range: ChartRange, now: Date = new Date()): { start: string; end: string } {
+  const start = new Date(now);
+  const { days = 0, months = 0, years = 0 } = range.span;
+  start.setUTCFullYear(start.getUTCFullYear() - years, start.getUTCMonth() - months, start.getUTCDate() - days);
+  return { start: start.toISOString(), end: now.toISOString() };
+}
+
+// Nominal length of one bar in milliseconds; months are taken as 30 days
+export function getTimeframeMs(timeframe: string): number {
+  const match = timeframe.match(/^(\d+)(Min|Hour|Day|Week|Month)$/);
+  if (!match) return 24 * 60 * 60 * 1000;
+
+  const amount = parseInt(match[1]);
+  switch (match[2]) {
+    case 'Min': return amount * 60 * 1000;
+    case 'Hour': return amount * 60 * 60 * 1000;
+    case 'Day': return amount * 24 * 60 * 60 * 1000;
+    case 'Week': return amount * 7 * 24 * 60 * 60 * 1000;
+    default: return amount * 30 * 24 * 60 * 60 * 1000;
+  }
+}
+
+/**
+ * Start of the candle a tick at `timestamp` falls in. Weekly and monthly
+ * candles follow the backend's bucketStart: weeks start Monday 00:00 UTC,
+ * months on the 1st. Shorter candles step from `anchor`, the start of a loaded
+ * bar, because provider daily bars open at New York midnight rather than UTC.
+ */
+export function candleStart(timestamp: number, timeframe: string, anchor: number): number {
+  const date = new Date(timestamp);
+
+  if (timeframe === '1Week') {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday);
+  }
+  if (timeframe === '1Month') {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+
+  const intervalMs = getTimeframeMs(timeframe);
+  return anchor + Math.floor((timestamp - anchor) / intervalMs) * intervalMs;
+}
+
+export function isIntradayTimeframe(timeframe: string): boolean {
+  return /(Min|Hour)$/.test(timeframe);
+}